@@ -1,7 +1,7 @@
 import React, { useEffect, useRef, useState } from 'react';
 import { WagmiProvider } from 'wagmi';
 import { QueryClient, QueryClientProvider } from '@tanstack/react-query';
-import { useAccount, useEnsName, useConnect, useDisconnect, useWaitForTransactionReceipt, useWriteContract, useReadContract, useWalletClient, useChainId, useSwitchChain } from 'wagmi';
+import { useAccount, useEnsName, useConnect, useDisconnect, useWaitForTransactionReceipt, useWriteContract, useReadContract, useWalletClient, useChainId, useSwitchChain, useSignMessage } from 'wagmi';
 import { getWalletClient } from 'wagmi/actions';
 import { createWalletClient, custom } from 'viem';
 import { parseEther, parseUnits } from 'viem';
@@ -11,6 +11,9 @@ import { GameScene } from './GameScene';
 import { UIScene } from './UIScene';
 import { wrapFetchWithPayment, decodeXPaymentResponse } from 'x402-fetch';
 import Leaderboard from './Leaderboard';
+import Earnings from './Earnings';
+import GameHistory from './GameHistory';
+import { buildCreditRedemptionMessage } from '@snake402/shared';
 
 const queryClient = new QueryClient();
 
@@ -124,14 +127,17 @@ interface PaymentInfo {
 // Game component that handles Phaser integration
 const GameComponent: React.FC = () => {
   const gameRef = useRef<Phaser.Game | null>(null);
+  // Paid session and the RNG seed the server issued for it (needed for score replay)
+  const sessionRef = useRef<{ sessionId: string; seed: string } | null>(null);
   const { address, isConnected } = useAccount();
   const { data: ensName } = useEnsName({ address });
   const { data: walletClient } = useWalletClient();
   const chainId = useChainId();
   const { switchChain } = useSwitchChain();
+  const { signMessageAsync } = useSignMessage();
   const [isGameStarted, setIsGameStarted] = useState(false);
   const [countdown, setCountdown] = useState<number | null>(null);
-  const [page, setPage] = useState<'home' | 'leaderboard'>('home');
+  const [page, setPage] = useState<'home' | 'leaderboard' | 'earnings' | 'history'>('home');
   
 
   
@@ -237,6 +243,7 @@ const GameComponent: React.FC = () => {
       if (response.ok) {
         const data = await response.json();
         console.log('✅ Game access granted:', data);
+        sessionRef.current = { sessionId: data.sessionId, seed: data.seed };
         
         // Check for payment response header
         const paymentResponseHeader = response.headers.get('x-payment-response');
@@ -295,7 +302,8 @@ const GameComponent: React.FC = () => {
         },
         body: JSON.stringify({
           txHash: transactionHash,
-          sessionId: paymentInfo?.sessionId || `session_${Date.now()}`
+          sessionId: paymentInfo?.sessionId || `session_${Date.now()}`,
+          wallet: address
         })
       });
 
@@ -304,6 +312,7 @@ const GameComponent: React.FC = () => {
       if (response.ok) {
         const data = await response.json();
         console.log('Payment verification successful:', data);
+        sessionRef.current = { sessionId: data.sessionId, seed: data.seed };
         setPaymentStatus('Payment verified! Starting game...');
         setPaymentInfo(null);
         setIsProcessingPayment(false);
@@ -379,6 +388,18 @@ const GameComponent: React.FC = () => {
   }, [isGameStarted]);
 
   const stopGame = () => {
+    // Leaving before game over abandons the paid session; the server's
+    // abandon policy then grants a free-replay credit or queues a refund
+    const gameScene = gameRef.current?.scene.getScene('GameScene') as GameScene | undefined;
+    if (sessionRef.current && address && gameScene && !gameScene.isGameOver()) {
+      fetch(`${API_BASE_URL}/session/${sessionRef.current.sessionId}/abandon`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ wallet: address })
+      }).catch(err => console.error('Failed to abandon session:', err));
+      sessionRef.current = null;
+    }
+
     if (gameRef.current) {
       gameRef.current.destroy(true);
       gameRef.current = null;
@@ -390,6 +411,7 @@ const GameComponent: React.FC = () => {
 
   const handleSessionExpired = () => {
     console.log('Session expired - clearing payment info to require new payment');
+    sessionRef.current = null;
     setPaymentInfo(null);
     setPaymentStatus('Session expired. Payment required for next game.');
   };
@@ -493,6 +515,35 @@ const GameComponent: React.FC = () => {
     }
   };
 
+  // Redeem a free-replay credit (granted for an abandoned paid game) if the wallet has one
+  const joinWithCredit = async (): Promise<boolean> => {
+    if (!address) return false;
+    try {
+      const creditsResponse = await fetch(`${API_BASE_URL}/credits/${address}`);
+      if (!creditsResponse.ok) return false;
+      const { credits } = await creditsResponse.json();
+      if (!credits) return false;
+
+      setPaymentStatus('Free replay credit available. Please sign to redeem it...');
+      const timestamp = Date.now();
+      const signature = await signMessageAsync({ message: buildCreditRedemptionMessage(address, timestamp) });
+      const response = await fetch(`${API_BASE_URL}/join-with-credit`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ wallet: address, timestamp, signature })
+      });
+      if (!response.ok) return false;
+
+      const data = await response.json();
+      sessionRef.current = { sessionId: data.sessionId, seed: data.seed };
+      setPaymentStatus('Credit redeemed! Starting game...');
+      return true;
+    } catch (error) {
+      console.error('Credit redemption failed:', error);
+      return false;
+    }
+  };
+
   const handlePlayClick = async () => {
     console.log('Play button clicked, isConnected:', isConnected);
     if (!isConnected) {
@@ -500,6 +551,11 @@ const GameComponent: React.FC = () => {
       return;
     }
 
+    if (await joinWithCredit()) {
+      startGameCountdown();
+      return;
+    }
+
     // Check if we're on the correct network (Base mainnet)
     console.log('Current chainId:', chainId, 'Expected:', base.id);
     if (chainId !== base.id) {
@@ -723,10 +779,22 @@ const GameComponent: React.FC = () => {
                   gravity: { x: 0, y: 0 },
                   debug: false
                 }
+              },
+              callbacks: {
+                // Hand the session seed to GameScene before it creates the board
+                preBoot: (game) => {
+                  game.registry.set('seed', sessionRef.current?.seed);
+                }
               }
             };
 
             gameRef.current = new Phaser.Game(gameConfig);
+
+            // Tell the server the paid session is now being played
+            if (sessionRef.current) {
+              fetch(`${API_BASE_URL}/session/${sessionRef.current.sessionId}/start`, { method: 'POST' })
+                .catch(err => console.error('Failed to mark session as started:', err));
+            }
             
             // Pass the stopGame callback to UIScene after game is created
             setTimeout(() => {
@@ -735,7 +803,7 @@ const GameComponent: React.FC = () => {
                 uiScene.scene.restart({ 
                   goHomeCallback: stopGame,
                   walletAddress: walletInfo.address,
-                  sessionId: paymentInfo?.sessionId,
+                  sessionId: sessionRef.current?.sessionId,
                   onSessionExpired: handleSessionExpired
                 });
               }
@@ -771,6 +839,38 @@ const GameComponent: React.FC = () => {
             >
               {page === 'leaderboard' ? 'Home' : "Today's Leaderboard"}
             </button>
+            <button
+              className="leaderboard-button"
+              onClick={() => setPage(page === 'earnings' ? 'home' : 'earnings')}
+              style={{
+                background: page === 'earnings' ? '#0d6efd' : '#6c757d',
+                color: 'white',
+                border: 'none',
+                padding: '12px 24px',
+                borderRadius: '8px',
+                cursor: 'pointer',
+                fontSize: '16px',
+                fontWeight: 'bold'
+              }}
+            >
+              {page === 'earnings' ? 'Home' : 'Payouts'}
+            </button>
+            <button
+              className="leaderboard-button"
+              onClick={() => setPage(page === 'history' ? 'home' : 'history')}
+              style={{
+                background: page === 'history' ? '#0d6efd' : '#6c757d',
+                color: 'white',
+                border: 'none',
+                padding: '12px 24px',
+                borderRadius: '8px',
+                cursor: 'pointer',
+                fontSize: '16px',
+                fontWeight: 'bold'
+              }}
+            >
+              {page === 'history' ? 'Home' : 'My Games'}
+            </button>
             <div style={{ marginLeft: 'auto' }}>
               <CustomConnectButton />
             </div>
@@ -875,6 +975,20 @@ const GameComponent: React.FC = () => {
           </div>
         )}
 
+        {/* Payouts / Earnings Page */}
+        {!isGameStarted && !countdown && page === 'earnings' && (
+          <div className="leaderboard-page">
+            <Earnings walletAddress={address} />
+          </div>
+        )}
+
+        {/* Game History Page */}
+        {!isGameStarted && !countdown && page === 'history' && (
+          <div className="leaderboard-page">
+            <GameHistory walletAddress={address} />
+          </div>
+        )}
+
         {/* Countdown Screen */}
         {countdown && (
           <div className="countdown-screen">
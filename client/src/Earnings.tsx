@@ -0,0 +1,317 @@
+import React, { useState, useEffect } from 'react';
+import { useReadContract, useWaitForTransactionReceipt, useWriteContract } from 'wagmi';
+import { isSameAddress } from '@snake402/shared';
+
+interface PayoutCycleEntry {
+  cycleId: number;
+  windowStart: number;
+  windowEnd: number;
+  status: string;
+  totalPool: number;
+  winnerCount: number;
+  txLink: string | null;
+  winners: { wallet: string; reward: number }[];
+}
+
+interface WalletCycleEntry {
+  cycleId: number;
+  windowEnd: number;
+  status: string;
+  mode: 'push' | 'claim';
+  paid: boolean;
+  totalScore: number;
+  highScore: number;
+  reward: number;
+  paidAmount: number;
+  txLink: string | null;
+}
+
+interface PlayerEarnings {
+  lifetimeEarnings: number;
+  pendingEarnings: number;
+  pendingBalance: number;
+  minPayout: number;
+  cyclesWon: number;
+  cycles: WalletCycleEntry[];
+}
+
+interface ClaimProof {
+  cycleId: number;
+  root: string;
+  cumulativeUnits: string;
+  proof: string[];
+  contract: string | null;
+}
+
+const PRIZE_POOL_CLAIM_ABI = [
+  {
+    name: 'claimed',
+    type: 'function',
+    stateMutability: 'view',
+    inputs: [{ name: 'account', type: 'address' }],
+    outputs: [{ name: '', type: 'uint256' }]
+  },
+  {
+    name: 'claim',
+    type: 'function',
+    stateMutability: 'nonpayable',
+    inputs: [
+      { name: 'cumulativeAmount', type: 'uint256' },
+      { name: 'proof', type: 'bytes32[]' }
+    ],
+    outputs: []
+  }
+] as const;
+
+interface EarningsProps {
+  walletAddress?: string;
+}
+
+const PAGE_SIZE = 10;
+
+const Earnings: React.FC<EarningsProps> = ({ walletAddress }) => {
+  const [history, setHistory] = useState<PayoutCycleEntry[]>([]);
+  const [historyTotal, setHistoryTotal] = useState(0);
+  const [offset, setOffset] = useState(0);
+  const [earnings, setEarnings] = useState<PlayerEarnings | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+  const [claimProof, setClaimProof] = useState<ClaimProof | null>(null);
+
+  // Claim mode: the contract tracks how much of the cumulative reward was already claimed
+  const { data: claimedUnits, refetch: refetchClaimed } = useReadContract({
+    address: claimProof?.contract as `0x${string}`,
+    abi: PRIZE_POOL_CLAIM_ABI,
+    functionName: 'claimed',
+    args: walletAddress ? [walletAddress as `0x${string}`] : undefined,
+    query: {
+      enabled: !!claimProof?.contract && !!walletAddress
+    }
+  });
+  const { writeContract, data: claimTxHash, isPending: isClaimPending, error: claimError } = useWriteContract();
+  const { isLoading: isClaimConfirming, isSuccess: isClaimSuccess } = useWaitForTransactionReceipt({
+    hash: claimTxHash,
+  });
+
+  const API_BASE_URL = 'http://localhost:3001';
+
+  const fetchHistory = async () => {
+    try {
+      setLoading(true);
+      setError(null);
+      const res = await fetch(`${API_BASE_URL}/payouts/history?limit=${PAGE_SIZE}&offset=${offset}`);
+      if (!res.ok) {
+        throw new Error('Failed to fetch payout history');
+      }
+      const data = await res.json();
+      setHistory(data.cycles || []);
+      setHistoryTotal(data.total ?? 0);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to load payout history');
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const fetchEarnings = async () => {
+    if (!walletAddress) {
+      setEarnings(null);
+      return;
+    }
+    try {
+      const res = await fetch(`${API_BASE_URL}/player/${walletAddress}/earnings?limit=${PAGE_SIZE}`);
+      if (!res.ok) return;
+      const data = await res.json();
+      setEarnings({
+        lifetimeEarnings: data.lifetimeEarnings ?? 0,
+        pendingEarnings: data.pendingEarnings ?? 0,
+        pendingBalance: data.pendingBalance ?? 0,
+        minPayout: data.minPayout ?? 0,
+        cyclesWon: data.cyclesWon ?? 0,
+        cycles: data.cycles || [],
+      });
+    } catch (err) {
+      // Personal earnings are optional, don't fail the whole component
+      console.log('Could not fetch earnings:', err);
+    }
+  };
+
+  const fetchClaimProof = async () => {
+    if (!walletAddress) {
+      setClaimProof(null);
+      return;
+    }
+    try {
+      const res = await fetch(`${API_BASE_URL}/payouts/proof/${walletAddress}`);
+      setClaimProof(res.ok ? await res.json() : null);
+    } catch (err) {
+      // Claims only exist in claim payout mode
+      console.log('Could not fetch claim proof:', err);
+      setClaimProof(null);
+    }
+  };
+
+  const handleClaim = () => {
+    if (!claimProof?.contract) return;
+    writeContract({
+      address: claimProof.contract as `0x${string}`,
+      abi: PRIZE_POOL_CLAIM_ABI,
+      functionName: 'claim',
+      args: [BigInt(claimProof.cumulativeUnits), claimProof.proof as `0x${string}`[]]
+    });
+  };
+
+  useEffect(() => {
+    fetchHistory();
+  }, [offset]);
+
+  useEffect(() => {
+    fetchEarnings();
+    fetchClaimProof();
+  }, [walletAddress]);
+
+  useEffect(() => {
+    if (isClaimSuccess) refetchClaimed();
+  }, [isClaimSuccess]);
+
+  const claimableUnits = claimProof && claimedUnits !== undefined
+    ? BigInt(claimProof.cumulativeUnits) - claimedUnits
+    : 0n;
+
+  const formatWallet = (wallet: string) => {
+    return `${wallet.slice(0, 6)}...${wallet.slice(-4)}`;
+  };
+
+  const formatUsdc = (amount: number) => `$${amount.toFixed(amount >= 0.01 ? 2 : 4)}`;
+
+  const formatDate = (ms: number) => new Date(ms).toLocaleString();
+
+  const renderTxLink = (txLink: string | null) => txLink ? (
+    <a href={txLink} target="_blank" rel="noreferrer" style={{ color: '#0d6efd' }}>View on BaseScan</a>
+  ) : null;
+
+  return (
+    <div className="leaderboard-container">
+      <h3>💸 Payouts</h3>
+
+      {/* Personal Earnings */}
+      {earnings && (
+        <div className="personal-stats">
+          <h4>Your Earnings</h4>
+          <div className="stats-grid">
+            <div className="stat">
+              <span className="stat-label">Lifetime Earnings:</span>
+              <span className="stat-value">{formatUsdc(earnings.lifetimeEarnings)}</span>
+            </div>
+            <div className="stat">
+              <span className="stat-label">Pending:</span>
+              <span className="stat-value">{formatUsdc(earnings.pendingEarnings)}</span>
+            </div>
+            {earnings.pendingBalance > 0 && (
+              <div className="stat">
+                <span className="stat-label">Below {formatUsdc(earnings.minPayout)} minimum:</span>
+                <span className="stat-value">{formatUsdc(earnings.pendingBalance)}</span>
+              </div>
+            )}
+            <div className="stat">
+              <span className="stat-label">Cycles Won:</span>
+              <span className="stat-value">{earnings.cyclesWon}</span>
+            </div>
+          </div>
+          {claimProof && claimableUnits > 0n && (
+            <div style={{ display: 'flex', gap: 12, alignItems: 'center', justifyContent: 'center', marginTop: 12 }}>
+              <span className="stat-label">Claimable: {formatUsdc(Number(claimableUnits) / 1e6)}</span>
+              <button
+                onClick={handleClaim}
+                className="refresh-button"
+                disabled={isClaimPending || isClaimConfirming}
+              >
+                {isClaimPending ? 'Confirm in wallet...' : isClaimConfirming ? 'Claiming...' : 'Claim'}
+              </button>
+            </div>
+          )}
+          {isClaimSuccess && <div className="games" style={{ textAlign: 'center' }}>Rewards claimed ✅</div>}
+          {claimError && <div className="error">Claim failed: {claimError.message}</div>}
+          {earnings.cycles.length > 0 && (
+            <div className="leaderboard-list" style={{ marginTop: 12 }}>
+              {earnings.cycles.map(cycle => (
+                <div key={`earning-${cycle.cycleId}`} className="leaderboard-entry">
+                  <div className="rank">#{cycle.cycleId}</div>
+                  <div className="player-info">
+                    <div className="wallet">{formatDate(cycle.windowEnd)}</div>
+                    <div className="games">
+                      Total: {cycle.totalScore} • High: {cycle.highScore} • {cycle.paidAmount === 0 ? 'carried over' : cycle.paid ? (cycle.mode === 'claim' ? 'claimable' : 'paid') : cycle.status}
+                      {cycle.txLink ? <> • {renderTxLink(cycle.txLink)}</> : null}
+                    </div>
+                  </div>
+                  <div className="score">{formatUsdc(cycle.reward)}</div>
+                </div>
+              ))}
+            </div>
+          )}
+        </div>
+      )}
+
+      {/* Payout History */}
+      <h4 style={{ color: '#9aa2aa', marginBottom: 8 }}>📜 Payout History</h4>
+      {loading ? (
+        <div className="loading">Loading...</div>
+      ) : error ? (
+        <>
+          <div className="error">Error: {error}</div>
+          <button onClick={fetchHistory} className="retry-button">
+            Retry
+          </button>
+        </>
+      ) : (
+        <div className="leaderboard-list" style={{ maxHeight: 'none' }}>
+          {history.length === 0 ? (
+            <div className="empty-leaderboard">No payouts yet.</div>
+          ) : (
+            history.map(cycle => (
+              <div key={`cycle-${cycle.cycleId}`} className="leaderboard-entry" style={{ alignItems: 'flex-start' }}>
+                <div className="rank">#{cycle.cycleId}</div>
+                <div className="player-info">
+                  <div className="wallet">{formatDate(cycle.windowEnd)}</div>
+                  <div className="games">
+                    {cycle.winnerCount} winners • {cycle.status}
+                    {cycle.txLink ? <> • {renderTxLink(cycle.txLink)}</> : null}
+                  </div>
+                  {cycle.winners.slice(0, 3).map(winner => (
+                    <div
+                      key={`cycle-${cycle.cycleId}-${winner.wallet}`}
+                      className="games"
+                      style={walletAddress && isSameAddress(winner.wallet, walletAddress) ? { color: '#ffc107' } : undefined}
+                    >
+                      {formatWallet(winner.wallet)}: {formatUsdc(winner.reward)}
+                    </div>
+                  ))}
+                </div>
+                <div className="score">{formatUsdc(cycle.totalPool)}</div>
+              </div>
+            ))
+          )}
+        </div>
+      )}
+
+      <div style={{ display: 'flex', gap: 12, justifyContent: 'center' }}>
+        <button
+          onClick={() => setOffset(Math.max(offset - PAGE_SIZE, 0))}
+          className="refresh-button"
+          disabled={offset === 0}
+        >
+          ← Newer
+        </button>
+        <button
+          onClick={() => setOffset(offset + PAGE_SIZE)}
+          className="refresh-button"
+          disabled={offset + PAGE_SIZE >= historyTotal}
+        >
+          Older →
+        </button>
+      </div>
+    </div>
+  );
+};
+
+export default Earnings;
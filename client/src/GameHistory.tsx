@@ -0,0 +1,133 @@
+import React, { useState, useEffect } from 'react';
+
+interface GameEntry {
+  id: number;
+  score: number;
+  durationSeconds: number;
+  foodEaten: number;
+  maxLength: number;
+  moves: number;
+  collisionType?: 'wall' | 'self';
+  flagged: boolean;
+  submittedAt: number;
+  entryFee?: number;
+  txLink: string | null;
+}
+
+interface GameHistoryProps {
+  walletAddress?: string;
+}
+
+const PAGE_SIZE = 10;
+
+const GameHistory: React.FC<GameHistoryProps> = ({ walletAddress }) => {
+  const [games, setGames] = useState<GameEntry[]>([]);
+  const [total, setTotal] = useState(0);
+  const [offset, setOffset] = useState(0);
+  const [loading, setLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const API_BASE_URL = 'http://localhost:3001';
+
+  const fetchGames = async () => {
+    if (!walletAddress) {
+      setGames([]);
+      setTotal(0);
+      return;
+    }
+    try {
+      setLoading(true);
+      setError(null);
+      const res = await fetch(`${API_BASE_URL}/player/${walletAddress}/games?limit=${PAGE_SIZE}&offset=${offset}`);
+      if (!res.ok) {
+        throw new Error('Failed to fetch game history');
+      }
+      const data = await res.json();
+      setGames(data.games || []);
+      setTotal(data.total ?? 0);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to load game history');
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  useEffect(() => {
+    fetchGames();
+  }, [walletAddress, offset]);
+
+  const formatDate = (ms: number) => new Date(ms).toLocaleString();
+
+  const formatDuration = (seconds: number) => `${Math.floor(seconds / 60)}:${String(seconds % 60).padStart(2, '0')}`;
+
+  if (!walletAddress) {
+    return (
+      <div className="leaderboard-container">
+        <h3>🐍 My Games</h3>
+        <div className="empty-leaderboard">Connect your wallet to see your games.</div>
+      </div>
+    );
+  }
+
+  return (
+    <div className="leaderboard-container">
+      <h3>🐍 My Games</h3>
+
+      {loading ? (
+        <div className="loading">Loading...</div>
+      ) : error ? (
+        <>
+          <div className="error">Error: {error}</div>
+          <button onClick={fetchGames} className="retry-button">
+            Retry
+          </button>
+        </>
+      ) : (
+        <div className="leaderboard-list" style={{ maxHeight: 'none' }}>
+          {games.length === 0 ? (
+            <div className="empty-leaderboard">No games yet. Play one to start your history!</div>
+          ) : (
+            games.map(game => (
+              <div key={`game-${game.id}`} className="leaderboard-entry">
+                <div className="rank">#{game.id}</div>
+                <div className="player-info">
+                  <div className="wallet">{formatDate(game.submittedAt)}</div>
+                  <div className="games">
+                    {formatDuration(game.durationSeconds)} • {game.foodEaten} food • length {game.maxLength}
+                    {game.collisionType ? ` • hit ${game.collisionType}` : ''}
+                    {game.flagged ? ' • 🚩 flagged' : ''}
+                  </div>
+                  {game.txLink ? (
+                    <div className="games">
+                      <a href={game.txLink} target="_blank" rel="noreferrer" style={{ color: '#0d6efd' }}>Entry fee on BaseScan</a>
+                    </div>
+                  ) : null}
+                </div>
+                <div className="score">{game.score}</div>
+              </div>
+            ))
+          )}
+        </div>
+      )}
+
+      <div style={{ display: 'flex', gap: 12, justifyContent: 'center' }}>
+        <button
+          onClick={() => setOffset(Math.max(offset - PAGE_SIZE, 0))}
+          className="refresh-button"
+          disabled={offset === 0}
+        >
+          ← Newer
+        </button>
+        <button
+          onClick={() => setOffset(offset + PAGE_SIZE)}
+          className="refresh-button"
+          disabled={offset + PAGE_SIZE >= total}
+        >
+          Older →
+        </button>
+      </div>
+    </div>
+  );
+};
+
+export default GameHistory;
@@ -1,25 +1,21 @@
 import Phaser from 'phaser';
+import { SnakeEngine, type Direction, type GameData, type InputEvent } from '@snake402/shared';
 
-interface SnakeSegment {
-  x: number;
-  y: number;
+export interface GameReplay {
+  inputs: InputEvent[];
+  gameData: GameData;
 }
 
 export class GameScene extends Phaser.Scene {
-  private snake: SnakeSegment[] = [];
-  private apple: { x: number; y: number } | null = null;
-  private direction: { x: number; y: number } = { x: 1, y: 0 };
-  private nextDirection: { x: number; y: number } = { x: 1, y: 0 };
-  private score: number = 0;
-  private applesEaten: number = 0; // Track number of red apples eaten
-  private gameOver: boolean = false;
+  // All game rules live in the shared engine; this scene only renders it
+  private engine!: SnakeEngine;
+  private inputLog: InputEvent[] = []; // uploaded with the score for server-side replay
   private lastMoveTime: number = 0;
-  private moveDelay: number = 150; // milliseconds between moves
   
   // Game grid settings
   private readonly CELL_SIZE = 40; // Larger cells for 15x15 grid
-  private readonly GRID_WIDTH = 15; // 15x15 grid
-  private readonly GRID_HEIGHT = 15; // 15x15 grid
+  private GRID_WIDTH!: number;
+  private GRID_HEIGHT!: number;
   
   // Calculate game area and positioning
   private GAME_AREA_WIDTH!: number;
@@ -45,6 +41,13 @@ export class GameScene extends Phaser.Scene {
   }
 
   create() {
+    // Initialize game state
+    this.engine = new SnakeEngine(this.createSeed());
+    this.inputLog = [];
+    this.lastMoveTime = 0;
+    this.GRID_WIDTH = this.engine.config.gridWidth;
+    this.GRID_HEIGHT = this.engine.config.gridHeight;
+
     // Calculate game area dimensions and positioning
     this.GAME_AREA_WIDTH = this.GRID_WIDTH * this.CELL_SIZE; // 600px
     this.GAME_AREA_HEIGHT = this.GRID_HEIGHT * this.CELL_SIZE; // 600px
@@ -58,20 +61,6 @@ export class GameScene extends Phaser.Scene {
     // Set canvas background to a darker color to contrast with game area
     this.cameras.main.setBackgroundColor(0x34495e);
     
-    // Initialize game state
-    this.score = 0;
-    this.gameOver = false;
-    this.applesEaten = 0;
-    
-    // Initialize snake in the center
-    this.snake = [
-      { x: Math.floor(this.GRID_WIDTH / 2), y: Math.floor(this.GRID_HEIGHT / 2) }
-    ];
-    
-    // Set initial direction
-    this.direction = { x: 1, y: 0 };
-    this.nextDirection = { x: 1, y: 0 };
-    
     // Create graphics objects with explicit depth ordering
     this.borderGraphics = this.add.graphics();
     this.borderGraphics.setDepth(0); // Background layer
@@ -85,9 +74,6 @@ export class GameScene extends Phaser.Scene {
     // Draw initial border
     this.drawBorder();
     
-    // Spawn first apple
-    this.spawnApple();
-    
     // Initial render to show snake and apple
     this.render();
     
@@ -98,7 +84,13 @@ export class GameScene extends Phaser.Scene {
     this.scene.launch('UIScene');
     
     // Emit initial score
-    this.events.emit('scoreUpdate', this.score);
+    this.events.emit('scoreUpdate', this.engine.state.score);
+  }
+
+  // Use the seed issued with the paid session so the server can replay the game
+  private createSeed(): string | number {
+    const seed = this.registry.get('seed');
+    return seed ?? Math.floor(Math.random() * 0xffffffff);
   }
 
   private setupInput() {
@@ -150,7 +142,7 @@ export class GameScene extends Phaser.Scene {
   }
 
   update(_time: number, delta: number) {
-    if (this.gameOver) return;
+    if (this.engine.state.gameOver) return;
 
     // Handle input
     this.handleInput();
@@ -158,7 +150,7 @@ export class GameScene extends Phaser.Scene {
     // Update move timer
     this.lastMoveTime += delta;
     
-    if (this.lastMoveTime >= this.moveDelay) {
+    if (this.lastMoveTime >= this.engine.state.moveDelay) {
       this.moveSnake();
       this.lastMoveTime = 0;
     }
@@ -168,106 +160,72 @@ export class GameScene extends Phaser.Scene {
   }
 
   private handleInput() {
-    // Prevent reverse direction
-    const canChangeDirection = (newDir: { x: number; y: number }) => {
-      return !(newDir.x === -this.direction.x && newDir.y === -this.direction.y);
-    };
-
-    // Arrow keys
-    if (this.cursors.left.isDown && canChangeDirection({ x: -1, y: 0 })) {
-      this.nextDirection = { x: -1, y: 0 };
-    } else if (this.cursors.right.isDown && canChangeDirection({ x: 1, y: 0 })) {
-      this.nextDirection = { x: 1, y: 0 };
-    } else if (this.cursors.up.isDown && canChangeDirection({ x: 0, y: -1 })) {
-      this.nextDirection = { x: 0, y: -1 };
-    } else if (this.cursors.down.isDown && canChangeDirection({ x: 0, y: 1 })) {
-      this.nextDirection = { x: 0, y: 1 };
-    }
+    // Arrow keys (the engine ignores reversing into the current direction)
+    this.applyKeys(this.cursors.left, this.cursors.right, this.cursors.up, this.cursors.down);
 
     // WASD keys
-    if (this.wasdKeys.A.isDown && canChangeDirection({ x: -1, y: 0 })) {
-      this.nextDirection = { x: -1, y: 0 };
-    } else if (this.wasdKeys.D.isDown && canChangeDirection({ x: 1, y: 0 })) {
-      this.nextDirection = { x: 1, y: 0 };
-    } else if (this.wasdKeys.W.isDown && canChangeDirection({ x: 0, y: -1 })) {
-      this.nextDirection = { x: 0, y: -1 };
-    } else if (this.wasdKeys.S.isDown && canChangeDirection({ x: 0, y: 1 })) {
-      this.nextDirection = { x: 0, y: 1 };
+    this.applyKeys(this.wasdKeys.A, this.wasdKeys.D, this.wasdKeys.W, this.wasdKeys.S);
+  }
+
+  private applyKeys(
+    left: Phaser.Input.Keyboard.Key,
+    right: Phaser.Input.Keyboard.Key,
+    up: Phaser.Input.Keyboard.Key,
+    down: Phaser.Input.Keyboard.Key
+  ) {
+    const pressed: [Phaser.Input.Keyboard.Key, Direction][] = [
+      [left, 'left'],
+      [right, 'right'],
+      [up, 'up'],
+      [down, 'down']
+    ];
+    // First held key that is a legal turn wins, matching the old if/else chain
+    for (const [key, direction] of pressed) {
+      if (!key.isDown) continue;
+      const previous = this.engine.state.nextDirection;
+      if (this.engine.setDirection(direction)) {
+        if (direction !== previous) {
+          this.inputLog.push({ tick: this.engine.state.tick, direction });
+        }
+        return;
+      }
     }
   }
 
   private moveSnake() {
-    // Update direction
-    this.direction = { ...this.nextDirection };
+    const result = this.engine.tick();
 
-    // Calculate new head position
-    const head = this.snake[0];
-    const newHead: SnakeSegment = {
-      x: head.x + this.direction.x,
-      y: head.y + this.direction.y
-    };
-
-    // Check wall collision
-    if (newHead.x < 0 || newHead.x >= this.GRID_WIDTH || 
-        newHead.y < 0 || newHead.y >= this.GRID_HEIGHT) {
+    if (result.gameOver) {
       this.triggerGameOver();
       return;
     }
 
-    // Check self collision
-    if (this.snake.some(segment => segment.x === newHead.x && segment.y === newHead.y)) {
-      this.triggerGameOver();
-      return;
-    }
-
-    // Add new head
-    this.snake.unshift(newHead);
-
-    // Check apple collision
-    if (this.apple && newHead.x === this.apple.x && newHead.y === this.apple.y) {
-      this.eatApple();
-    } else {
-      // Remove tail if no apple eaten
-      this.snake.pop();
+    if (result.ateApple) {
+      // Emit score update event
+      this.events.emit('scoreUpdate', this.engine.state.score);
     }
   }
 
-  private spawnApple() {
-    let validPosition = false;
-    let attempts = 0;
-    
-    while (!validPosition && attempts < 100) {
-      const x = Math.floor(Math.random() * this.GRID_WIDTH);
-      const y = Math.floor(Math.random() * this.GRID_HEIGHT);
-      
-      // Check if position is not occupied by snake
-      if (!this.snake.some(segment => segment.x === x && segment.y === y)) {
-        this.apple = { x, y };
-        validPosition = true;
-      }
-      attempts++;
-    }
+  private triggerGameOver() {
+    this.events.emit('gameOver', this.engine.state.score, this.getReplay());
   }
 
-  private eatApple() {
-    // Increment apples eaten counter
-    this.applesEaten += 1;
-    
-    // Score is equal to the number of red apples eaten
-    this.score = this.applesEaten;
-    
-    this.spawnApple();
-    
-    // Emit score update event
-    this.events.emit('scoreUpdate', this.score);
-    
-    // Slightly increase speed (decrease delay) as score increases
-    this.moveDelay = Math.max(80, 150 - Math.floor(this.score / 5) * 5);
+  public isGameOver(): boolean {
+    return this.engine?.state.gameOver ?? false;
   }
 
-  private triggerGameOver() {
-    this.gameOver = true;
-    this.events.emit('gameOver', this.score);
+  public getReplay(): GameReplay {
+    const state = this.engine.state;
+    return {
+      inputs: [...this.inputLog],
+      gameData: {
+        duration: state.elapsedMs / 1000,
+        foodEaten: state.applesEaten,
+        maxLength: state.maxLength,
+        moves: state.tick,
+        collisionType: state.collisionType ?? undefined
+      }
+    };
   }
 
   private render() {
@@ -275,8 +233,10 @@ export class GameScene extends Phaser.Scene {
     this.snakeGraphics.clear();
     this.appleGraphics.clear();
 
+    const { snake, apple } = this.engine.state;
+
     // Draw snake segments
-    this.snake.forEach((segment, index) => {
+    snake.forEach((segment, index) => {
       if (index === 0) {
         // Head - darker green
         this.snakeGraphics.fillStyle(0x27ae60);
@@ -297,9 +257,9 @@ export class GameScene extends Phaser.Scene {
     });
 
     // Draw apple using text emoji
-    if (this.apple) {
-      const x = this.GAME_OFFSET_X + this.apple.x * this.CELL_SIZE + this.CELL_SIZE / 2;
-      const y = this.GAME_OFFSET_Y + this.apple.y * this.CELL_SIZE + this.CELL_SIZE / 2;
+    if (apple) {
+      const x = this.GAME_OFFSET_X + apple.x * this.CELL_SIZE + this.CELL_SIZE / 2;
+      const y = this.GAME_OFFSET_Y + apple.y * this.CELL_SIZE + this.CELL_SIZE / 2;
       
       // Clear any existing apple text and create new one
       if (this.appleText) {
@@ -316,23 +276,11 @@ export class GameScene extends Phaser.Scene {
   }
 
   public restartGame() {
-    // Reset game state
-    this.snake = [
-      { x: Math.floor(this.GRID_WIDTH / 2), y: Math.floor(this.GRID_HEIGHT / 2) },
-      { x: Math.floor(this.GRID_WIDTH / 2) - 1, y: Math.floor(this.GRID_HEIGHT / 2) },
-      { x: Math.floor(this.GRID_WIDTH / 2) - 2, y: Math.floor(this.GRID_HEIGHT / 2) }
-    ];
-    
-    this.direction = { x: 1, y: 0 };
-    this.nextDirection = { x: 1, y: 0 };
-    this.score = 0;
-    this.applesEaten = 0;
-    this.gameOver = false;
+    // Reset game state. A restart starts from the same one-segment snake as
+    // create(), since the server replays every game from the engine's start
+    this.engine = new SnakeEngine(this.createSeed());
+    this.inputLog = [];
     this.lastMoveTime = 0;
-    this.moveDelay = 150;
-
-    // Spawn new apple
-    this.spawnApple();
 
     // Emit restart event
     this.events.emit('gameRestart');
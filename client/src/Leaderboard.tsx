@@ -1,4 +1,4 @@
-import React, { useState, useEffect } from 'react';
+import React, { useState, useEffect, useRef } from 'react';
 
 interface LeaderboardEntry {
   wallet: string;
@@ -7,6 +7,13 @@ interface LeaderboardEntry {
   gamesPlayed: number;
 }
 
+// Projected share of each pool if the cycle closed now
+interface ProjectedReward {
+  reward: number;
+  rewardTotal: number;
+  rewardHigh: number;
+}
+
 interface LeaderboardProps {
   walletAddress?: string;
 }
@@ -22,6 +29,13 @@ const Leaderboard: React.FC<LeaderboardProps> = ({ walletAddress }) => {
   const [lastTxLink, setLastTxLink] = useState<string | null>(null);
   const [countdown, setCountdown] = useState<string>('');
   const [sseConnected, setSseConnected] = useState<boolean>(false);
+  const [projectedRewards, setProjectedRewards] = useState<Record<string, ProjectedReward>>({});
+  const [personalProjection, setPersonalProjection] = useState<number | null>(null);
+  // '' shows today's live leaderboard; a YYYY-MM-DD date shows that day's archived standings
+  const [selectedDate, setSelectedDate] = useState<string>('');
+  const [archivedDates, setArchivedDates] = useState<string[]>([]);
+  // Read by the SSE and countdown handlers, which are not re-created on date changes
+  const selectedDateRef = useRef<string>('');
 
   const API_BASE_URL = 'http://localhost:3001';
 
@@ -46,6 +60,51 @@ const Leaderboard: React.FC<LeaderboardProps> = ({ walletAddress }) => {
     }
   };
 
+  const fetchPayoutPreview = async () => {
+    try {
+      const res = await fetch(`${API_BASE_URL}/payouts/preview`);
+      if (!res.ok) return;
+      const data = await res.json();
+      const byWallet: Record<string, ProjectedReward> = {};
+      (data.rewards || []).forEach((r: any) => {
+        byWallet[String(r.wallet).toLowerCase()] = {
+          reward: r.reward ?? 0,
+          rewardTotal: r.rewardTotal ?? 0,
+          rewardHigh: r.rewardHigh ?? 0,
+        };
+      });
+      setProjectedRewards(byWallet);
+
+      if (walletAddress) {
+        const personalRes = await fetch(`${API_BASE_URL}/payouts/preview/${walletAddress}`);
+        if (personalRes.ok) {
+          const personalData = await personalRes.json();
+          setPersonalProjection(personalData.projectedReward ?? 0);
+        }
+      }
+    } catch (e) {
+      // silent fail; projections are optional
+    }
+  };
+
+  const fetchArchivedDates = async () => {
+    try {
+      const res = await fetch(`${API_BASE_URL}/leaderboard/daily/dates`);
+      if (!res.ok) return;
+      const data = await res.json();
+      setArchivedDates(data.dates || []);
+    } catch (e) {
+      // silent fail; the date picker still accepts any day
+    }
+  };
+
+  const selectDate = (date: string) => {
+    selectedDateRef.current = date;
+    setSelectedDate(date);
+  };
+
+  const formatUsdc = (amount: number) => `$${amount.toFixed(amount >= 0.01 ? 2 : 4)}`;
+
   const formatCountdown = (ms: number) => {
     if (ms <= 0) return '00:00:00';
     const totalSeconds = Math.floor(ms / 1000);
@@ -61,10 +120,12 @@ const Leaderboard: React.FC<LeaderboardProps> = ({ walletAddress }) => {
       setLoading(true);
       setError(null);
 
-      // Fetch both leaderboards
+      // Fetch both leaderboards, from the archive when browsing a past day
+      const date = selectedDateRef.current;
+      const basePath = date ? `${API_BASE_URL}/leaderboard/daily/${date}` : `${API_BASE_URL}/leaderboard/daily`;
       const [totalResponse, highResponse] = await Promise.all([
-        fetch(`${API_BASE_URL}/leaderboard/daily/total`),
-        fetch(`${API_BASE_URL}/leaderboard/daily/high`)
+        fetch(`${basePath}/total`),
+        fetch(`${basePath}/high`)
       ]);
 
       if (!totalResponse.ok || !highResponse.ok) {
@@ -92,6 +153,14 @@ const Leaderboard: React.FC<LeaderboardProps> = ({ walletAddress }) => {
       setTotalLeaderboard(normalizedTotal);
       setHighLeaderboard(normalizedHigh);
 
+      // Projections and personal stats only exist for the running day
+      if (date) {
+        setProjectedRewards({});
+        setPersonalStats(null);
+        return;
+      }
+      fetchPayoutPreview();
+
       // Fetch personal stats if wallet is connected
       if (walletAddress) {
         try {
@@ -120,13 +189,22 @@ const Leaderboard: React.FC<LeaderboardProps> = ({ walletAddress }) => {
   useEffect(() => {
     fetchLeaderboards();
     fetchPayoutStatus();
-  }, [walletAddress]);
+  }, [walletAddress, selectedDate]);
+
+  useEffect(() => {
+    fetchArchivedDates();
+  }, []);
 
   useEffect(() => {
     const timer = setInterval(() => {
       if (nextPayoutAt) {
         const remaining = nextPayoutAt - Date.now();
         setCountdown(formatCountdown(remaining));
+        // Payout is due; poll until the server reports the next scheduled time
+        if (remaining <= 0 && Math.floor(-remaining / 1000) % 30 === 0) {
+          fetchPayoutStatus();
+          fetchLeaderboards();
+        }
       }
     }, 1000);
     return () => clearInterval(timer);
@@ -141,6 +219,7 @@ const Leaderboard: React.FC<LeaderboardProps> = ({ walletAddress }) => {
       // Any payout event should refresh both leaderboards
       fetchLeaderboards();
       fetchPayoutStatus();
+      fetchArchivedDates();
     };
     return () => es.close();
   }, []);
@@ -151,10 +230,29 @@ const Leaderboard: React.FC<LeaderboardProps> = ({ walletAddress }) => {
 
   // We now show both leaderboards at once; no active tab.
 
+  const title = selectedDate ? `🏆 Leaderboard for ${selectedDate}` : "🏆 Today's Leaderboard";
+  const today = new Date().toISOString().slice(0, 10);
+
+  const datePicker = (
+    <div style={{ display: 'flex', gap: 8, alignItems: 'center', justifyContent: 'center', marginBottom: 12 }}>
+      <input
+        type="date"
+        value={selectedDate}
+        min={archivedDates[archivedDates.length - 1]}
+        max={today}
+        onChange={e => selectDate(e.target.value === today ? '' : e.target.value)}
+      />
+      <button onClick={() => selectDate('')} className="refresh-button" disabled={!selectedDate}>
+        Today
+      </button>
+    </div>
+  );
+
   if (loading) {
     return (
       <div className="leaderboard-container">
-        <h3>🏆 Today's Leaderboard</h3>
+        <h3>{title}</h3>
+        {datePicker}
         <div className="loading">Loading...</div>
       </div>
     );
@@ -163,7 +261,8 @@ const Leaderboard: React.FC<LeaderboardProps> = ({ walletAddress }) => {
   if (error) {
     return (
       <div className="leaderboard-container">
-        <h3>🏆 Today's Leaderboard</h3>
+        <h3>{title}</h3>
+        {datePicker}
         <div className="error">Error: {error}</div>
         <button onClick={fetchLeaderboards} className="retry-button">
           Retry
@@ -174,7 +273,11 @@ const Leaderboard: React.FC<LeaderboardProps> = ({ walletAddress }) => {
 
   return (
     <div className="leaderboard-container">
-      <h3>🏆 Today's Leaderboard</h3>
+      <h3>{title}</h3>
+      {datePicker}
+      {selectedDate && !archivedDates.includes(selectedDate) && (
+        <div style={{ marginBottom: 12, color: '#9aa2aa' }}>No leaderboard was archived for this day.</div>
+      )}
       {nextPayoutAt && (
         <div style={{ marginBottom: 12, color: '#9aa2aa' }}>
           ⏱️ Next payout in <strong style={{ color: '#cbd5e1' }}>{countdown}</strong>{sseConnected ? ' • Live' : ''}
@@ -208,6 +311,12 @@ const Leaderboard: React.FC<LeaderboardProps> = ({ walletAddress }) => {
               <span className="stat-label">Today's High Score:</span>
               <span className="stat-value">{personalStats.highScore}</span>
             </div>
+            {personalProjection !== null && (
+              <div className="stat">
+                <span className="stat-label">Projected Reward:</span>
+                <span className="stat-value">{formatUsdc(personalProjection)}</span>
+              </div>
+            )}
           </div>
         </div>
       )}
@@ -218,7 +327,7 @@ const Leaderboard: React.FC<LeaderboardProps> = ({ walletAddress }) => {
           <h4 style={{ color: '#9aa2aa', marginBottom: 8 }}>🏆 Total Score</h4>
           <div className="leaderboard-list">
             {totalLeaderboard.length === 0 ? (
-              <div className="empty-leaderboard">No players yet. Be the first to play!</div>
+              <div className="empty-leaderboard">{selectedDate ? 'No players that day.' : 'No players yet. Be the first to play!'}</div>
             ) : (
               totalLeaderboard.map((entry, index) => (
                 <div
@@ -229,6 +338,9 @@ const Leaderboard: React.FC<LeaderboardProps> = ({ walletAddress }) => {
                   <div className="player-info">
                     <div className="wallet">{formatWallet(entry.wallet)}</div>
                     <div className="games">Games: {entry.gamesPlayed}</div>
+                    {projectedRewards[entry.wallet.toLowerCase()]?.rewardTotal ? (
+                      <div className="games">Projected reward: {formatUsdc(projectedRewards[entry.wallet.toLowerCase()].rewardTotal)}</div>
+                    ) : null}
                   </div>
                   <div className="score">{entry.totalScore}</div>
                 </div>
@@ -240,7 +352,7 @@ const Leaderboard: React.FC<LeaderboardProps> = ({ walletAddress }) => {
           <h4 style={{ color: '#9aa2aa', marginBottom: 8 }}>🔥 High Score</h4>
           <div className="leaderboard-list">
             {highLeaderboard.length === 0 ? (
-              <div className="empty-leaderboard">No players yet. Be the first to play!</div>
+              <div className="empty-leaderboard">{selectedDate ? 'No players that day.' : 'No players yet. Be the first to play!'}</div>
             ) : (
               highLeaderboard.map((entry, index) => (
                 <div
@@ -251,6 +363,9 @@ const Leaderboard: React.FC<LeaderboardProps> = ({ walletAddress }) => {
                   <div className="player-info">
                     <div className="wallet">{formatWallet(entry.wallet)}</div>
                     <div className="games">Games: {entry.gamesPlayed}</div>
+                    {projectedRewards[entry.wallet.toLowerCase()]?.rewardHigh ? (
+                      <div className="games">Projected reward: {formatUsdc(projectedRewards[entry.wallet.toLowerCase()].rewardHigh)}</div>
+                    ) : null}
                   </div>
                   <div className="score">{entry.highScore}</div>
                 </div>
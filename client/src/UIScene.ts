@@ -1,4 +1,5 @@
 import Phaser from 'phaser';
+import type { GameReplay } from './GameScene';
 
 export class UIScene extends Phaser.Scene {
   private scoreText!: Phaser.GameObjects.Text;
@@ -146,7 +147,7 @@ export class UIScene extends Phaser.Scene {
     this.scoreText.setText(`🍎 ${score}`);
   }
 
-  private async showGameOver(finalScore: number) {
+  private async showGameOver(finalScore: number, replay?: GameReplay) {
     this.finalScoreText.setText(`Final Score: ${finalScore}`);
     this.personalStatsText.setText('Submitting score...');
     this.gameOverContainer.setVisible(true);
@@ -161,9 +162,9 @@ export class UIScene extends Phaser.Scene {
     });
 
     // Submit score to server if we have wallet and session data
-    if (this.walletAddress && this.sessionId) {
+    if (this.walletAddress && this.sessionId && replay) {
       try {
-        await this.submitScore(finalScore);
+        await this.submitScore(finalScore, replay);
       } catch (error) {
         console.error('Failed to submit score:', error);
         this.personalStatsText.setText('Failed to submit score');
@@ -173,7 +174,7 @@ export class UIScene extends Phaser.Scene {
     }
   }
 
-  private async submitScore(score: number): Promise<void> {
+  private async submitScore(score: number, replay: GameReplay): Promise<void> {
     try {
       // Submit score to server
       const response = await fetch('http://localhost:3001/api/submit-score', {
@@ -184,7 +185,9 @@ export class UIScene extends Phaser.Scene {
         body: JSON.stringify({
           sessionId: this.sessionId,
           wallet: this.walletAddress,
-          score: score
+          score: score,
+          gameData: replay.gameData,
+          inputs: replay.inputs
         })
       });
 
@@ -2,16 +2,21 @@
 pragma solidity ^0.8.20;
 
 import "@openzeppelin/contracts/token/ERC20/IERC20.sol";
+import "@openzeppelin/contracts/utils/cryptography/MerkleProof.sol";
 
 contract PrizePool {
     IERC20 public usdc;
     address public owner;
     address public treasury;
+    // Root over (account, cumulative reward) leaves; see server/src/merkle.ts
+    bytes32 public merkleRoot;
+    mapping(address => uint256) public claimed;
 
     event Deposit(address indexed from, uint256 amount);
     event Payout(address indexed to, uint256 amount);
     event TreasuryWithdraw(address indexed to, uint256 amount);
     event TreasuryChanged(address indexed previous, address indexed newTreasury);
+    event MerkleRootUpdated(bytes32 root);
 
     constructor(address _usdc, address _treasury) {
         usdc = IERC20(_usdc);
@@ -33,6 +38,24 @@ contract PrizePool {
         }
     }
 
+    // Owner-only: publish the root of cumulative rewards for claim payouts
+    function setMerkleRoot(bytes32 root) external {
+        require(msg.sender == owner, "Only owner");
+        merkleRoot = root;
+        emit MerkleRootUpdated(root);
+    }
+
+    // Claim everything owed up to cumulativeAmount that has not been claimed yet
+    function claim(uint256 cumulativeAmount, bytes32[] calldata proof) external {
+        bytes32 leaf = keccak256(bytes.concat(keccak256(abi.encode(msg.sender, cumulativeAmount))));
+        require(MerkleProof.verify(proof, merkleRoot, leaf), "Invalid proof");
+        require(cumulativeAmount > claimed[msg.sender], "Nothing to claim");
+        uint256 amount = cumulativeAmount - claimed[msg.sender];
+        claimed[msg.sender] = cumulativeAmount;
+        usdc.transfer(msg.sender, amount);
+        emit Payout(msg.sender, amount);
+    }
+
     // Owner-only: update treasury address
     function setTreasury(address _treasury) external {
         require(msg.sender == owner, "Only owner");
@@ -0,0 +1,189 @@
+-- Baseline: the Postgres schema as first released, matching sqlite/0001_initial.sql.
+-- Timestamps are epoch milliseconds in BIGINT columns.
+
+CREATE TABLE IF NOT EXISTS player_stats (
+  wallet TEXT PRIMARY KEY,
+  total_score BIGINT NOT NULL DEFAULT 0,
+  high_score INTEGER NOT NULL DEFAULT 0,
+  games_played INTEGER NOT NULL DEFAULT 0,
+  last_played BIGINT NOT NULL DEFAULT 0
+);
+
+CREATE TABLE IF NOT EXISTS entry_fees (
+  id SERIAL PRIMARY KEY,
+  amount DOUBLE PRECISION NOT NULL,
+  timestamp BIGINT NOT NULL,
+  wallet TEXT,
+  session_id TEXT UNIQUE,
+  tx_hash TEXT UNIQUE,
+  payment_ref TEXT UNIQUE,
+  network TEXT,
+  payment_path TEXT
+);
+CREATE INDEX IF NOT EXISTS idx_entry_fees_timestamp ON entry_fees(timestamp);
+
+CREATE TABLE IF NOT EXISTS daily_player_stats (
+  wallet TEXT PRIMARY KEY,
+  total_score_daily BIGINT NOT NULL DEFAULT 0,
+  high_score_daily INTEGER NOT NULL DEFAULT 0,
+  games_played_daily INTEGER NOT NULL DEFAULT 0,
+  last_played_daily BIGINT NOT NULL DEFAULT 0
+);
+
+CREATE TABLE IF NOT EXISTS game_sessions (
+  id TEXT PRIMARY KEY,
+  status TEXT NOT NULL,
+  seed TEXT NOT NULL,
+  wallet TEXT,
+  payment_ref TEXT UNIQUE,
+  fee_recorded BOOLEAN NOT NULL DEFAULT FALSE,
+  created_at BIGINT NOT NULL,
+  paid_at BIGINT,
+  started_at BIGINT,
+  ended_at BIGINT,
+  updated_at BIGINT NOT NULL
+);
+CREATE INDEX IF NOT EXISTS idx_game_sessions_status ON game_sessions(status);
+
+CREATE TABLE IF NOT EXISTS session_compensations (
+  session_id TEXT PRIMARY KEY,
+  wallet TEXT NOT NULL,
+  type TEXT NOT NULL,
+  status TEXT NOT NULL,
+  amount DOUBLE PRECISION NOT NULL,
+  redeemed_session_id TEXT,
+  tx_hash TEXT,
+  created_at BIGINT NOT NULL,
+  updated_at BIGINT NOT NULL
+);
+
+CREATE TABLE IF NOT EXISTS payout_cycles (
+  id SERIAL PRIMARY KEY,
+  window_start BIGINT NOT NULL UNIQUE,
+  window_end BIGINT NOT NULL,
+  status TEXT NOT NULL,
+  total_pool DOUBLE PRECISION NOT NULL,
+  pool_total DOUBLE PRECISION NOT NULL,
+  pool_high DOUBLE PRECISION NOT NULL,
+  pool_treasury DOUBLE PRECISION NOT NULL,
+  winner_count INTEGER NOT NULL,
+  mode TEXT NOT NULL DEFAULT 'push',
+  merkle_root TEXT,
+  rollover_in_units TEXT NOT NULL DEFAULT '0',
+  rollover_out_units TEXT NOT NULL DEFAULT '0',
+  onchain_status TEXT,
+  tx_hash TEXT,
+  error TEXT,
+  created_at BIGINT NOT NULL,
+  updated_at BIGINT NOT NULL,
+  completed_at BIGINT
+);
+
+CREATE TABLE IF NOT EXISTS payout_items (
+  cycle_id INTEGER NOT NULL,
+  wallet TEXT NOT NULL,
+  total_score BIGINT NOT NULL,
+  high_score INTEGER NOT NULL,
+  reward_total DOUBLE PRECISION NOT NULL,
+  reward_high DOUBLE PRECISION NOT NULL,
+  reward DOUBLE PRECISION NOT NULL,
+  reward_units TEXT NOT NULL,
+  carried_units TEXT NOT NULL DEFAULT '0',
+  batch_index INTEGER,
+  PRIMARY KEY (cycle_id, wallet)
+);
+
+CREATE TABLE IF NOT EXISTS payout_batches (
+  id SERIAL PRIMARY KEY,
+  cycle_id INTEGER NOT NULL,
+  batch_index INTEGER NOT NULL,
+  status TEXT NOT NULL,
+  wallet_count INTEGER NOT NULL,
+  amount_units TEXT NOT NULL,
+  tx_hash TEXT,
+  signed_tx TEXT,
+  attempts INTEGER NOT NULL DEFAULT 0,
+  next_attempt_at BIGINT NOT NULL,
+  error TEXT,
+  created_at BIGINT NOT NULL,
+  updated_at BIGINT NOT NULL,
+  UNIQUE (cycle_id, batch_index)
+);
+
+CREATE TABLE IF NOT EXISTS wallet_balances (
+  wallet TEXT PRIMARY KEY,
+  pending_units TEXT NOT NULL,
+  updated_at BIGINT NOT NULL
+);
+
+CREATE TABLE IF NOT EXISTS chain_events (
+  id SERIAL PRIMARY KEY,
+  event TEXT NOT NULL,
+  account TEXT NOT NULL,
+  amount_units TEXT NOT NULL,
+  tx_hash TEXT NOT NULL,
+  log_index INTEGER NOT NULL,
+  block_number BIGINT NOT NULL,
+  UNIQUE (tx_hash, log_index)
+);
+
+CREATE TABLE IF NOT EXISTS games (
+  id SERIAL PRIMARY KEY,
+  session_id TEXT NOT NULL UNIQUE,
+  wallet TEXT NOT NULL,
+  score INTEGER NOT NULL,
+  duration_ms BIGINT NOT NULL,
+  food_eaten INTEGER NOT NULL,
+  max_length INTEGER NOT NULL,
+  moves INTEGER NOT NULL,
+  collision_type TEXT,
+  flagged BOOLEAN NOT NULL DEFAULT FALSE,
+  payment_ref TEXT,
+  played_at BIGINT NOT NULL,
+  submitted_at BIGINT NOT NULL
+);
+CREATE INDEX IF NOT EXISTS idx_games_wallet ON games(wallet, submitted_at);
+
+CREATE TABLE IF NOT EXISTS daily_leaderboard_archive (
+  id SERIAL PRIMARY KEY,
+  date TEXT NOT NULL,
+  cycle_id INTEGER,
+  wallet TEXT NOT NULL,
+  total_score BIGINT NOT NULL,
+  high_score INTEGER NOT NULL,
+  games_played INTEGER NOT NULL,
+  last_played BIGINT NOT NULL,
+  archived_at BIGINT NOT NULL
+);
+CREATE INDEX IF NOT EXISTS idx_daily_archive_date ON daily_leaderboard_archive(date);
+
+CREATE TABLE IF NOT EXISTS period_player_stats (
+  period_key TEXT NOT NULL,
+  wallet TEXT NOT NULL,
+  total_score BIGINT NOT NULL DEFAULT 0,
+  high_score INTEGER NOT NULL DEFAULT 0,
+  games_played INTEGER NOT NULL DEFAULT 0,
+  last_played BIGINT NOT NULL DEFAULT 0,
+  PRIMARY KEY (period_key, wallet)
+);
+
+CREATE TABLE IF NOT EXISTS seasons (
+  id SERIAL PRIMARY KEY,
+  name TEXT NOT NULL UNIQUE,
+  starts_at BIGINT NOT NULL,
+  ends_at BIGINT NOT NULL,
+  prize_pool DOUBLE PRECISION NOT NULL DEFAULT 0,
+  created_at BIGINT NOT NULL
+);
+
+CREATE TABLE IF NOT EXISTS chain_cursors (
+  name TEXT PRIMARY KEY,
+  block_number BIGINT NOT NULL,
+  updated_at BIGINT NOT NULL
+);
+
+CREATE TABLE IF NOT EXISTS scheduler_locks (
+  name TEXT PRIMARY KEY,
+  owner TEXT NOT NULL,
+  expires_at BIGINT NOT NULL
+);
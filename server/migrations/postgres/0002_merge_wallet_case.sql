@@ -0,0 +1,56 @@
+-- Wallets used to be stored as sent, so one address could own several rows that
+-- differ only in letter case. Merge them under the lowercase address every write
+-- now uses. A cycle that paid both spellings keeps one payout item with their
+-- rewards summed, so claim totals per wallet are unchanged.
+
+INSERT INTO player_stats (wallet, total_score, high_score, games_played, last_played)
+SELECT lower(wallet), SUM(total_score), MAX(high_score), SUM(games_played), MAX(last_played)
+FROM player_stats WHERE wallet <> lower(wallet) GROUP BY lower(wallet)
+ON CONFLICT (wallet) DO UPDATE SET
+  total_score = player_stats.total_score + excluded.total_score,
+  high_score = GREATEST(player_stats.high_score, excluded.high_score),
+  games_played = player_stats.games_played + excluded.games_played,
+  last_played = GREATEST(player_stats.last_played, excluded.last_played);
+DELETE FROM player_stats WHERE wallet <> lower(wallet);
+
+INSERT INTO daily_player_stats (wallet, total_score_daily, high_score_daily, games_played_daily, last_played_daily)
+SELECT lower(wallet), SUM(total_score_daily), MAX(high_score_daily), SUM(games_played_daily), MAX(last_played_daily)
+FROM daily_player_stats WHERE wallet <> lower(wallet) GROUP BY lower(wallet)
+ON CONFLICT (wallet) DO UPDATE SET
+  total_score_daily = daily_player_stats.total_score_daily + excluded.total_score_daily,
+  high_score_daily = GREATEST(daily_player_stats.high_score_daily, excluded.high_score_daily),
+  games_played_daily = daily_player_stats.games_played_daily + excluded.games_played_daily,
+  last_played_daily = GREATEST(daily_player_stats.last_played_daily, excluded.last_played_daily);
+DELETE FROM daily_player_stats WHERE wallet <> lower(wallet);
+
+INSERT INTO period_player_stats (period_key, wallet, total_score, high_score, games_played, last_played)
+SELECT period_key, lower(wallet), SUM(total_score), MAX(high_score), SUM(games_played), MAX(last_played)
+FROM period_player_stats WHERE wallet <> lower(wallet) GROUP BY period_key, lower(wallet)
+ON CONFLICT (period_key, wallet) DO UPDATE SET
+  total_score = period_player_stats.total_score + excluded.total_score,
+  high_score = GREATEST(period_player_stats.high_score, excluded.high_score),
+  games_played = period_player_stats.games_played + excluded.games_played,
+  last_played = GREATEST(period_player_stats.last_played, excluded.last_played);
+DELETE FROM period_player_stats WHERE wallet <> lower(wallet);
+
+INSERT INTO payout_items
+(cycle_id, wallet, total_score, high_score, reward_total, reward_high, reward, reward_units, carried_units, batch_index)
+SELECT cycle_id, lower(wallet), SUM(total_score), MAX(high_score), SUM(reward_total), SUM(reward_high), SUM(reward),
+  SUM(reward_units::numeric)::text, SUM(carried_units::numeric)::text, MIN(batch_index)
+FROM payout_items WHERE wallet <> lower(wallet) GROUP BY cycle_id, lower(wallet)
+ON CONFLICT (cycle_id, wallet) DO UPDATE SET
+  total_score = payout_items.total_score + excluded.total_score,
+  high_score = GREATEST(payout_items.high_score, excluded.high_score),
+  reward_total = payout_items.reward_total + excluded.reward_total,
+  reward_high = payout_items.reward_high + excluded.reward_high,
+  reward = payout_items.reward + excluded.reward,
+  reward_units = (payout_items.reward_units::numeric + excluded.reward_units::numeric)::text,
+  carried_units = (payout_items.carried_units::numeric + excluded.carried_units::numeric)::text,
+  batch_index = COALESCE(payout_items.batch_index, excluded.batch_index);
+DELETE FROM payout_items WHERE wallet <> lower(wallet);
+
+UPDATE daily_leaderboard_archive SET wallet = lower(wallet) WHERE wallet <> lower(wallet);
+UPDATE game_sessions SET wallet = lower(wallet) WHERE wallet <> lower(wallet);
+UPDATE session_compensations SET wallet = lower(wallet) WHERE wallet <> lower(wallet);
+UPDATE entry_fees SET wallet = lower(wallet) WHERE wallet <> lower(wallet);
+UPDATE games SET wallet = lower(wallet) WHERE wallet <> lower(wallet);
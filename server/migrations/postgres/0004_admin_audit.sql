@@ -0,0 +1,13 @@
+-- Append-only record of privileged admin requests. params and result hold
+-- JSON text; actor is the name of the admin token that made the request.
+CREATE TABLE admin_audit (
+  id SERIAL PRIMARY KEY,
+  action TEXT NOT NULL,
+  actor TEXT NOT NULL,
+  params TEXT NOT NULL,
+  status INTEGER NOT NULL,
+  result TEXT,
+  created_at BIGINT NOT NULL
+);
+CREATE INDEX idx_admin_audit_created_at ON admin_audit(created_at);
+CREATE INDEX idx_admin_audit_action ON admin_audit(action);
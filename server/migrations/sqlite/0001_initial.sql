@@ -0,0 +1,197 @@
+-- Baseline: the schema as it stood before versioned migrations. Every statement
+-- is IF NOT EXISTS so databases created by the old startup code adopt it as-is.
+
+CREATE TABLE IF NOT EXISTS player_stats (
+  wallet TEXT PRIMARY KEY,
+  total_score INTEGER DEFAULT 0,
+  high_score INTEGER DEFAULT 0,
+  games_played INTEGER DEFAULT 0,
+  last_played INTEGER DEFAULT 0
+);
+
+CREATE TABLE IF NOT EXISTS entry_fees (
+  id INTEGER PRIMARY KEY AUTOINCREMENT,
+  amount REAL NOT NULL,
+  timestamp INTEGER NOT NULL,
+  wallet TEXT,
+  session_id TEXT,
+  tx_hash TEXT,
+  payment_ref TEXT,
+  network TEXT,
+  payment_path TEXT
+);
+CREATE UNIQUE INDEX IF NOT EXISTS idx_entry_fees_session_id ON entry_fees(session_id);
+CREATE UNIQUE INDEX IF NOT EXISTS idx_entry_fees_tx_hash ON entry_fees(tx_hash);
+CREATE UNIQUE INDEX IF NOT EXISTS idx_entry_fees_payment_ref ON entry_fees(payment_ref);
+
+CREATE TABLE IF NOT EXISTS daily_player_stats (
+  wallet TEXT PRIMARY KEY,
+  total_score_daily INTEGER DEFAULT 0,
+  high_score_daily INTEGER DEFAULT 0,
+  games_played_daily INTEGER DEFAULT 0,
+  last_played_daily INTEGER DEFAULT 0
+);
+
+CREATE TABLE IF NOT EXISTS game_sessions (
+  id TEXT PRIMARY KEY,
+  status TEXT NOT NULL,
+  seed TEXT NOT NULL,
+  wallet TEXT,
+  payment_ref TEXT,
+  fee_recorded INTEGER DEFAULT 0,
+  created_at INTEGER NOT NULL,
+  paid_at INTEGER,
+  started_at INTEGER,
+  ended_at INTEGER,
+  updated_at INTEGER NOT NULL
+);
+-- A payment (tx hash / x402 nonce) can fund at most one session
+CREATE UNIQUE INDEX IF NOT EXISTS idx_game_sessions_payment_ref ON game_sessions(payment_ref);
+
+CREATE TABLE IF NOT EXISTS session_compensations (
+  session_id TEXT PRIMARY KEY,
+  wallet TEXT NOT NULL,
+  type TEXT NOT NULL,
+  status TEXT NOT NULL,
+  amount REAL NOT NULL,
+  redeemed_session_id TEXT,
+  tx_hash TEXT,
+  created_at INTEGER NOT NULL,
+  updated_at INTEGER NOT NULL
+);
+
+CREATE TABLE IF NOT EXISTS payout_cycles (
+  id INTEGER PRIMARY KEY AUTOINCREMENT,
+  window_start INTEGER NOT NULL UNIQUE,
+  window_end INTEGER NOT NULL,
+  status TEXT NOT NULL,
+  total_pool REAL NOT NULL,
+  pool_total REAL NOT NULL,
+  pool_high REAL NOT NULL,
+  pool_treasury REAL NOT NULL,
+  winner_count INTEGER NOT NULL,
+  mode TEXT NOT NULL DEFAULT 'push',
+  merkle_root TEXT,
+  rollover_in_units TEXT NOT NULL DEFAULT '0',
+  rollover_out_units TEXT NOT NULL DEFAULT '0',
+  onchain_status TEXT,
+  tx_hash TEXT,
+  error TEXT,
+  created_at INTEGER NOT NULL,
+  updated_at INTEGER NOT NULL,
+  completed_at INTEGER
+);
+
+CREATE TABLE IF NOT EXISTS payout_items (
+  cycle_id INTEGER NOT NULL,
+  wallet TEXT NOT NULL,
+  total_score INTEGER NOT NULL,
+  high_score INTEGER NOT NULL,
+  reward_total REAL NOT NULL,
+  reward_high REAL NOT NULL,
+  reward REAL NOT NULL,
+  reward_units TEXT NOT NULL,
+  carried_units TEXT NOT NULL DEFAULT '0',
+  batch_index INTEGER,
+  PRIMARY KEY (cycle_id, wallet)
+);
+
+CREATE TABLE IF NOT EXISTS payout_batches (
+  id INTEGER PRIMARY KEY AUTOINCREMENT,
+  cycle_id INTEGER NOT NULL,
+  batch_index INTEGER NOT NULL,
+  status TEXT NOT NULL,
+  wallet_count INTEGER NOT NULL,
+  amount_units TEXT NOT NULL,
+  tx_hash TEXT,
+  signed_tx TEXT,
+  attempts INTEGER NOT NULL DEFAULT 0,
+  next_attempt_at INTEGER NOT NULL,
+  error TEXT,
+  created_at INTEGER NOT NULL,
+  updated_at INTEGER NOT NULL,
+  UNIQUE (cycle_id, batch_index)
+);
+
+-- Keyed by lowercase wallet
+CREATE TABLE IF NOT EXISTS wallet_balances (
+  wallet TEXT PRIMARY KEY,
+  pending_units TEXT NOT NULL,
+  updated_at INTEGER NOT NULL
+);
+
+CREATE TABLE IF NOT EXISTS chain_events (
+  id INTEGER PRIMARY KEY AUTOINCREMENT,
+  event TEXT NOT NULL,
+  account TEXT NOT NULL,
+  amount_units TEXT NOT NULL,
+  tx_hash TEXT NOT NULL,
+  log_index INTEGER NOT NULL,
+  block_number INTEGER NOT NULL,
+  UNIQUE (tx_hash, log_index)
+);
+
+CREATE TABLE IF NOT EXISTS games (
+  id INTEGER PRIMARY KEY AUTOINCREMENT,
+  session_id TEXT NOT NULL UNIQUE,
+  wallet TEXT NOT NULL,
+  score INTEGER NOT NULL,
+  duration_ms INTEGER NOT NULL,
+  food_eaten INTEGER NOT NULL,
+  max_length INTEGER NOT NULL,
+  moves INTEGER NOT NULL,
+  collision_type TEXT,
+  flagged INTEGER NOT NULL DEFAULT 0,
+  payment_ref TEXT,
+  played_at INTEGER NOT NULL,
+  submitted_at INTEGER NOT NULL
+);
+CREATE INDEX IF NOT EXISTS idx_games_wallet ON games(wallet, submitted_at);
+
+-- Final daily standings, snapshotted before each reset. `date` is the UTC day
+-- the cycle closed on; cycle_id is null for a manual reset.
+CREATE TABLE IF NOT EXISTS daily_leaderboard_archive (
+  id INTEGER PRIMARY KEY AUTOINCREMENT,
+  date TEXT NOT NULL,
+  cycle_id INTEGER,
+  wallet TEXT NOT NULL,
+  total_score INTEGER NOT NULL,
+  high_score INTEGER NOT NULL,
+  games_played INTEGER NOT NULL,
+  last_played INTEGER NOT NULL,
+  archived_at INTEGER NOT NULL
+);
+CREATE INDEX IF NOT EXISTS idx_daily_archive_date ON daily_leaderboard_archive(date);
+
+-- Scores per leaderboard period instance (see periods.ts for the keys)
+CREATE TABLE IF NOT EXISTS period_player_stats (
+  period_key TEXT NOT NULL,
+  wallet TEXT NOT NULL,
+  total_score INTEGER NOT NULL DEFAULT 0,
+  high_score INTEGER NOT NULL DEFAULT 0,
+  games_played INTEGER NOT NULL DEFAULT 0,
+  last_played INTEGER NOT NULL DEFAULT 0,
+  PRIMARY KEY (period_key, wallet)
+);
+
+CREATE TABLE IF NOT EXISTS seasons (
+  id INTEGER PRIMARY KEY AUTOINCREMENT,
+  name TEXT NOT NULL UNIQUE,
+  starts_at INTEGER NOT NULL,
+  ends_at INTEGER NOT NULL,
+  prize_pool REAL NOT NULL DEFAULT 0,
+  created_at INTEGER NOT NULL
+);
+
+-- Last block each indexer has fully processed
+CREATE TABLE IF NOT EXISTS chain_cursors (
+  name TEXT PRIMARY KEY,
+  block_number INTEGER NOT NULL,
+  updated_at INTEGER NOT NULL
+);
+
+CREATE TABLE IF NOT EXISTS scheduler_locks (
+  name TEXT PRIMARY KEY,
+  owner TEXT NOT NULL,
+  expires_at INTEGER NOT NULL
+);
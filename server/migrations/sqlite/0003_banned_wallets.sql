@@ -0,0 +1,13 @@
+-- Bans are kept as history: lifting one stamps lifted_at/lifted_by, and a ban
+-- past expires_at (null = permanent) simply stops applying.
+CREATE TABLE banned_wallets (
+  id INTEGER PRIMARY KEY AUTOINCREMENT,
+  wallet TEXT NOT NULL,
+  reason TEXT NOT NULL,
+  banned_by TEXT NOT NULL,
+  created_at INTEGER NOT NULL,
+  expires_at INTEGER,
+  lifted_at INTEGER,
+  lifted_by TEXT
+);
+CREATE INDEX idx_banned_wallets_wallet ON banned_wallets(wallet);
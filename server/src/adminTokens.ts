@@ -0,0 +1,66 @@
+import { createHash, timingSafeEqual } from 'crypto';
+
+// Named admin tokens with scoped permissions. "payout" covers payout runs,
+// batches, reconciliation, seasons and fee/refund reports; "moderation" covers
+// bans and player removal. Every token may read the audit log.
+
+export type AdminScope = 'payout' | 'moderation';
+
+export const ADMIN_SCOPES: AdminScope[] = ['payout', 'moderation'];
+
+export interface AdminToken {
+  name: string; // recorded as the actor in the audit log
+  token: string;
+  scopes: AdminScope[];
+}
+
+// Load tokens from ADMIN_TOKENS, a JSON array such as
+//   [{"name":"alice","token":"...","scopes":["payout","moderation"]}]
+// A legacy ADMIN_TOKEN is kept as a token named "admin" with every scope.
+export function loadAdminTokens(env: NodeJS.ProcessEnv = process.env): AdminToken[] {
+  const tokens: AdminToken[] = [];
+  if (env.ADMIN_TOKENS) {
+    const parsed = JSON.parse(env.ADMIN_TOKENS);
+    if (!Array.isArray(parsed)) {
+      throw new Error('ADMIN_TOKENS must be a JSON array');
+    }
+    parsed.forEach((entry: any, i: number) => {
+      if (typeof entry?.name !== 'string' || !entry.name.trim()) {
+        throw new Error(`ADMIN_TOKENS[${i}].name is required`);
+      }
+      if (typeof entry.token !== 'string' || entry.token.length < 16) {
+        throw new Error(`ADMIN_TOKENS[${i}].token must be at least 16 characters`);
+      }
+      if (!Array.isArray(entry.scopes) || !entry.scopes.length || !entry.scopes.every((scope: unknown) => ADMIN_SCOPES.includes(scope as AdminScope))) {
+        throw new Error(`ADMIN_TOKENS[${i}].scopes must list one or more of ${ADMIN_SCOPES.join(', ')}`);
+      }
+      tokens.push({ name: entry.name.trim(), token: entry.token, scopes: [...new Set(entry.scopes as AdminScope[])] });
+    });
+  }
+  if (env.ADMIN_TOKEN) {
+    tokens.push({ name: 'admin', token: env.ADMIN_TOKEN, scopes: [...ADMIN_SCOPES] });
+  }
+
+  const names = new Set<string>();
+  const secrets = new Set<string>();
+  for (const { name, token } of tokens) {
+    if (names.has(name)) throw new Error(`Duplicate admin token name "${name}"`);
+    if (secrets.has(token)) throw new Error(`Admin token "${name}" reuses another token's secret`);
+    names.add(name);
+    secrets.add(token);
+  }
+  return tokens;
+}
+
+// Constant-time lookup of the token a request presented
+export function findAdminToken(tokens: AdminToken[], presented: string): AdminToken | null {
+  if (!presented) return null;
+  const digest = createHash('sha256').update(presented).digest();
+  let match: AdminToken | null = null;
+  for (const candidate of tokens) {
+    if (timingSafeEqual(digest, createHash('sha256').update(candidate.token).digest())) {
+      match = candidate;
+    }
+  }
+  return match;
+}
@@ -1,109 +1,416 @@
 import sqlite3 from 'sqlite3';
+import { AsyncLocalStorage } from 'async_hooks';
 import { join } from 'path';
-
-// Define types locally to avoid import issues
-interface PlayerStats {
-  wallet: string;
-  totalScore: number;
-  highScore: number;
-  gamesPlayed: number;
-  lastPlayed: number;
-}
-
-interface LeaderboardEntry {
-  rank: number;
-  wallet: string;
-  username?: string;
-  score: number;
-  gamesPlayed: number;
-  lastPlayed: number;
-}
-
-interface EntryFeeRecord {
-  id?: number;
-  amount: number;
-  timestamp: number;
-  wallet?: string;
-}
-
-interface DailyPlayerStats {
-  wallet: string;
-  totalScoreDaily: number;
-  highScoreDaily: number;
-  gamesPlayedDaily: number;
-  lastPlayedDaily: number;
-}
+import { isoDate, monthWindow, seasonKey, weekWindow } from './periods.js';
+import {
+  SESSION_TRANSITIONS,
+  type AdminAuditEntry,
+  type AdminAuditQuery,
+  type AppliedMigration,
+  type ChainEvent,
+  type ChainEventName,
+  type CompensationStatus,
+  type CompensationType,
+  type DailyPlayerStats,
+  type DailyStandings,
+  type EntryFeeQuery,
+  type EntryFeeRecord,
+  type GameRecord,
+  type GameSession,
+  type GameSessionStatus,
+  type LeaderboardEntry,
+  type Migration,
+  type NewGameRecord,
+  type NewPayoutCycle,
+  type PayoutBatch,
+  type PayoutBatchStatus,
+  type PayoutCycle,
+  type PayoutItem,
+  type PlayerStats,
+  type Repository,
+  type Season,
+  type SessionCompensation,
+  type WalletBalance,
+  type WalletBan,
+  type WalletPayout,
+} from './repository.js';
 
 // Enable verbose mode for debugging
 const sqlite = sqlite3.verbose();
 
-class Database {
-  private db: sqlite3.Database;
+// Leaderboard filter for wallets with an active ban; binds the current time
+const NOT_BANNED = `wallet NOT IN (
+  SELECT wallet FROM banned_wallets WHERE lifted_at IS NULL AND (expires_at IS NULL OR expires_at > ?)
+)`;
+
+// Statement methods used on the connection
+type Statements = Pick<sqlite3.Database, 'run' | 'get' | 'all' | 'exec'>;
+
+// SQLite implementation of the repository: a single file, one server instance
+class Database implements Repository {
+  private connection: sqlite3.Database;
+  private db: Statements; // every statement goes through the queue below
+  private queue: Promise<void> = Promise.resolve();
+  private inTransaction = new AsyncLocalStorage<true>();
+  private ready: Promise<void>;
 
   constructor(dbPath?: string) {
     const path = dbPath || join(process.cwd(), 'snake402.db');
-    this.db = new sqlite.Database(path, (err) => {
+    let opened!: (err: Error | null) => void;
+    this.ready = new Promise((resolve, reject) => {
+      opened = (err) => (err ? reject(err) : resolve());
+    });
+    this.db = this.gate();
+    this.connection = new sqlite.Database(path, (err) => {
       if (err) {
         console.error('❌ Error opening database:', err.message);
+        opened(err);
       } else {
         console.log('✅ Connected to SQLite database:', path);
-        this.initializeTables();
+        opened(null);
       }
     });
   }
 
-  private initializeTables(): void {
-    const createPlayerStatsTable = `
-      CREATE TABLE IF NOT EXISTS player_stats (
-        wallet TEXT PRIMARY KEY,
-        total_score INTEGER DEFAULT 0,
-        high_score INTEGER DEFAULT 0,
-        games_played INTEGER DEFAULT 0,
-        last_played INTEGER DEFAULT 0
+  async init(): Promise<void> {
+    await this.ready;
+    if (!(await this.tableExists('schema_version')) && (await this.tableExists('entry_fees'))) {
+      await this.upgradeLegacyTables();
+    }
+    await this.run(`
+      CREATE TABLE IF NOT EXISTS schema_version (
+        version INTEGER PRIMARY KEY,
+        name TEXT NOT NULL,
+        applied_at INTEGER NOT NULL
       )
-    `;
+    `);
+  }
 
-    this.db.run(createPlayerStatsTable, (err) => {
-      if (err) {
-        console.error('❌ Error creating player_stats table:', err.message);
-      } else {
-        console.log('✅ Player stats table ready');
-      }
+  // Databases created before versioned migrations got later columns added in
+  // place at startup. Finish that upgrade so the baseline migration (whose
+  // indexes use those columns) applies cleanly on top.
+  private async upgradeLegacyTables(): Promise<void> {
+    console.log('🔧 Upgrading pre-migration database tables');
+    await this.addMissingColumns('entry_fees', {
+      session_id: 'TEXT',
+      tx_hash: 'TEXT',
+      payment_ref: 'TEXT',
+      network: 'TEXT',
+      payment_path: 'TEXT'
     });
+    if (await this.tableExists('payout_cycles')) {
+      await this.addMissingColumns('payout_cycles', {
+        mode: "TEXT NOT NULL DEFAULT 'push'",
+        merkle_root: 'TEXT',
+        rollover_in_units: "TEXT NOT NULL DEFAULT '0'",
+        rollover_out_units: "TEXT NOT NULL DEFAULT '0'",
+      });
+    }
+    if (await this.tableExists('payout_items')) {
+      await this.addMissingColumns('payout_items', {
+        carried_units: "TEXT NOT NULL DEFAULT '0'",
+        batch_index: 'INTEGER',
+      });
+    }
+  }
 
-    const createEntryFeesTable = `
-      CREATE TABLE IF NOT EXISTS entry_fees (
-        id INTEGER PRIMARY KEY AUTOINCREMENT,
-        amount REAL NOT NULL,
-        timestamp INTEGER NOT NULL,
-        wallet TEXT
-      )
-    `;
+  private tableExists(table: string): Promise<boolean> {
+    return new Promise((resolve, reject) => {
+      this.db.get(`SELECT name FROM sqlite_master WHERE type = 'table' AND name = ?`, [table], (err, row) => {
+        if (err) reject(err); else resolve(!!row);
+      });
+    });
+  }
 
-    this.db.run(createEntryFeesTable, (err) => {
-      if (err) {
-        console.error('❌ Error creating entry_fees table:', err.message);
-      } else {
-        console.log('✅ Entry fees table ready');
-      }
+  async getAppliedMigrations(): Promise<AppliedMigration[]> {
+    return new Promise((resolve, reject) => {
+      this.db.all('SELECT * FROM schema_version ORDER BY version ASC', [], (err, rows: any[]) => {
+        if (err) return reject(err);
+        resolve(rows.map(row => ({ version: row.version, name: row.name, appliedAt: row.applied_at })));
+      });
     });
+  }
 
-    const createDailyStatsTable = `
-      CREATE TABLE IF NOT EXISTS daily_player_stats (
-        wallet TEXT PRIMARY KEY,
-        total_score_daily INTEGER DEFAULT 0,
-        high_score_daily INTEGER DEFAULT 0,
-        games_played_daily INTEGER DEFAULT 0,
-        last_played_daily INTEGER DEFAULT 0
-      )
+  // BEGIN IMMEDIATE also serializes against other processes using the same file
+  async applyMigration(migration: Migration): Promise<boolean> {
+    let applied = false;
+    await this.transaction(async () => {
+      const done = await new Promise<boolean>((resolve, reject) => {
+        this.db.get('SELECT version FROM schema_version WHERE version = ?', [migration.version], (err, row) => {
+          if (err) reject(err); else resolve(!!row);
+        });
+      });
+      if (done) return;
+      await new Promise<void>((resolve, reject) => {
+        this.db.exec(migration.sql, (err) => {
+          if (err) reject(err); else resolve();
+        });
+      });
+      await this.run(
+        'INSERT INTO schema_version (version, name, applied_at) VALUES (?, ?, ?)',
+        [migration.version, migration.name, Date.now()]
+      );
+      applied = true;
+    });
+    return applied;
+  }
+
+  private run(query: string, params: any[] = []): Promise<void> {
+    return new Promise((resolve, reject) => {
+      this.db.run(query, params, (err) => {
+        if (err) reject(err); else resolve();
+      });
+    });
+  }
+
+  private addMissingColumns(table: string, columns: Record<string, string>): Promise<void> {
+    return new Promise((resolve, reject) => {
+      this.db.all(`PRAGMA table_info(${table})`, [], async (err, rows: any[]) => {
+        if (err) return reject(err);
+        const existing = new Set(rows.map(row => row.name));
+        try {
+          for (const [name, type] of Object.entries(columns)) {
+            if (!existing.has(name)) {
+              await this.run(`ALTER TABLE ${table} ADD COLUMN ${name} ${type}`);
+            }
+          }
+          resolve();
+        } catch (alterErr) {
+          reject(alterErr);
+        }
+      });
+    });
+  }
+
+  private mapGameSession(row: any): GameSession {
+    return {
+      id: row.id,
+      status: row.status,
+      seed: row.seed,
+      wallet: row.wallet ?? undefined,
+      paymentRef: row.payment_ref ?? undefined,
+      feeRecorded: !!row.fee_recorded,
+      createdAt: row.created_at,
+      paidAt: row.paid_at ?? undefined,
+      startedAt: row.started_at ?? undefined,
+      endedAt: row.ended_at ?? undefined,
+      updatedAt: row.updated_at,
+    };
+  }
+
+  // Game session helpers
+  async createGameSession(session: GameSession): Promise<void> {
+    return new Promise((resolve, reject) => {
+      const query = `
+        INSERT INTO game_sessions
+        (id, status, seed, wallet, payment_ref, fee_recorded, created_at, paid_at, started_at, ended_at, updated_at)
+        VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)
+      `;
+      this.db.run(query, [
+        session.id,
+        session.status,
+        session.seed,
+        session.wallet || null,
+        session.paymentRef || null,
+        session.feeRecorded ? 1 : 0,
+        session.createdAt,
+        session.paidAt ?? null,
+        session.startedAt ?? null,
+        session.endedAt ?? null,
+        session.updatedAt,
+      ], (err) => {
+        if (err) reject(err); else resolve();
+      });
+    });
+  }
+
+  async getGameSession(id: string): Promise<GameSession | null> {
+    return new Promise((resolve, reject) => {
+      this.db.get('SELECT * FROM game_sessions WHERE id = ?', [id], (err, row: any) => {
+        if (err) reject(err); else resolve(row ? this.mapGameSession(row) : null);
+      });
+    });
+  }
+
+  async isTxHashRedeemed(txHash: string, sessionId: string): Promise<boolean> {
+    return new Promise((resolve, reject) => {
+      const hash = txHash.toLowerCase();
+      const query = `
+        SELECT 1 FROM game_sessions WHERE payment_ref = ? AND id != ?
+        UNION ALL
+        SELECT 1 FROM entry_fees WHERE tx_hash = ? AND (session_id IS NULL OR session_id != ?)
+        LIMIT 1
+      `;
+      this.db.get(query, [hash, sessionId, hash, sessionId], (err, row) => {
+        if (err) reject(err); else resolve(!!row);
+      });
+    });
+  }
+
+  async getGameSessionsByStatus(statuses: GameSessionStatus[]): Promise<GameSession[]> {
+    return new Promise((resolve, reject) => {
+      const placeholders = statuses.map(() => '?').join(', ');
+      const query = `SELECT * FROM game_sessions WHERE status IN (${placeholders}) ORDER BY created_at ASC`;
+      this.db.all(query, statuses, (err, rows: any[]) => {
+        if (err) reject(err); else resolve(rows.map(row => this.mapGameSession(row)));
+      });
+    });
+  }
+
+  // Move a session to a new status if its current status allows it.
+  // Returns the updated session, or null if the transition was not applied.
+  async transitionGameSession(
+    id: string,
+    to: GameSessionStatus,
+    fields: Partial<Pick<GameSession, 'wallet' | 'paymentRef' | 'paidAt' | 'startedAt' | 'endedAt'>> = {}
+  ): Promise<GameSession | null> {
+    const from = (Object.keys(SESSION_TRANSITIONS) as GameSessionStatus[])
+      .filter(status => SESSION_TRANSITIONS[status].includes(to));
+    const placeholders = from.map(() => '?').join(', ');
+    const query = `
+      UPDATE game_sessions SET
+        status = ?,
+        wallet = COALESCE(?, wallet),
+        payment_ref = COALESCE(?, payment_ref),
+        paid_at = COALESCE(?, paid_at),
+        started_at = COALESCE(?, started_at),
+        ended_at = COALESCE(?, ended_at),
+        updated_at = ?
+      WHERE id = ? AND status IN (${placeholders})
     `;
+    const changes = await new Promise<number>((resolve, reject) => {
+      this.db.run(query, [
+        to,
+        fields.wallet ?? null,
+        fields.paymentRef ?? null,
+        fields.paidAt ?? null,
+        fields.startedAt ?? null,
+        fields.endedAt ?? null,
+        Date.now(),
+        id,
+        ...from,
+      ], function(err) {
+        if (err) reject(err); else resolve(this.changes);
+      });
+    });
+    return changes > 0 ? this.getGameSession(id) : null;
+  }
 
-    this.db.run(createDailyStatsTable, (err) => {
-      if (err) {
-        console.error('❌ Error creating daily_player_stats table:', err.message);
-      } else {
-        console.log('✅ Daily player stats table ready');
-      }
+  // Abandoned sessions whose policy outcome was never written (e.g. crash mid-sweep)
+  async getUncompensatedAbandonedSessions(): Promise<GameSession[]> {
+    return new Promise((resolve, reject) => {
+      const query = `
+        SELECT s.* FROM game_sessions s
+        LEFT JOIN session_compensations c ON c.session_id = s.id
+        WHERE s.status = 'abandoned' AND s.wallet IS NOT NULL AND c.session_id IS NULL
+      `;
+      this.db.all(query, [], (err, rows: any[]) => {
+        if (err) reject(err); else resolve(rows.map(row => this.mapGameSession(row)));
+      });
+    });
+  }
+
+  private mapCompensation(row: any): SessionCompensation {
+    return {
+      sessionId: row.session_id,
+      wallet: row.wallet,
+      type: row.type,
+      status: row.status,
+      amount: row.amount,
+      redeemedSessionId: row.redeemed_session_id ?? undefined,
+      txHash: row.tx_hash ?? undefined,
+      createdAt: row.created_at,
+      updatedAt: row.updated_at,
+    };
+  }
+
+  // Session compensation helpers (idempotent per session)
+  async insertSessionCompensation(
+    compensation: Pick<SessionCompensation, 'sessionId' | 'wallet' | 'type' | 'status' | 'amount'>
+  ): Promise<void> {
+    return new Promise((resolve, reject) => {
+      const now = Date.now();
+      const query = `
+        INSERT OR IGNORE INTO session_compensations
+        (session_id, wallet, type, status, amount, created_at, updated_at)
+        VALUES (?, ?, ?, ?, ?, ?, ?)
+      `;
+      this.db.run(query, [
+        compensation.sessionId,
+        compensation.wallet.toLowerCase(),
+        compensation.type,
+        compensation.status,
+        compensation.amount,
+        now,
+        now,
+      ], (err) => {
+        if (err) reject(err); else resolve();
+      });
+    });
+  }
+
+  async getSessionCompensation(sessionId: string): Promise<SessionCompensation | null> {
+    return new Promise((resolve, reject) => {
+      this.db.get('SELECT * FROM session_compensations WHERE session_id = ?', [sessionId], (err, row: any) => {
+        if (err) reject(err); else resolve(row ? this.mapCompensation(row) : null);
+      });
+    });
+  }
+
+  async getCompensations(type: CompensationType, status?: CompensationStatus): Promise<SessionCompensation[]> {
+    return new Promise((resolve, reject) => {
+      const query = status
+        ? 'SELECT * FROM session_compensations WHERE type = ? AND status = ? ORDER BY created_at ASC'
+        : 'SELECT * FROM session_compensations WHERE type = ? ORDER BY created_at ASC';
+      const params = status ? [type, status] : [type];
+      this.db.all(query, params, (err, rows: any[]) => {
+        if (err) reject(err); else resolve(rows.map(row => this.mapCompensation(row)));
+      });
+    });
+  }
+
+  async countAvailableCredits(wallet: string): Promise<number> {
+    return new Promise((resolve, reject) => {
+      const query = `SELECT COUNT(*) as count FROM session_compensations WHERE wallet = ? AND type = 'credit' AND status = 'available'`;
+      this.db.get(query, [wallet.toLowerCase()], (err, row: any) => {
+        if (err) reject(err); else resolve(row.count);
+      });
+    });
+  }
+
+  // Atomically consume the oldest available credit for a wallet.
+  // Returns the abandoned session id the credit came from, or null if none.
+  async redeemCredit(wallet: string, redeemedSessionId: string): Promise<string | null> {
+    const normalized = wallet.toLowerCase();
+    const changes = await new Promise<number>((resolve, reject) => {
+      const query = `
+        UPDATE session_compensations
+        SET status = 'redeemed', redeemed_session_id = ?, updated_at = ?
+        WHERE session_id = (
+          SELECT session_id FROM session_compensations
+          WHERE wallet = ? AND type = 'credit' AND status = 'available'
+          ORDER BY created_at ASC LIMIT 1
+        ) AND status = 'available'
+      `;
+      this.db.run(query, [redeemedSessionId, Date.now(), normalized], function(err) {
+        if (err) reject(err); else resolve(this.changes);
+      });
+    });
+    if (!changes) return null;
+    return new Promise((resolve, reject) => {
+      const query = 'SELECT session_id FROM session_compensations WHERE redeemed_session_id = ?';
+      this.db.get(query, [redeemedSessionId], (err, row: any) => {
+        if (err) reject(err); else resolve(row ? row.session_id : null);
+      });
+    });
+  }
+
+  async markSessionFeeRecorded(id: string): Promise<void> {
+    return new Promise((resolve, reject) => {
+      const query = 'UPDATE game_sessions SET fee_recorded = 1, updated_at = ? WHERE id = ?';
+      this.db.run(query, [Date.now(), id], (err) => {
+        if (err) reject(err); else resolve();
+      });
     });
   }
 
@@ -128,51 +435,51 @@ class Database {
     });
   }
 
-  async updatePlayerStats(wallet: string, score: number): Promise<PlayerStats> {
-    return new Promise((resolve, reject) => {
-      const timestamp = Date.now();
-      
-      // First, get current stats or create new player
-      this.getPlayerStats(wallet).then(currentStats => {
-        const newTotalScore = (currentStats?.totalScore || 0) + score;
-        const newHighScore = Math.max(currentStats?.highScore || 0, score);
-        const newGamesPlayed = (currentStats?.gamesPlayed || 0) + 1;
-
-        const query = `
-          INSERT OR REPLACE INTO player_stats 
-          (wallet, total_score, high_score, games_played, last_played)
-          VALUES (?, ?, ?, ?, ?)
-        `;
-
-        this.db.run(query, [wallet, newTotalScore, newHighScore, newGamesPlayed, timestamp], function(err) {
-          if (err) {
-            reject(err);
-          } else {
-            resolve({
-              wallet,
-              totalScore: newTotalScore,
-              highScore: newHighScore,
-              gamesPlayed: newGamesPlayed,
-              lastPlayed: timestamp
-            });
-          }
-        });
-      }).catch(reject);
+  // The only write path for a submitted game: the session is closed and the
+  // game row, lifetime, daily and period stats are written in one transaction
+  // with in-SQL increments, so concurrent submissions for the same wallet can't
+  // overwrite each other and a failed write leaves the session open for a retry.
+  // Returns null (and writes nothing) if the session can't be submitted, and
+  // fails if a game was already recorded for it.
+  // Every stats table is keyed by the lowercase wallet.
+  async recordScore(game: NewGameRecord): Promise<{ gameId: number; playerStats: PlayerStats; session: GameSession } | null> {
+    const wallet = game.wallet.toLowerCase();
+    return this.transaction(async () => {
+      const session = await this.transitionGameSession(game.sessionId, 'submitted', { endedAt: game.submittedAt });
+      if (!session) return null;
+      const gameId = await this.insertGame(game);
+      await this.upsertPlayerStats(wallet, game.score, game.submittedAt);
+      await this.upsertDailyPlayerStats(wallet, game.score, game.submittedAt);
+      await this.upsertPeriodPlayerStats(wallet, game.score, game.submittedAt);
+      const playerStats = (await this.getPlayerStats(wallet))!;
+      return { gameId, playerStats, session };
     });
   }
 
+  private upsertPlayerStats(wallet: string, score: number, timestamp: number): Promise<void> {
+    return this.run(`
+      INSERT INTO player_stats (wallet, total_score, high_score, games_played, last_played)
+      VALUES (?, ?, ?, 1, ?)
+      ON CONFLICT(wallet) DO UPDATE SET
+        total_score = total_score + excluded.total_score,
+        high_score = MAX(high_score, excluded.high_score),
+        games_played = games_played + 1,
+        last_played = excluded.last_played
+    `, [wallet, score, score, timestamp]);
+  }
+
   async getLeaderboard(type: 'total' | 'high', limit: number = 10): Promise<LeaderboardEntry[]> {
     return new Promise((resolve, reject) => {
       const scoreColumn = type === 'total' ? 'total_score' : 'high_score';
       const query = `
         SELECT wallet, ${scoreColumn} as score, games_played, last_played
         FROM player_stats 
-        WHERE ${scoreColumn} > 0
+        WHERE ${scoreColumn} > 0 AND ${NOT_BANNED}
         ORDER BY ${scoreColumn} DESC 
         LIMIT ?
       `;
 
-      this.db.all(query, [limit], (err, rows: any[]) => {
+      this.db.all(query, [Date.now(), limit], (err, rows: any[]) => {
         if (err) {
           reject(err);
         } else {
@@ -191,8 +498,8 @@ class Database {
 
   async getTotalPlayers(): Promise<number> {
     return new Promise((resolve, reject) => {
-      const query = 'SELECT COUNT(*) as count FROM player_stats WHERE games_played > 0';
-      this.db.get(query, [], (err, row: any) => {
+      const query = `SELECT COUNT(*) as count FROM player_stats WHERE games_played > 0 AND ${NOT_BANNED}`;
+      this.db.get(query, [Date.now()], (err, row: any) => {
         if (err) {
           reject(err);
         } else {
@@ -203,14 +510,137 @@ class Database {
   }
 
   // Entry fees helpers
-  async recordEntryFee(amount: number, wallet?: string): Promise<void> {
+  // Returns false if the session or payment is already in the ledger
+  async recordEntryFee(fee: Omit<EntryFeeRecord, 'id' | 'timestamp'>): Promise<boolean> {
     return new Promise((resolve, reject) => {
       const timestamp = Date.now();
-      const query = 'INSERT INTO entry_fees (amount, timestamp, wallet) VALUES (?, ?, ?)';
-      this.db.run(query, [amount, timestamp, wallet || null], (err) => {
-        if (err) reject(err); else resolve();
+      const query = `
+        INSERT OR IGNORE INTO entry_fees
+        (amount, timestamp, wallet, session_id, tx_hash, payment_ref, network, payment_path)
+        VALUES (?, ?, ?, ?, ?, ?, ?, ?)
+      `;
+      this.db.run(query, [
+        fee.amount,
+        timestamp,
+        fee.wallet?.toLowerCase() || null,
+        fee.sessionId || null,
+        fee.txHash?.toLowerCase() || null,
+        fee.paymentRef || null,
+        fee.network || null,
+        fee.paymentPath || null,
+      ], function (err) {
+        if (err) reject(err); else resolve(this.changes > 0);
+      });
+    });
+  }
+
+  private insertGame(game: NewGameRecord): Promise<number> {
+    return new Promise((resolve, reject) => {
+      const query = `
+        INSERT INTO games
+        (session_id, wallet, score, duration_ms, food_eaten, max_length, moves, collision_type, flagged, payment_ref, played_at, submitted_at)
+        VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)
+      `;
+      this.db.run(query, [
+        game.sessionId,
+        game.wallet.toLowerCase(),
+        game.score,
+        game.durationMs,
+        game.foodEaten,
+        game.maxLength,
+        game.moves,
+        game.collisionType ?? null,
+        game.flagged ? 1 : 0,
+        game.paymentRef ?? null,
+        game.playedAt,
+        game.submittedAt,
+      ], function (err) {
+        if (err) reject(err); else resolve(this.lastID);
+      });
+    });
+  }
+
+  // A wallet's games, newest first
+  async getPlayerGames(wallet: string, limit: number = 20, offset: number = 0): Promise<{ games: GameRecord[]; total: number }> {
+    const key = wallet.toLowerCase();
+    const total = await new Promise<number>((resolve, reject) => {
+      this.db.get('SELECT COUNT(*) as count FROM games WHERE wallet = ?', [key], (err, row: any) => {
+        if (err) reject(err); else resolve(row.count);
+      });
+    });
+    const games = await new Promise<GameRecord[]>((resolve, reject) => {
+      const query = `
+        SELECT g.*, f.amount as entry_fee, f.tx_hash, f.payment_path
+        FROM games g
+        LEFT JOIN entry_fees f ON f.session_id = g.session_id
+        WHERE g.wallet = ?
+        ORDER BY g.submitted_at DESC, g.id DESC
+        LIMIT ? OFFSET ?
+      `;
+      this.db.all(query, [key, limit, offset], (err, rows: any[]) => {
+        if (err) return reject(err);
+        resolve(rows.map(row => ({
+          id: row.id,
+          sessionId: row.session_id,
+          wallet: row.wallet,
+          score: row.score,
+          durationMs: row.duration_ms,
+          foodEaten: row.food_eaten,
+          maxLength: row.max_length,
+          moves: row.moves,
+          collisionType: row.collision_type ?? undefined,
+          flagged: !!row.flagged,
+          paymentRef: row.payment_ref ?? undefined,
+          playedAt: row.played_at,
+          submittedAt: row.submitted_at,
+          entryFee: row.entry_fee ?? undefined,
+          txHash: row.tx_hash ?? undefined,
+          paymentPath: row.payment_path ?? undefined,
+        })));
       });
     });
+    return { games, total };
+  }
+
+  async getEntryFees(filter: EntryFeeQuery = {}): Promise<{ entries: EntryFeeRecord[]; total: number; totalAmount: number }> {
+    const conditions: string[] = [];
+    const params: any[] = [];
+    if (filter.wallet) { conditions.push('wallet = ?'); params.push(filter.wallet.toLowerCase()); }
+    if (filter.sessionId) { conditions.push('session_id = ?'); params.push(filter.sessionId); }
+    if (filter.txHash) { conditions.push('tx_hash = ?'); params.push(filter.txHash.toLowerCase()); }
+    if (filter.paymentPath) { conditions.push('payment_path = ?'); params.push(filter.paymentPath); }
+    if (filter.since !== undefined) { conditions.push('timestamp >= ?'); params.push(filter.since); }
+    if (filter.until !== undefined) { conditions.push('timestamp < ?'); params.push(filter.until); }
+    const where = conditions.length ? `WHERE ${conditions.join(' AND ')}` : '';
+
+    return new Promise((resolve, reject) => {
+      this.db.get(
+        `SELECT COUNT(*) as count, COALESCE(SUM(amount), 0) as total FROM entry_fees ${where}`,
+        params,
+        (err, summary: any) => {
+          if (err) return reject(err);
+          const query = `SELECT * FROM entry_fees ${where} ORDER BY timestamp DESC, id DESC LIMIT ? OFFSET ?`;
+          this.db.all(query, [...params, filter.limit ?? 50, filter.offset ?? 0], (err2, rows: any[]) => {
+            if (err2) return reject(err2);
+            resolve({
+              entries: rows.map(row => ({
+                id: row.id,
+                amount: row.amount,
+                timestamp: row.timestamp,
+                wallet: row.wallet ?? undefined,
+                sessionId: row.session_id ?? undefined,
+                txHash: row.tx_hash ?? undefined,
+                paymentRef: row.payment_ref ?? undefined,
+                network: row.network ?? undefined,
+                paymentPath: row.payment_path ?? undefined,
+              })),
+              total: summary.count,
+              totalAmount: summary.total || 0
+            });
+          });
+        }
+      );
+    });
   }
 
   async getTotalEntryFeesSince(cutoff: number): Promise<number> {
@@ -244,29 +674,16 @@ class Database {
     });
   }
 
-  async updateDailyPlayerStats(wallet: string, score: number): Promise<DailyPlayerStats> {
-    return new Promise((resolve, reject) => {
-      const timestamp = Date.now();
-      this.getDailyPlayerStats(wallet).then(current => {
-        const newTotal = (current?.totalScoreDaily || 0) + score;
-        const newHigh = Math.max(current?.highScoreDaily || 0, score);
-        const newGames = (current?.gamesPlayedDaily || 0) + 1;
-        const query = `
-          INSERT OR REPLACE INTO daily_player_stats 
-          (wallet, total_score_daily, high_score_daily, games_played_daily, last_played_daily)
-          VALUES (?, ?, ?, ?, ?)
-        `;
-        this.db.run(query, [wallet, newTotal, newHigh, newGames, timestamp], (err) => {
-          if (err) reject(err); else resolve({
-            wallet,
-            totalScoreDaily: newTotal,
-            highScoreDaily: newHigh,
-            gamesPlayedDaily: newGames,
-            lastPlayedDaily: timestamp,
-          });
-        });
-      }).catch(reject);
-    });
+  private upsertDailyPlayerStats(wallet: string, score: number, timestamp: number): Promise<void> {
+    return this.run(`
+      INSERT INTO daily_player_stats (wallet, total_score_daily, high_score_daily, games_played_daily, last_played_daily)
+      VALUES (?, ?, ?, 1, ?)
+      ON CONFLICT(wallet) DO UPDATE SET
+        total_score_daily = total_score_daily + excluded.total_score_daily,
+        high_score_daily = MAX(high_score_daily, excluded.high_score_daily),
+        games_played_daily = games_played_daily + 1,
+        last_played_daily = excluded.last_played_daily
+    `, [wallet, score, score, timestamp]);
   }
 
   async getDailyLeaderboard(type: 'total' | 'high', limit: number = 10): Promise<LeaderboardEntry[]> {
@@ -275,11 +692,11 @@ class Database {
       const query = `
         SELECT wallet, ${scoreColumn} as score, games_played_daily as games_played, last_played_daily as last_played
         FROM daily_player_stats 
-        WHERE ${scoreColumn} > 0
+        WHERE ${scoreColumn} > 0 AND ${NOT_BANNED}
         ORDER BY ${scoreColumn} DESC 
         LIMIT ?
       `;
-      this.db.all(query, [limit], (err, rows: any[]) => {
+      this.db.all(query, [Date.now(), limit], (err, rows: any[]) => {
         if (err) {
           reject(err);
         } else {
@@ -296,71 +713,885 @@ class Database {
     });
   }
 
+  // Add a score to the current week, month and every active season
+  private async upsertPeriodPlayerStats(wallet: string, score: number, at: number): Promise<void> {
+    const seasons = await this.getActiveSeasons(at);
+    const keys = [weekWindow(at).key, monthWindow(at).key, ...seasons.map(season => seasonKey(season.id))];
+    const query = `
+      INSERT INTO period_player_stats (period_key, wallet, total_score, high_score, games_played, last_played)
+      VALUES (?, ?, ?, ?, 1, ?)
+      ON CONFLICT(period_key, wallet) DO UPDATE SET
+        total_score = total_score + excluded.total_score,
+        high_score = MAX(high_score, excluded.high_score),
+        games_played = games_played + 1,
+        last_played = excluded.last_played
+    `;
+    for (const key of keys) {
+      await this.run(query, [key, wallet, score, score, at]);
+    }
+  }
+
+  async getPeriodLeaderboard(periodKey: string, type: 'total' | 'high', limit: number = 10): Promise<LeaderboardEntry[]> {
+    return new Promise((resolve, reject) => {
+      const scoreColumn = type === 'total' ? 'total_score' : 'high_score';
+      const query = `
+        SELECT wallet, ${scoreColumn} as score, games_played, last_played
+        FROM period_player_stats
+        WHERE period_key = ? AND ${scoreColumn} > 0 AND ${NOT_BANNED}
+        ORDER BY ${scoreColumn} DESC
+        LIMIT ?
+      `;
+      this.db.all(query, [periodKey, Date.now(), limit], (err, rows: any[]) => {
+        if (err) return reject(err);
+        resolve(rows.map((row, index) => ({
+          rank: index + 1,
+          wallet: row.wallet,
+          score: row.score,
+          gamesPlayed: row.games_played,
+          lastPlayed: row.last_played
+        })));
+      });
+    });
+  }
+
+  async getPeriodPlayerCount(periodKey: string): Promise<number> {
+    return new Promise((resolve, reject) => {
+      const query = `SELECT COUNT(*) as count FROM period_player_stats WHERE period_key = ? AND ${NOT_BANNED}`;
+      this.db.get(query, [periodKey, Date.now()], (err, row: any) => {
+        if (err) reject(err); else resolve(row.count);
+      });
+    });
+  }
+
+  private mapSeason(row: any): Season {
+    return {
+      id: row.id,
+      name: row.name,
+      startsAt: row.starts_at,
+      endsAt: row.ends_at,
+      prizePool: row.prize_pool,
+      createdAt: row.created_at,
+    };
+  }
+
+  async createSeason(season: Omit<Season, 'id' | 'createdAt'>): Promise<Season> {
+    const id = await new Promise<number>((resolve, reject) => {
+      const query = 'INSERT INTO seasons (name, starts_at, ends_at, prize_pool, created_at) VALUES (?, ?, ?, ?, ?)';
+      this.db.run(query, [season.name, season.startsAt, season.endsAt, season.prizePool, Date.now()], function (err) {
+        if (err) reject(err); else resolve(this.lastID);
+      });
+    });
+    return (await this.getSeason(id))!;
+  }
+
+  async getSeason(id: number): Promise<Season | null> {
+    return new Promise((resolve, reject) => {
+      this.db.get('SELECT * FROM seasons WHERE id = ?', [id], (err, row: any) => {
+        if (err) reject(err); else resolve(row ? this.mapSeason(row) : null);
+      });
+    });
+  }
+
+  async getSeasonByName(name: string): Promise<Season | null> {
+    return new Promise((resolve, reject) => {
+      this.db.get('SELECT * FROM seasons WHERE name = ?', [name], (err, row: any) => {
+        if (err) reject(err); else resolve(row ? this.mapSeason(row) : null);
+      });
+    });
+  }
+
+  async getSeasons(): Promise<Season[]> {
+    return new Promise((resolve, reject) => {
+      this.db.all('SELECT * FROM seasons ORDER BY starts_at DESC', [], (err, rows: any[]) => {
+        if (err) reject(err); else resolve(rows.map(row => this.mapSeason(row)));
+      });
+    });
+  }
+
+  // Seasons running at `at`, most recently started first
+  async getActiveSeasons(at = Date.now()): Promise<Season[]> {
+    return new Promise((resolve, reject) => {
+      const query = 'SELECT * FROM seasons WHERE starts_at <= ? AND ends_at > ? ORDER BY starts_at DESC';
+      this.db.all(query, [at, at], (err, rows: any[]) => {
+        if (err) reject(err); else resolve(rows.map(row => this.mapSeason(row)));
+      });
+    });
+  }
+
   async getDailyScoresSum(type: 'total' | 'high'): Promise<number> {
     return new Promise((resolve, reject) => {
       const scoreColumn = type === 'total' ? 'total_score_daily' : 'high_score_daily';
-      const query = `SELECT COALESCE(SUM(${scoreColumn}), 0) as total FROM daily_player_stats WHERE ${scoreColumn} > 0`;
-      this.db.get(query, [], (err, row: any) => {
+      const query = `SELECT COALESCE(SUM(${scoreColumn}), 0) as total FROM daily_player_stats WHERE ${scoreColumn} > 0 AND ${NOT_BANNED}`;
+      this.db.get(query, [Date.now()], (err, row: any) => {
         if (err) reject(err); else resolve(row.total || 0);
       });
     });
   }
 
-  async resetDailyStats(): Promise<void> {
+  // Payout cycle helpers
+  private mapPayoutCycle(row: any): PayoutCycle {
+    return {
+      id: row.id,
+      windowStart: row.window_start,
+      windowEnd: row.window_end,
+      status: row.status,
+      totalPool: row.total_pool,
+      poolTotal: row.pool_total,
+      poolHigh: row.pool_high,
+      poolTreasury: row.pool_treasury,
+      winnerCount: row.winner_count,
+      mode: row.mode ?? 'push',
+      merkleRoot: row.merkle_root ?? undefined,
+      rolloverInUnits: row.rollover_in_units ?? '0',
+      rolloverOutUnits: row.rollover_out_units ?? '0',
+      onchainStatus: row.onchain_status ?? undefined,
+      txHash: row.tx_hash ?? undefined,
+      error: row.error ?? undefined,
+      createdAt: row.created_at,
+      updatedAt: row.updated_at,
+      completedAt: row.completed_at ?? undefined,
+    };
+  }
+
+  private mapPayoutItem(row: any): PayoutItem {
+    return {
+      cycleId: row.cycle_id,
+      wallet: row.wallet,
+      totalScore: row.total_score,
+      highScore: row.high_score,
+      rewardTotal: row.reward_total,
+      rewardHigh: row.reward_high,
+      reward: row.reward,
+      rewardUnits: row.reward_units,
+      carriedUnits: row.carried_units ?? '0',
+      batchIndex: row.batch_index ?? undefined,
+    };
+  }
+
+  private mapPayoutBatch(row: any): PayoutBatch {
+    return {
+      id: row.id,
+      cycleId: row.cycle_id,
+      batchIndex: row.batch_index,
+      status: row.status,
+      walletCount: row.wallet_count,
+      amountUnits: row.amount_units,
+      txHash: row.tx_hash ?? undefined,
+      signedTx: row.signed_tx ?? undefined,
+      attempts: row.attempts,
+      nextAttemptAt: row.next_attempt_at,
+      error: row.error ?? undefined,
+      createdAt: row.created_at,
+      updatedAt: row.updated_at,
+    };
+  }
+
+  // Snapshot the daily standings, persist the cycle built from them with its
+  // batches, update pending wallet balances and reset daily stats, all
+  // atomically: once rewards are recorded as owed the next competition starts,
+  // a crash can never reset scores that were not snapshotted, and a score
+  // submitted meanwhile waits behind the transaction instead of being reset unpaid
+  async createPayoutCycle(limit: number, build: (standings: DailyStandings) => NewPayoutCycle): Promise<PayoutCycle> {
+    const now = Date.now();
+    let cycleId = 0;
+    await this.transaction(async () => {
+      const total = await this.getDailyLeaderboard('total', limit);
+      const high = await this.getDailyLeaderboard('high', limit);
+      const pendingBalances = await this.getWalletBalances([...total, ...high].map(entry => entry.wallet));
+      const { cycle, items, balances } = build({ total, high, pendingBalances });
+      cycleId = await new Promise<number>((resolve, reject) => {
+        const query = `
+          INSERT INTO payout_cycles
+          (window_start, window_end, status, total_pool, pool_total, pool_high, pool_treasury, winner_count,
+           mode, merkle_root, rollover_in_units, rollover_out_units, created_at, updated_at)
+          VALUES (?, ?, 'pending', ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)
+        `;
+        this.db.run(query, [
+          cycle.windowStart,
+          cycle.windowEnd,
+          cycle.totalPool,
+          cycle.poolTotal,
+          cycle.poolHigh,
+          cycle.poolTreasury,
+          cycle.winnerCount,
+          cycle.mode,
+          cycle.merkleRoot ?? null,
+          cycle.rolloverInUnits,
+          cycle.rolloverOutUnits,
+          now,
+          now,
+        ], function (err) {
+          if (err) reject(err); else resolve(this.lastID);
+        });
+      });
+      const batches = new Map<number, { walletCount: number; amountUnits: bigint }>();
+      for (const item of items) {
+        await this.run(`
+          INSERT INTO payout_items
+          (cycle_id, wallet, total_score, high_score, reward_total, reward_high, reward, reward_units, carried_units, batch_index)
+          VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?)
+        `, [
+          cycleId, item.wallet, item.totalScore, item.highScore, item.rewardTotal, item.rewardHigh,
+          item.reward, item.rewardUnits, item.carriedUnits, item.batchIndex ?? null
+        ]);
+        if (item.batchIndex !== undefined) {
+          const batch = batches.get(item.batchIndex) || { walletCount: 0, amountUnits: 0n };
+          batch.walletCount += 1;
+          batch.amountUnits += BigInt(item.rewardUnits);
+          batches.set(item.batchIndex, batch);
+        }
+      }
+      for (const [batchIndex, batch] of batches) {
+        await this.run(`
+          INSERT INTO payout_batches
+          (cycle_id, batch_index, status, wallet_count, amount_units, attempts, next_attempt_at, created_at, updated_at)
+          VALUES (?, ?, 'pending', ?, ?, 0, ?, ?, ?)
+        `, [cycleId, batchIndex, batch.walletCount, batch.amountUnits.toString(), now, now, now]);
+      }
+      for (const balance of balances) {
+        await this.run(`
+          INSERT INTO wallet_balances (wallet, pending_units, updated_at) VALUES (?, ?, ?)
+          ON CONFLICT(wallet) DO UPDATE SET pending_units = excluded.pending_units, updated_at = excluded.updated_at
+        `, [balance.wallet.toLowerCase(), balance.pendingUnits, now]);
+      }
+      await this.archiveAndResetDailyStats(isoDate(cycle.windowEnd - 1), cycleId);
+    });
+    return (await this.getPayoutCycle(cycleId))!;
+  }
+
+  async getPayoutCycle(id: number): Promise<PayoutCycle | null> {
     return new Promise((resolve, reject) => {
-      const query = `UPDATE daily_player_stats SET total_score_daily = 0, high_score_daily = 0, games_played_daily = 0`;
-      this.db.run(query, [], (err) => { if (err) reject(err); else resolve(); });
+      this.db.get('SELECT * FROM payout_cycles WHERE id = ?', [id], (err, row: any) => {
+        if (err) reject(err); else resolve(row ? this.mapPayoutCycle(row) : null);
+      });
     });
   }
 
-  // Remove a single player from both lifetime and daily stats
-  async removePlayer(wallet: string): Promise<void> {
+  async getLatestPayoutCycle(): Promise<PayoutCycle | null> {
     return new Promise((resolve, reject) => {
-      this.db.serialize(() => {
-        this.db.run('DELETE FROM player_stats WHERE wallet = ?', [wallet], (err) => {
-          if (err) {
-            reject(err);
-            return;
-          }
-          this.db.run('DELETE FROM daily_player_stats WHERE wallet = ?', [wallet], (err2) => {
-            if (err2) reject(err2); else resolve();
+      this.db.get('SELECT * FROM payout_cycles ORDER BY window_start DESC LIMIT 1', [], (err, row: any) => {
+        if (err) reject(err); else resolve(row ? this.mapPayoutCycle(row) : null);
+      });
+    });
+  }
+
+  async getLatestPaidPayoutCycle(): Promise<PayoutCycle | null> {
+    return new Promise((resolve, reject) => {
+      const query = `SELECT * FROM payout_cycles WHERE tx_hash IS NOT NULL ORDER BY window_start DESC LIMIT 1`;
+      this.db.get(query, [], (err, row: any) => {
+        if (err) reject(err); else resolve(row ? this.mapPayoutCycle(row) : null);
+      });
+    });
+  }
+
+  // The claim-mode cycle whose Merkle root is currently live on the contract
+  async getLatestPublishedClaimCycle(): Promise<PayoutCycle | null> {
+    return new Promise((resolve, reject) => {
+      const query = `
+        SELECT * FROM payout_cycles
+        WHERE mode = 'claim' AND merkle_root IS NOT NULL AND onchain_status = 'confirmed'
+        ORDER BY window_start DESC LIMIT 1
+      `;
+      this.db.get(query, [], (err, row: any) => {
+        if (err) reject(err); else resolve(row ? this.mapPayoutCycle(row) : null);
+      });
+    });
+  }
+
+  // Cumulative claim-mode rewards per wallet in base units, over cycles up to
+  // and including the one starting at `upToWindowStart` (all cycles if unset)
+  async getClaimTotals(upToWindowStart?: number): Promise<{ wallet: string; units: string }[]> {
+    return new Promise((resolve, reject) => {
+      const query = `
+        SELECT MIN(i.wallet) as wallet, CAST(SUM(CAST(i.reward_units AS INTEGER)) AS TEXT) as units
+        FROM payout_items i JOIN payout_cycles c ON c.id = i.cycle_id
+        WHERE c.mode = 'claim' AND c.window_start <= ?
+        GROUP BY lower(i.wallet)
+        HAVING SUM(CAST(i.reward_units AS INTEGER)) > 0
+      `;
+      this.db.all(query, [upToWindowStart ?? Number.MAX_SAFE_INTEGER], (err, rows: any[]) => {
+        if (err) reject(err); else resolve(rows.map(row => ({ wallet: row.wallet, units: row.units })));
+      });
+    });
+  }
+
+  async getPayoutCycles(limit: number, offset: number): Promise<{ cycles: PayoutCycle[]; total: number }> {
+    return new Promise((resolve, reject) => {
+      this.db.get('SELECT COUNT(*) as count FROM payout_cycles', [], (err, summary: any) => {
+        if (err) return reject(err);
+        const query = 'SELECT * FROM payout_cycles ORDER BY window_start DESC LIMIT ? OFFSET ?';
+        this.db.all(query, [limit, offset], (err2, rows: any[]) => {
+          if (err2) return reject(err2);
+          resolve({ cycles: rows.map(row => this.mapPayoutCycle(row)), total: summary.count });
+        });
+      });
+    });
+  }
+
+  async getWalletBalance(wallet: string): Promise<WalletBalance | null> {
+    return new Promise((resolve, reject) => {
+      this.db.get('SELECT * FROM wallet_balances WHERE wallet = lower(?)', [wallet], (err, row: any) => {
+        if (err) return reject(err);
+        resolve(row ? { wallet: row.wallet, pendingUnits: row.pending_units, updatedAt: row.updated_at } : null);
+      });
+    });
+  }
+
+  // Pending balances (base units) for the given wallets, keyed by lowercase wallet
+  async getWalletBalances(wallets: string[]): Promise<Map<string, bigint>> {
+    const balances = new Map<string, bigint>();
+    if (wallets.length === 0) return balances;
+    return new Promise((resolve, reject) => {
+      const placeholders = wallets.map(() => 'lower(?)').join(', ');
+      const query = `SELECT wallet, pending_units FROM wallet_balances WHERE wallet IN (${placeholders})`;
+      this.db.all(query, wallets, (err, rows: any[]) => {
+        if (err) return reject(err);
+        rows.forEach(row => balances.set(row.wallet, BigInt(row.pending_units)));
+        resolve(balances);
+      });
+    });
+  }
+
+  // Paid and pending amounts are in USDC base units (pending excludes the wallet balance)
+  async getWalletPayouts(wallet: string, limit: number, offset: number): Promise<{
+    payouts: WalletPayout[];
+    total: number;
+    paidUnits: string;
+    pendingUnits: string;
+  }> {
+    return new Promise((resolve, reject) => {
+      // An item is paid once its own batch confirmed, even if other batches are still retrying
+      const joins = `
+        FROM payout_items i
+        JOIN payout_cycles c ON c.id = i.cycle_id
+        LEFT JOIN payout_batches b ON b.cycle_id = i.cycle_id AND b.batch_index = i.batch_index
+        WHERE lower(i.wallet) = lower(?)
+      `;
+      const paidExpr = `(b.status = 'confirmed' OR (i.batch_index IS NULL AND c.status = 'completed'))`;
+      const summaryQuery = `
+        SELECT COUNT(*) as count,
+          CAST(COALESCE(SUM(CASE WHEN ${paidExpr} THEN CAST(i.reward_units AS INTEGER) ELSE 0 END), 0) AS TEXT) as paid,
+          CAST(COALESCE(SUM(CASE WHEN ${paidExpr} THEN 0 ELSE CAST(i.reward_units AS INTEGER) END), 0) AS TEXT) as pending
+        ${joins}
+      `;
+      this.db.get(summaryQuery, [wallet], (err, summary: any) => {
+        if (err) return reject(err);
+        const query = `
+          SELECT i.*, c.window_start, c.window_end, c.status, c.mode, c.completed_at,
+            COALESCE(b.tx_hash, c.tx_hash) as paid_tx_hash, ${paidExpr} as paid
+          ${joins}
+          ORDER BY c.window_start DESC
+          LIMIT ? OFFSET ?
+        `;
+        this.db.all(query, [wallet, limit, offset], (err2, rows: any[]) => {
+          if (err2) return reject(err2);
+          resolve({
+            payouts: rows.map(row => ({
+              ...this.mapPayoutItem(row),
+              windowStart: row.window_start,
+              windowEnd: row.window_end,
+              status: row.status,
+              mode: row.mode ?? 'push',
+              paid: !!row.paid,
+              txHash: row.paid_tx_hash ?? undefined,
+              completedAt: row.completed_at ?? undefined,
+            })),
+            total: summary.count,
+            paidUnits: summary.paid,
+            pendingUnits: summary.pending,
           });
         });
       });
     });
   }
 
-  // Remove multiple players
-  async removePlayers(wallets: string[]): Promise<string[]> {
-    const removed: string[] = [];
-    for (const w of wallets) {
-      await this.removePlayer(w).catch(() => {});
-      removed.push(w);
+  async getPayoutItems(cycleId: number): Promise<PayoutItem[]> {
+    return new Promise((resolve, reject) => {
+      const query = 'SELECT * FROM payout_items WHERE cycle_id = ? ORDER BY reward DESC, wallet ASC';
+      this.db.all(query, [cycleId], (err, rows: any[]) => {
+        if (err) reject(err); else resolve(rows.map(row => this.mapPayoutItem(row)));
+      });
+    });
+  }
+
+  async getPayoutBatchItems(cycleId: number, batchIndex: number): Promise<PayoutItem[]> {
+    return new Promise((resolve, reject) => {
+      const query = 'SELECT * FROM payout_items WHERE cycle_id = ? AND batch_index = ? ORDER BY wallet ASC';
+      this.db.all(query, [cycleId, batchIndex], (err, rows: any[]) => {
+        if (err) reject(err); else resolve(rows.map(row => this.mapPayoutItem(row)));
+      });
+    });
+  }
+
+  async getPayoutBatch(id: number): Promise<PayoutBatch | null> {
+    return new Promise((resolve, reject) => {
+      this.db.get('SELECT * FROM payout_batches WHERE id = ?', [id], (err, row: any) => {
+        if (err) reject(err); else resolve(row ? this.mapPayoutBatch(row) : null);
+      });
+    });
+  }
+
+  async getPayoutBatches(filter: { cycleId?: number; status?: PayoutBatchStatus } = {}): Promise<PayoutBatch[]> {
+    const conditions: string[] = [];
+    const params: any[] = [];
+    if (filter.cycleId !== undefined) { conditions.push('cycle_id = ?'); params.push(filter.cycleId); }
+    if (filter.status) { conditions.push('status = ?'); params.push(filter.status); }
+    const where = conditions.length ? `WHERE ${conditions.join(' AND ')}` : '';
+    return new Promise((resolve, reject) => {
+      this.db.all(`SELECT * FROM payout_batches ${where} ORDER BY cycle_id ASC, batch_index ASC`, params, (err, rows: any[]) => {
+        if (err) reject(err); else resolve(rows.map(row => this.mapPayoutBatch(row)));
+      });
+    });
+  }
+
+  // Batches to work on now, oldest cycle first so payments go out in order
+  async getDuePayoutBatches(now: number): Promise<PayoutBatch[]> {
+    return new Promise((resolve, reject) => {
+      const query = `
+        SELECT * FROM payout_batches
+        WHERE status IN ('pending', 'submitted') AND next_attempt_at <= ?
+        ORDER BY cycle_id ASC, batch_index ASC
+      `;
+      this.db.all(query, [now], (err, rows: any[]) => {
+        if (err) reject(err); else resolve(rows.map(row => this.mapPayoutBatch(row)));
+      });
+    });
+  }
+
+  // When the earliest batch waiting on a retry becomes due, if any
+  async getNextPayoutBatchAttemptAt(): Promise<number | null> {
+    return new Promise((resolve, reject) => {
+      const query = `SELECT MIN(next_attempt_at) as next FROM payout_batches WHERE status IN ('pending', 'submitted')`;
+      this.db.get(query, [], (err, row: any) => {
+        if (err) reject(err); else resolve(row?.next ?? null);
+      });
+    });
+  }
+
+  async updatePayoutBatch(
+    id: number,
+    fields: Partial<Pick<PayoutBatch, 'status' | 'txHash' | 'signedTx' | 'attempts' | 'nextAttemptAt' | 'error'>>
+  ): Promise<void> {
+    const columns: Record<string, string> = {
+      status: 'status',
+      txHash: 'tx_hash',
+      signedTx: 'signed_tx',
+      attempts: 'attempts',
+      nextAttemptAt: 'next_attempt_at',
+      error: 'error',
+    };
+    const sets = ['updated_at = ?'];
+    const params: any[] = [Date.now()];
+    for (const [key, column] of Object.entries(columns)) {
+      if (key in fields) {
+        sets.push(`${column} = ?`);
+        params.push((fields as any)[key] ?? null);
+      }
     }
-    return removed;
+    await this.run(`UPDATE payout_batches SET ${sets.join(', ')} WHERE id = ?`, [...params, id]);
   }
 
-  // Remove top N players by total score
-  async removeTopPlayers(limit: number): Promise<string[]> {
+  // Give failed batches a fresh set of attempts. Returns the batches re-queued.
+  async requeueFailedPayoutBatches(filter: { cycleId?: number; batchId?: number } = {}): Promise<PayoutBatch[]> {
+    const failed = (await this.getPayoutBatches({ cycleId: filter.cycleId, status: 'failed' }))
+      .filter(batch => filter.batchId === undefined || batch.id === filter.batchId);
+    const now = Date.now();
+    await this.transaction(async () => {
+      for (const batch of failed) {
+        await this.run(
+          `UPDATE payout_batches SET status = 'pending', attempts = 0, next_attempt_at = ?, error = NULL, updated_at = ? WHERE id = ?`,
+          [now, now, batch.id]
+        );
+        await this.run(
+          `UPDATE payout_cycles SET status = 'pending', error = NULL, updated_at = ? WHERE id = ? AND status = 'failed'`,
+          [now, batch.cycleId]
+        );
+      }
+    });
+    return failed;
+  }
+
+  async updatePayoutCycle(
+    id: number,
+    fields: Partial<Pick<PayoutCycle, 'status' | 'onchainStatus' | 'txHash' | 'error'>>
+  ): Promise<void> {
+    const columns: Record<string, string> = {
+      status: 'status',
+      onchainStatus: 'onchain_status',
+      txHash: 'tx_hash',
+      error: 'error',
+    };
+    const sets = ['updated_at = ?'];
+    const params: any[] = [Date.now()];
+    for (const [key, column] of Object.entries(columns)) {
+      if (key in fields) {
+        sets.push(`${column} = ?`);
+        params.push((fields as any)[key] ?? null);
+      }
+    }
+    await this.run(`UPDATE payout_cycles SET ${sets.join(', ')} WHERE id = ?`, [...params, id]);
+  }
+
+  async completePayoutCycle(id: number): Promise<void> {
+    const now = Date.now();
+    await this.run(
+      `UPDATE payout_cycles SET status = 'completed', error = NULL, completed_at = ?, updated_at = ? WHERE id = ?`,
+      [now, now, id]
+    );
+  }
+
+  // The connection is shared, so statements and transactions take turns in
+  // one FIFO queue: a statement issued while a transaction is open waits for
+  // its COMMIT or ROLLBACK instead of running inside it. Statements issued by
+  // the transaction itself go straight to the connection.
+  private gate(): Statements {
+    const enqueue = (method: keyof Statements) => (...args: any[]) => {
+      const connection = this.connection as any;
+      if (this.inTransaction.getStore()) {
+        return connection[method](...args);
+      }
+      const callback = typeof args[args.length - 1] === 'function' ? args.pop() : undefined;
+      this.queue = this.queue.then(() => new Promise<void>(done => {
+        connection[method](...args, function (this: unknown, ...results: unknown[]) {
+          done();
+          callback?.apply(this, results);
+        });
+      }));
+      return connection;
+    };
+    return { run: enqueue('run'), get: enqueue('get'), all: enqueue('all'), exec: enqueue('exec') } as Statements;
+  }
+
+  private async transaction<T>(work: () => Promise<T>): Promise<T> {
+    const run = this.queue.then(() => this.inTransaction.run(true, async () => {
+      await this.run('BEGIN IMMEDIATE');
+      try {
+        const result = await work();
+        await this.run('COMMIT');
+        return result;
+      } catch (err) {
+        await this.run('ROLLBACK').catch(() => {});
+        throw err;
+      }
+    }));
+    this.queue = run.then(() => {}, () => {});
+    return run;
+  }
+
+  // Lease-based lock shared by every instance using this database.
+  // Returns true if `owner` now holds the lock (re-acquiring renews the lease).
+  async acquireLock(name: string, owner: string, ttlMs: number): Promise<boolean> {
     return new Promise((resolve, reject) => {
-      const query = `SELECT wallet FROM player_stats WHERE total_score > 0 ORDER BY total_score DESC LIMIT ?`;
-      this.db.all(query, [limit], async (err, rows: any[]) => {
-        if (err) return reject(err);
-        const wallets: string[] = rows.map(r => r.wallet);
-        const removed = await this.removePlayers(wallets);
-        resolve(removed);
+      const now = Date.now();
+      const query = `
+        INSERT INTO scheduler_locks (name, owner, expires_at) VALUES (?, ?, ?)
+        ON CONFLICT(name) DO UPDATE SET owner = excluded.owner, expires_at = excluded.expires_at
+        WHERE scheduler_locks.expires_at < ? OR scheduler_locks.owner = excluded.owner
+      `;
+      this.db.run(query, [name, owner, now + ttlMs, now], function (err) {
+        if (err) reject(err); else resolve(this.changes > 0);
       });
     });
   }
 
-  close(): void {
-    this.db.close((err) => {
-      if (err) {
-        console.error('❌ Error closing database:', err.message);
-      } else {
-        console.log('✅ Database connection closed');
+  async releaseLock(name: string, owner: string): Promise<void> {
+    await this.run('DELETE FROM scheduler_locks WHERE name = ? AND owner = ?', [name, owner]);
+  }
+
+  async getTotalEntryFeesBetween(start: number, end: number): Promise<number> {
+    return new Promise((resolve, reject) => {
+      const query = 'SELECT COALESCE(SUM(amount), 0) as total FROM entry_fees WHERE timestamp >= ? AND timestamp < ?';
+      this.db.get(query, [start, end], (err, row: any) => {
+        if (err) reject(err); else resolve(row.total || 0);
+      });
+    });
+  }
+
+  // Sum of treasury shares over all cycles, in USDC
+  async getTotalTreasuryAccrued(): Promise<number> {
+    return new Promise((resolve, reject) => {
+      this.db.get('SELECT COALESCE(SUM(pool_treasury), 0) as total FROM payout_cycles', [], (err, row: any) => {
+        if (err) reject(err); else resolve(row.total || 0);
+      });
+    });
+  }
+
+  // Insert indexed events, skipping ones already stored. Returns how many were new.
+  async insertChainEvents(events: ChainEvent[]): Promise<number> {
+    let inserted = 0;
+    await this.transaction(async () => {
+      for (const event of events) {
+        inserted += await new Promise<number>((resolve, reject) => {
+          const query = `
+            INSERT OR IGNORE INTO chain_events (event, account, amount_units, tx_hash, log_index, block_number)
+            VALUES (?, ?, ?, ?, ?, ?)
+          `;
+          this.db.run(query, [
+            event.event,
+            event.account.toLowerCase(),
+            event.amountUnits,
+            event.txHash.toLowerCase(),
+            event.logIndex,
+            event.blockNumber,
+          ], function (err) {
+            if (err) reject(err); else resolve(this.changes);
+          });
+        });
       }
     });
+    return inserted;
+  }
+
+  async getChainEvents(filter: { event?: ChainEventName; txHash?: string } = {}): Promise<ChainEvent[]> {
+    const conditions: string[] = [];
+    const params: any[] = [];
+    if (filter.event) { conditions.push('event = ?'); params.push(filter.event); }
+    if (filter.txHash) { conditions.push('tx_hash = lower(?)'); params.push(filter.txHash); }
+    const where = conditions.length ? `WHERE ${conditions.join(' AND ')}` : '';
+    return new Promise((resolve, reject) => {
+      this.db.all(`SELECT * FROM chain_events ${where} ORDER BY block_number ASC, log_index ASC`, params, (err, rows: any[]) => {
+        if (err) return reject(err);
+        resolve(rows.map(row => ({
+          id: row.id,
+          event: row.event,
+          account: row.account,
+          amountUnits: row.amount_units,
+          txHash: row.tx_hash,
+          logIndex: row.log_index,
+          blockNumber: row.block_number,
+        })));
+      });
+    });
+  }
+
+  async getChainCursor(name: string): Promise<number | null> {
+    return new Promise((resolve, reject) => {
+      this.db.get('SELECT block_number FROM chain_cursors WHERE name = ?', [name], (err, row: any) => {
+        if (err) reject(err); else resolve(row ? row.block_number : null);
+      });
+    });
+  }
+
+  async setChainCursor(name: string, blockNumber: number): Promise<void> {
+    await this.run(`
+      INSERT INTO chain_cursors (name, block_number, updated_at) VALUES (?, ?, ?)
+      ON CONFLICT(name) DO UPDATE SET block_number = excluded.block_number, updated_at = excluded.updated_at
+    `, [name, blockNumber, Date.now()]);
+  }
+
+  async resetDailyStats(at = Date.now()): Promise<void> {
+    await this.transaction(() => this.archiveAndResetDailyStats(isoDate(at), null));
+  }
+
+  // Must run inside a transaction so no score lands between the snapshot and the reset
+  private async archiveAndResetDailyStats(date: string, cycleId: number | null): Promise<void> {
+    await this.run(`
+      INSERT INTO daily_leaderboard_archive
+      (date, cycle_id, wallet, total_score, high_score, games_played, last_played, archived_at)
+      SELECT ?, ?, wallet, total_score_daily, high_score_daily, games_played_daily, last_played_daily, ?
+      FROM daily_player_stats
+      WHERE games_played_daily > 0
+    `, [date, cycleId, Date.now()]);
+    await this.run(`UPDATE daily_player_stats SET total_score_daily = 0, high_score_daily = 0, games_played_daily = 0`);
+  }
+
+  // Archived standings for a UTC day, merged over every cycle that closed on it.
+  // Bans apply at read time, so lifting one restores the wallet's past days
+  async getArchivedDailyLeaderboard(date: string, type: 'total' | 'high', limit: number = 10): Promise<LeaderboardEntry[]> {
+    return new Promise((resolve, reject) => {
+      const scoreExpr = type === 'total' ? 'SUM(total_score)' : 'MAX(high_score)';
+      const query = `
+        SELECT wallet, ${scoreExpr} as score, SUM(games_played) as games_played, MAX(last_played) as last_played
+        FROM daily_leaderboard_archive
+        WHERE date = ? AND ${NOT_BANNED}
+        GROUP BY wallet
+        HAVING score > 0
+        ORDER BY score DESC
+        LIMIT ?
+      `;
+      this.db.all(query, [date, Date.now(), limit], (err, rows: any[]) => {
+        if (err) return reject(err);
+        resolve(rows.map((row, index) => ({
+          rank: index + 1,
+          wallet: row.wallet,
+          score: row.score,
+          gamesPlayed: row.games_played,
+          lastPlayed: row.last_played
+        })));
+      });
+    });
+  }
+
+  // Payout cycles whose standings were archived under `date`
+  async getArchivedDailyCycleIds(date: string): Promise<number[]> {
+    return new Promise((resolve, reject) => {
+      const query = 'SELECT DISTINCT cycle_id FROM daily_leaderboard_archive WHERE date = ? AND cycle_id IS NOT NULL ORDER BY cycle_id';
+      this.db.all(query, [date], (err, rows: any[]) => {
+        if (err) reject(err); else resolve(rows.map(row => row.cycle_id));
+      });
+    });
+  }
+
+  // Days with an archived leaderboard, newest first
+  async getArchivedDailyDates(limit: number = 60): Promise<string[]> {
+    return new Promise((resolve, reject) => {
+      const query = 'SELECT DISTINCT date FROM daily_leaderboard_archive ORDER BY date DESC LIMIT ?';
+      this.db.all(query, [limit], (err, rows: any[]) => {
+        if (err) reject(err); else resolve(rows.map(row => row.date));
+      });
+    });
+  }
+
+  // Bans
+  private mapBan(row: any): WalletBan {
+    return {
+      id: row.id,
+      wallet: row.wallet,
+      reason: row.reason,
+      bannedBy: row.banned_by,
+      createdAt: row.created_at,
+      expiresAt: row.expires_at ?? undefined,
+      liftedAt: row.lifted_at ?? undefined,
+      liftedBy: row.lifted_by ?? undefined,
+    };
+  }
+
+  async banWallet(ban: Pick<WalletBan, 'wallet' | 'reason' | 'bannedBy' | 'expiresAt'>): Promise<WalletBan | null> {
+    const wallet = ban.wallet.toLowerCase();
+    const createdAt = Date.now();
+    let created: WalletBan | null = null;
+    await this.transaction(async () => {
+      if (await this.getActiveBan(wallet, createdAt)) return;
+      const id = await new Promise<number>((resolve, reject) => {
+        this.db.run(
+          'INSERT INTO banned_wallets (wallet, reason, banned_by, created_at, expires_at) VALUES (?, ?, ?, ?, ?)',
+          [wallet, ban.reason, ban.bannedBy, createdAt, ban.expiresAt ?? null],
+          function (err) {
+            if (err) reject(err); else resolve(this.lastID);
+          }
+        );
+      });
+      created = { id, wallet, reason: ban.reason, bannedBy: ban.bannedBy, createdAt, expiresAt: ban.expiresAt };
+    });
+    return created;
+  }
+
+  async liftBan(wallet: string, liftedBy: string): Promise<WalletBan | null> {
+    const liftedAt = Date.now();
+    let lifted: WalletBan | null = null;
+    await this.transaction(async () => {
+      const active = await this.getActiveBan(wallet, liftedAt);
+      if (!active) return;
+      await this.run('UPDATE banned_wallets SET lifted_at = ?, lifted_by = ? WHERE id = ?', [liftedAt, liftedBy, active.id]);
+      lifted = { ...active, liftedAt, liftedBy };
+    });
+    return lifted;
+  }
+
+  async getActiveBan(wallet: string, at = Date.now()): Promise<WalletBan | null> {
+    return new Promise((resolve, reject) => {
+      const query = `
+        SELECT * FROM banned_wallets
+        WHERE wallet = ? AND lifted_at IS NULL AND (expires_at IS NULL OR expires_at > ?)
+        ORDER BY created_at DESC LIMIT 1
+      `;
+      this.db.get(query, [wallet.toLowerCase(), at], (err, row: any) => {
+        if (err) reject(err); else resolve(row ? this.mapBan(row) : null);
+      });
+    });
+  }
+
+  async getBans(
+    filter: { wallet?: string; activeOnly?: boolean },
+    limit: number,
+    offset: number
+  ): Promise<{ bans: WalletBan[]; total: number }> {
+    const conditions: string[] = [];
+    const params: any[] = [];
+    if (filter.wallet) { conditions.push('wallet = ?'); params.push(filter.wallet.toLowerCase()); }
+    if (filter.activeOnly) {
+      conditions.push('lifted_at IS NULL AND (expires_at IS NULL OR expires_at > ?)');
+      params.push(Date.now());
+    }
+    const where = conditions.length ? `WHERE ${conditions.join(' AND ')}` : '';
+    const total = await new Promise<number>((resolve, reject) => {
+      this.db.get(`SELECT COUNT(*) as count FROM banned_wallets ${where}`, params, (err, row: any) => {
+        if (err) reject(err); else resolve(row.count);
+      });
+    });
+    const bans = await new Promise<WalletBan[]>((resolve, reject) => {
+      this.db.all(
+        `SELECT * FROM banned_wallets ${where} ORDER BY created_at DESC, id DESC LIMIT ? OFFSET ?`,
+        [...params, limit, offset],
+        (err, rows: any[]) => {
+          if (err) reject(err); else resolve(rows.map(row => this.mapBan(row)));
+        }
+      );
+    });
+    return { bans, total };
+  }
+
+  // Admin audit
+  async recordAdminAction(entry: Omit<AdminAuditEntry, 'id'>): Promise<number> {
+    return new Promise((resolve, reject) => {
+      this.db.run(
+        'INSERT INTO admin_audit (action, actor, params, status, result, created_at) VALUES (?, ?, ?, ?, ?, ?)',
+        [entry.action, entry.actor, JSON.stringify(entry.params), entry.status, JSON.stringify(entry.result ?? null), entry.createdAt],
+        function (err) {
+          if (err) reject(err); else resolve(this.lastID);
+        }
+      );
+    });
+  }
+
+  async getAdminAudit(filter: AdminAuditQuery = {}): Promise<{ entries: AdminAuditEntry[]; total: number }> {
+    const conditions: string[] = [];
+    const params: any[] = [];
+    if (filter.action) { conditions.push('action = ?'); params.push(filter.action); }
+    if (filter.actor) { conditions.push('actor = ?'); params.push(filter.actor); }
+    if (filter.since !== undefined) { conditions.push('created_at >= ?'); params.push(filter.since); }
+    if (filter.until !== undefined) { conditions.push('created_at < ?'); params.push(filter.until); }
+    const where = conditions.length ? `WHERE ${conditions.join(' AND ')}` : '';
+
+    const total = await new Promise<number>((resolve, reject) => {
+      this.db.get(`SELECT COUNT(*) as count FROM admin_audit ${where}`, params, (err, row: any) => {
+        if (err) reject(err); else resolve(row.count);
+      });
+    });
+    const entries = await new Promise<AdminAuditEntry[]>((resolve, reject) => {
+      this.db.all(
+        `SELECT * FROM admin_audit ${where} ORDER BY created_at DESC, id DESC LIMIT ? OFFSET ?`,
+        [...params, filter.limit ?? 50, filter.offset ?? 0],
+        (err, rows: any[]) => {
+          if (err) return reject(err);
+          resolve(rows.map(row => ({
+            id: row.id,
+            action: row.action,
+            actor: row.actor,
+            params: JSON.parse(row.params),
+            status: row.status,
+            result: row.result ? JSON.parse(row.result) : null,
+            createdAt: row.created_at,
+          })));
+        }
+      );
+    });
+    return { entries, total };
+  }
+
+  async close(): Promise<void> {
+    await this.queue;
+    return new Promise((resolve, reject) => {
+      this.connection.close((err) => {
+        if (err) {
+          console.error('❌ Error closing database:', err.message);
+          reject(err);
+        } else {
+          console.log('✅ Database connection closed');
+          resolve();
+        }
+      });
+    });
   }
 }
 
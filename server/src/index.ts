@@ -2,13 +2,36 @@ import express from 'express';
 import cors from 'cors';
 import { randomUUID } from 'crypto';
 import { paymentMiddleware } from 'x402-express';
+import { exact } from 'x402/schemes';
+import { decodeXPaymentResponse } from 'x402/shared';
 import { Facilitator, createExpressAdapter } from '@x402-sovereign/core';
 import { baseSepolia, base } from 'viem/chains';
 import { config } from 'dotenv';
 import { join } from 'path';
-import fs from 'fs';
-import Database from './database.js';
-import { JsonRpcProvider, WebSocketProvider, Wallet, Contract } from 'ethers';
+import { isUniqueViolation, type GameSession, type PaymentPath, type PayoutBatch, type PayoutBatchStatus, type PayoutMode, type Repository, type WalletBan } from './repository.js';
+import { createRepository, loadStorageConfig, type StorageConfig } from './storage.js';
+import { loadMigrations, migrate } from './migrations.js';
+import SessionStore, { isPaidSession, type AbandonPolicy } from './sessions.js';
+import { isTxHash, verifyUsdcPayment } from './payments.js';
+import PayoutService, { type PayoutServiceOptions } from './payouts.js';
+import Reconciler from './reconciliation.js';
+import { Schedule } from './schedule.js';
+import { findAdminToken, loadAdminTokens, type AdminScope, type AdminToken } from './adminTokens.js';
+import { computePayout, loadPayoutPolicy, parsePayoutPolicy, type PayoutPolicy } from './payoutPolicy.js';
+import { LEADERBOARD_PERIODS, monthWindow, parseDate, seasonKey, weekWindow, type LeaderboardPeriod, type PeriodWindow } from './periods.js';
+import {
+  replayGame,
+  validateInputLog,
+  buildCreditRedemptionMessage,
+  isSameAddress,
+  normalizeAddress,
+  SIGNED_MESSAGE_MAX_AGE_MS,
+  type GameData,
+  type InputEvent,
+  type ReplayResult
+} from '@snake402/shared';
+import { verifyMessage } from 'viem';
+import { WebSocketProvider, Contract, parseUnits } from 'ethers';
 
 // Load environment variables from root directory
 config({ path: join(process.cwd(), '..', '.env') });
@@ -29,17 +52,29 @@ const ENABLE_ONCHAIN_PAYOUTS = process.env.ENABLE_ONCHAIN_PAYOUTS === 'true';
 const BASE_RPC_URL = process.env.BASE_RPC_URL; // e.g. https://mainnet.base.org or provider endpoint
 const BASE_WS_URL = process.env.BASE_WS_URL;   // optional, for event listening
 const ENABLE_SSE_PAYOUTS = process.env.ENABLE_SSE_PAYOUTS === 'true';
-const ADMIN_TOKEN = process.env.ADMIN_TOKEN;
 const CORS_ORIGINS = process.env.CORS_ORIGINS || '';
-
-// Payout scheduler state
-const payoutsLogPath = join(process.cwd(), 'payouts.log');
-let lastPayoutAt = Date.now();
-let nextPayoutAt = lastPayoutAt + 24 * 60 * 60 * 1000;
-let lastTxHash: string | null = null;
-let lastTxLink: string | null = null;
-const recordedFeeSessions = new Set<string>();
+const REPLAY_VERIFICATION_MODE = process.env.REPLAY_VERIFICATION_MODE === 'flag' ? 'flag' : 'enforce';
+const MAX_REPLAY_TICKS = parseInt(process.env.MAX_REPLAY_TICKS || '100000');
+const SESSION_TTL_MINUTES = parseFloat(process.env.SESSION_TTL_MINUTES || '60');
+const SESSION_SWEEP_INTERVAL_SECONDS = parseFloat(process.env.SESSION_SWEEP_INTERVAL_SECONDS || '60');
+const ABANDONED_SESSION_POLICY = (['credit', 'refund', 'none'].includes(process.env.ABANDONED_SESSION_POLICY || '')
+  ? process.env.ABANDONED_SESSION_POLICY
+  : 'credit') as AbandonPolicy;
+
+const PAYOUT_SCHEDULE = process.env.PAYOUT_SCHEDULE || '00:00';
+const PAYOUT_BATCH_SIZE = parseInt(process.env.PAYOUT_BATCH_SIZE || '50');
+const PAYOUT_MAX_ATTEMPTS = parseInt(process.env.PAYOUT_MAX_ATTEMPTS || '5');
+const PAYOUT_RETRY_BASE_SECONDS = parseFloat(process.env.PAYOUT_RETRY_BASE_SECONDS || '60');
+const PAYOUT_MODE: PayoutMode = process.env.PAYOUT_MODE === 'claim' ? 'claim' : 'push';
+const PAYOUT_MIN_AMOUNT = parseFloat(process.env.PAYOUT_MIN_AMOUNT || '0'); // USDC per wallet
+const RECONCILE_START_BLOCK = process.env.RECONCILE_START_BLOCK ? parseInt(process.env.RECONCILE_START_BLOCK) : undefined;
+const RECONCILE_INTERVAL_SECONDS = parseFloat(process.env.RECONCILE_INTERVAL_SECONDS || '300');
+const RECONCILE_MAX_BLOCK_RANGE = parseInt(process.env.RECONCILE_MAX_BLOCK_RANGE || '2000');
 const ENTRY_FEE_NUM = parseFloat(ENTRY_FEE_USDC || '0');
+const ENTRY_FEE_UNITS = parseUnits(ENTRY_FEE_USDC, 6); // Base USDC uses 6 decimals
+const MIN_PAYMENT_CONFIRMATIONS = parseInt(process.env.MIN_PAYMENT_CONFIRMATIONS || '1');
+// Entry fees go directly to the prize pool contract if configured
+const PAYMENT_RECIPIENT = PRIZE_POOL_CONTRACT || CDP_RECIPIENT_ADDRESS;
 
 // Network safety check
 if (CDP_NETWORK === 'base') {
@@ -69,6 +104,12 @@ console.log('🔗 ENABLE_ONCHAIN_PAYOUTS:', ENABLE_ONCHAIN_PAYOUTS);
 console.log('🔌 BASE_RPC_URL:', BASE_RPC_URL ? 'Configured ✅' : 'Missing ❌');
 console.log('📡 ENABLE_SSE_PAYOUTS:', ENABLE_SSE_PAYOUTS);
 console.log('🔌 BASE_WS_URL:', BASE_WS_URL ? 'Configured ✅' : 'Missing ❌');
+console.log('🎞️  REPLAY_VERIFICATION_MODE:', REPLAY_VERIFICATION_MODE);
+console.log('⌛ SESSION_TTL_MINUTES:', SESSION_TTL_MINUTES);
+console.log('🧹 ABANDONED_SESSION_POLICY:', ABANDONED_SESSION_POLICY);
+console.log('📅 PAYOUT_SCHEDULE (UTC):', PAYOUT_SCHEDULE);
+console.log('🌳 PAYOUT_MODE:', PAYOUT_MODE);
+console.log('🪙 PAYOUT_MIN_AMOUNT:', PAYOUT_MIN_AMOUNT);
 
 if (!CDP_RECIPIENT_ADDRESS || CDP_RECIPIENT_ADDRESS.includes('YOUR_')) {
   console.error('❌ CDP_RECIPIENT_ADDRESS environment variable is required and must be a valid address');
@@ -80,6 +121,42 @@ if (!PRIVATE_KEY || PRIVATE_KEY.includes('YOUR_')) {
   process.exit(1);
 }
 
+let payoutSchedule: Schedule;
+try {
+  payoutSchedule = Schedule.parse(PAYOUT_SCHEDULE);
+  payoutSchedule.next(Date.now());
+} catch (err) {
+  console.error(`❌ Invalid PAYOUT_SCHEDULE: ${(err as Error).message}`);
+  process.exit(1);
+}
+
+let storageConfig: StorageConfig;
+try {
+  storageConfig = loadStorageConfig();
+  console.log('🗄️  STORAGE_DRIVER:', storageConfig.driver);
+} catch (err) {
+  console.error(`❌ Invalid storage configuration: ${(err as Error).message}`);
+  process.exit(1);
+}
+
+let payoutPolicy: PayoutPolicy;
+try {
+  payoutPolicy = loadPayoutPolicy();
+  console.log('🏆 Payout policy:', JSON.stringify(payoutPolicy));
+} catch (err) {
+  console.error(`❌ Invalid payout policy (PAYOUT_POLICY / PAYOUT_POLICY_FILE): ${(err as Error).message}`);
+  process.exit(1);
+}
+
+let adminTokens: AdminToken[];
+try {
+  adminTokens = loadAdminTokens();
+  console.log('🔑 Admin tokens:', adminTokens.map(({ name, scopes }) => `${name} (${scopes.join(', ')})`).join('; ') || 'none');
+} catch (err) {
+  console.error(`❌ Invalid admin tokens (ADMIN_TOKENS / ADMIN_TOKEN): ${(err as Error).message}`);
+  process.exit(1);
+}
+
 // Middleware
 // Configure CORS: allow specific origins when provided; otherwise default to dev-friendly
 const allowedOrigins = CORS_ORIGINS.split(',').map(s => s.trim()).filter(Boolean);
@@ -113,8 +190,7 @@ console.log('💳 Payment Configuration:', JSON.stringify(paymentConfig, null, 2
 console.log('🌐 Using local facilitator at: http://localhost:' + PORT + '/facilitator');
 
 app.use(paymentMiddleware(
-  // Route entry fees directly to the prize pool contract if configured
-  (PRIZE_POOL_CONTRACT || CDP_RECIPIENT_ADDRESS) as `0x${string}`,
+  PAYMENT_RECIPIENT as `0x${string}`,
   paymentConfig,
   {
     url: `http://localhost:${PORT}/facilitator` as `${string}://${string}`,
@@ -131,19 +207,149 @@ app.use((req, res, next) => {
 // Add body parsers AFTER x402 middleware for non-payment routes
 app.use(express.json({ limit: '10mb' }));
 
-// Initialize database
-const db = new Database();
+// Initialize database (SQLite or Postgres, see STORAGE_DRIVER); opened and migrated before the server listens
+const db: Repository = createRepository(storageConfig);
+
+// Session management (persisted in game_sessions, rehydrated on startup)
+const sessions = new SessionStore(db, {
+  ttlMs: SESSION_TTL_MINUTES * 60 * 1000,
+  abandonPolicy: ABANDONED_SESSION_POLICY,
+  entryFee: ENTRY_FEE_NUM
+});
+
+// Daily payouts (persisted in payout_cycles / payout_items / payout_batches)
+const payouts = new PayoutService(db, {
+  schedule: payoutSchedule,
+  policy: payoutPolicy,
+  batchSize: PAYOUT_BATCH_SIZE,
+  maxAttempts: PAYOUT_MAX_ATTEMPTS,
+  retryBaseMs: PAYOUT_RETRY_BASE_SECONDS * 1000,
+  mode: PAYOUT_MODE,
+  minPayout: PAYOUT_MIN_AMOUNT,
+  onchain: ENABLE_ONCHAIN_PAYOUTS && PRIZE_POOL_CONTRACT && PRIVATE_KEY && BASE_RPC_URL
+    ? { rpcUrl: BASE_RPC_URL, privateKey: PRIVATE_KEY, prizePoolContract: PRIZE_POOL_CONTRACT }
+    : undefined
+} satisfies PayoutServiceOptions);
+
+// Indexes PrizePool events and checks them against the payout ledger (needs an RPC and the contract)
+const reconciler = BASE_RPC_URL && PRIZE_POOL_CONTRACT
+  ? new Reconciler(db, {
+    rpcUrl: BASE_RPC_URL,
+    prizePoolContract: PRIZE_POOL_CONTRACT,
+    startBlock: RECONCILE_START_BLOCK,
+    maxBlockRange: RECONCILE_MAX_BLOCK_RANGE,
+  })
+  : null;
+
+// Extract the payer address and authorization nonce from the X-PAYMENT header.
+// Only call this from a route behind paymentMiddleware, which has already
+// verified the header.
+function getVerifiedPayment(req: express.Request): { payer: string; nonce: string } | null {
+  const header = req.get('X-PAYMENT');
+  if (!header) return null;
+  try {
+    const payment = exact.evm.decodePayment(header);
+    if ('authorization' in payment.payload) {
+      const { from, nonce } = payment.payload.authorization;
+      return { payer: from, nonce };
+    }
+    return null;
+  } catch (err) {
+    console.error('❌ Failed to decode X-PAYMENT header:', err);
+    return null;
+  }
+}
+
+// Normalized :wallet route param, or null after answering 400
+function walletParam(req: express.Request, res: express.Response): string | null {
+  const wallet = normalizeAddress(req.params.wallet);
+  if (!wallet) {
+    res.status(400).json({
+      error: 'Invalid wallet address',
+      message: 'wallet must be a 0x-prefixed 20-byte address with a valid checksum',
+      timestamp: new Date().toISOString()
+    });
+  }
+  return wallet;
+}
+
+// Optional epoch-millisecond query param: undefined when absent, NaN when not
+// a non-negative integer
+function epochMsParam(value: unknown): number | undefined {
+  if (value === undefined || value === '') return undefined;
+  return typeof value === 'string' && /^\d+$/.test(value) ? Number(value) : NaN;
+}
 
-// Session management
-interface GameSession {
-  id: string;
-  isPaid: boolean;
-  createdAt: Date;
-  paidAt?: Date;
-  wallet?: string; // Add wallet to track player
+// 403 body for a wallet with an active ban
+function bannedResponse(ban: WalletBan) {
+  const until = ban.expiresAt ? ` until ${new Date(ban.expiresAt).toISOString()}` : '';
+  return {
+    error: 'Wallet banned',
+    message: `This wallet is banned from playing${until}`,
+    reason: ban.reason,
+    expiresAt: ban.expiresAt ?? null,
+    timestamp: new Date().toISOString()
+  };
 }
 
-const sessions = new Map<string, GameSession>();
+// Read the settlement result x402-express attaches after the handler ran
+function getSettlement(res: express.Response) {
+  const header = res.getHeader('X-PAYMENT-RESPONSE');
+  if (typeof header !== 'string') return null;
+  try {
+    return decodeXPaymentResponse(header);
+  } catch (err) {
+    console.error('❌ Failed to decode X-PAYMENT-RESPONSE header:', err);
+    return null;
+  }
+}
+
+// Record the entry fee in the ledger once per session
+function recordSessionFee(
+  session: GameSession,
+  payment: { path: PaymentPath; txHash?: string; network?: string }
+) {
+  if (session.feeRecorded) return;
+  db.recordEntryFee({
+    amount: ENTRY_FEE_NUM,
+    wallet: session.wallet,
+    sessionId: session.id,
+    txHash: payment.txHash,
+    paymentRef: session.paymentRef,
+    network: payment.network || CDP_NETWORK,
+    paymentPath: payment.path
+  }).then(async (inserted) => {
+    // Already in the ledger (e.g. retried request); just sync the session flag
+    await sessions.markFeeRecorded(session.id);
+    if (inserted) {
+      console.log(`🧾 Recorded entry fee (${payment.path}): ${ENTRY_FEE_NUM} at session ${session.id}`);
+    }
+  }).catch(err => {
+    console.error('❌ Failed to record entry fee:', err);
+  });
+}
+
+async function serializeSession(session: GameSession) {
+  const toDate = (ms?: number) => (ms ? new Date(ms) : undefined);
+  const compensation = session.status === 'abandoned'
+    ? await db.getSessionCompensation(session.id)
+    : null;
+  return {
+    sessionId: session.id,
+    status: session.status,
+    isPaid: isPaidSession(session),
+    createdAt: toDate(session.createdAt),
+    paidAt: toDate(session.paidAt),
+    startedAt: toDate(session.startedAt),
+    endedAt: toDate(session.endedAt),
+    wallet: session.wallet,
+    seed: session.seed,
+    // Outcome of the abandon policy (free-replay credit or queued refund)
+    compensation: compensation
+      ? { type: compensation.type, status: compensation.status, amount: compensation.amount }
+      : undefined
+  };
+}
 
 // Health check endpoint
 app.get('/health', (req, res) => {
@@ -163,57 +369,97 @@ app.get('/health', (req, res) => {
         health: '/health',
         join: '/api/join',
         verifyPayment: '/api/verify-payment',
+        session: '/api/session/:sessionId',
+        startSession: '/api/session/:sessionId/start',
+        abandonSession: '/api/session/:sessionId/abandon',
+        credits: '/api/credits/:wallet',
+        joinWithCredit: '/api/join-with-credit',
         submitScore: '/api/submit-score',
         leaderboardTotal: '/leaderboard/total',
         leaderboardHigh: '/leaderboard/high',
         playerStats: '/player/:wallet',
         leaderboardDailyTotal: '/leaderboard/daily/total',
         leaderboardDailyHigh: '/leaderboard/daily/high',
-        playerDailyStats: '/player/daily/:wallet'
+        leaderboardDailyArchive: '/leaderboard/daily/:date/:type',
+        leaderboardDailyDates: '/leaderboard/daily/dates',
+        playerDailyStats: '/player/daily/:wallet',
+        leaderboardPeriod: '/leaderboard/:period/:type',
+        seasons: '/seasons',
+        payoutStatus: '/payouts/status',
+        payoutPreview: '/payouts/preview',
+        payoutPreviewWallet: '/payouts/preview/:wallet',
+        payoutHistory: '/payouts/history',
+        payoutProof: '/payouts/proof/:wallet',
+        playerEarnings: '/player/:wallet/earnings',
+        playerGames: '/player/:wallet/games'
       }
     });
   });
 
 // POST /join - Protected by x402 middleware
-app.post('/api/join', (req, res) => {
+app.post('/api/join', async (req, res) => {
   console.log('🎮 Join request received - payment verified by middleware');
-  
-  // Create a new session for paid user
-  const sessionId = randomUUID();
-  const session: GameSession = {
-    id: sessionId,
-    isPaid: true, // Payment already verified by middleware
-    createdAt: new Date(),
-    paidAt: new Date()
-  };
-  
-  sessions.set(sessionId, session);
-  console.log(`📝 Created paid session: ${sessionId}`);
 
-  // Record entry fee off-chain once per session
-  if (!recordedFeeSessions.has(sessionId)) {
-    db.recordEntryFee(ENTRY_FEE_NUM).then(() => {
-      recordedFeeSessions.add(sessionId);
-      console.log(`🧾 Recorded entry fee: ${ENTRY_FEE_NUM} at session ${sessionId}`);
-    }).catch(err => {
-      console.error('❌ Failed to record entry fee:', err);
+  const payment = getVerifiedPayment(req);
+  if (!payment) {
+    return res.status(400).json({
+      error: 'Invalid payment',
+      message: 'Could not determine payer address from X-PAYMENT header'
     });
   }
   
-  // Return success response with session
-  res.status(200).json({
-    sessionId: sessionId,
-    message: 'Payment verified, ready to play!',
-    isPaid: true
-  });
+  try {
+    // Rejecting here also stops x402-express from settling the payment
+    const ban = await db.getActiveBan(payment.payer);
+    if (ban) {
+      console.warn(`🚫 Join refused for banned wallet ${payment.payer}`);
+      return res.status(403).json(bannedResponse(ban));
+    }
+
+    // Create a new session for paid user (payment already verified by middleware)
+    const sessionId = randomUUID();
+    const session = await sessions.create(sessionId, {
+      status: 'paid',
+      wallet: payment.payer,
+      paymentRef: payment.nonce,
+      paidAt: Date.now()
+    });
+    console.log(`📝 Created paid session: ${sessionId} for ${payment.payer}`);
+
+    // The middleware settles after this handler; only a settled payment enters the ledger
+    res.once('finish', () => {
+      const settlement = getSettlement(res);
+      if (res.statusCode !== 200 || !settlement?.success) {
+        console.warn(`⚠️  x402 payment for session ${sessionId} was not settled; no fee recorded`);
+        return;
+      }
+      recordSessionFee(session, {
+        path: 'x402',
+        txHash: settlement.transaction,
+        network: settlement.network
+      });
+    });
+    
+    // Return success response with session
+    res.status(200).json({
+      sessionId: sessionId,
+      seed: session.seed,
+      wallet: payment.payer,
+      message: 'Payment verified, ready to play!',
+      isPaid: true
+    });
+  } catch (error) {
+    console.error('❌ Failed to create session:', error);
+    res.status(500).json({ error: 'Failed to create session' });
+  }
 });
 
 // POST /api/verify-payment - Verify payment manually (for client compatibility)
 app.post('/api/verify-payment', async (req, res) => {
   const timestamp = new Date().toISOString();
-  const { txHash, sessionId } = req.body;
+  const { txHash, sessionId, wallet } = req.body;
   
-  console.log(`[${timestamp}] 🔍 Manual payment verification request:`, { txHash, sessionId, network: CDP_NETWORK });
+  console.log(`[${timestamp}] 🔍 Manual payment verification request:`, { txHash, sessionId, wallet, network: CDP_NETWORK });
   
   if (!txHash) {
     const error = 'Missing transaction hash - txHash is required for payment verification';
@@ -225,38 +471,66 @@ app.post('/api/verify-payment', async (req, res) => {
     });
   }
 
+  if (!sessionId) {
+    return res.status(400).json({
+      error: 'Missing session',
+      message: 'sessionId is required for payment verification',
+      timestamp
+    });
+  }
+
+  if (wallet && !normalizeAddress(wallet)) {
+    return res.status(400).json({
+      error: 'Invalid wallet address',
+      message: 'wallet must be a 0x-prefixed 20-byte address with a valid checksum',
+      timestamp
+    });
+  }
+
   try {
+    // A session already bound to another payer cannot be claimed
+    const existingSession = await sessions.get(sessionId);
+    if (existingSession?.wallet && wallet && !isSameAddress(existingSession.wallet, wallet)) {
+      return res.status(403).json({
+        error: 'Wallet mismatch',
+        message: 'Session is bound to a different wallet',
+        timestamp
+      });
+    }
+
     // In sandbox mode, simulate payment verification
     if (SANDBOX_MODE) {
       console.log(`[${timestamp}] 🛡️  SANDBOX MODE: Simulating payment verification for txHash: ${txHash}`);
-      
-      let session = sessions.get(sessionId);
-      if (!session) {
-        session = {
-          id: sessionId,
-          isPaid: false,
-          createdAt: new Date()
-        };
-        sessions.set(sessionId, session);
+
+      if (!wallet) {
+        return res.status(400).json({
+          error: 'Missing wallet',
+          message: 'wallet is required for simulated payment verification',
+          timestamp
+        });
       }
       
-      session.isPaid = true;
-      session.paidAt = new Date();
+      let session: GameSession | null = existingSession || await sessions.create(sessionId);
+      if (session.status === 'created') {
+        // Simulated hashes are not real payments and may repeat
+        session = await sessions.markPaid(sessionId, wallet, `sandbox:${sessionId}`);
+      }
+      if (!session || !isPaidSession(session)) {
+        return res.status(409).json({
+          error: 'Invalid session',
+          message: 'Session is already closed',
+          timestamp
+        });
+      }
       
       console.log(`[${timestamp}] ✅ SANDBOX: Payment simulated for session: ${sessionId}`);
 
-      // Record entry fee off-chain once per session
-      if (!recordedFeeSessions.has(sessionId)) {
-        db.recordEntryFee(ENTRY_FEE_NUM).then(() => {
-          recordedFeeSessions.add(sessionId);
-          console.log(`🧾 Recorded entry fee (SANDBOX): ${ENTRY_FEE_NUM} at session ${sessionId}`);
-        }).catch(err => {
-          console.error('❌ Failed to record entry fee:', err);
-        });
-      }
+      recordSessionFee(session, { path: 'sandbox' });
       
       return res.status(200).json({
         sessionId: sessionId,
+        seed: session.seed,
+        wallet: session.wallet,
         verified: true,
         message: 'Payment verified successfully (SANDBOX MODE)',
         txHash: txHash,
@@ -266,61 +540,126 @@ app.post('/api/verify-payment', async (req, res) => {
     }
 
     // Production payment verification
-    let session = sessions.get(sessionId);
+    if (!isTxHash(txHash)) {
+      const error = `Invalid transaction hash: ${txHash}`;
+      console.error(`[${timestamp}] ❌ ${error}`);
+      return res.status(400).json({
+        error: 'Invalid transaction hash',
+        message: 'Transaction hash appears to be invalid',
+        timestamp
+      });
+    }
+    if (!BASE_RPC_URL || !USDC_CONTRACT) {
+      console.error(`[${timestamp}] ❌ BASE_RPC_URL and USDC_CONTRACT are required for manual payment verification`);
+      return res.status(503).json({
+        error: 'Payment verification unavailable',
+        message: 'Server is not configured for on-chain verification',
+        timestamp
+      });
+    }
+
+    // Refuse a tx that already funded a different session, including an x402
+    // settlement (whose session holds the x402 nonce, not the tx hash)
+    const normalizedTxHash = txHash.toLowerCase();
+    if (await db.isTxHashRedeemed(normalizedTxHash, sessionId)) {
+      console.warn(`[${timestamp}] 🚫 txHash ${normalizedTxHash} already redeemed by another session`);
+      return res.status(409).json({
+        error: 'Transaction already used',
+        message: 'This transaction has already been redeemed for another session',
+        timestamp
+      });
+    }
+
+    const result = await verifyUsdcPayment({
+      rpcUrl: BASE_RPC_URL,
+      txHash: normalizedTxHash,
+      usdcAddress: USDC_CONTRACT,
+      recipient: PAYMENT_RECIPIENT!,
+      minAmount: ENTRY_FEE_UNITS,
+      chainId: networkChain.id,
+      minConfirmations: MIN_PAYMENT_CONFIRMATIONS
+    });
+    if (!result.ok) {
+      console.error(`[${timestamp}] ❌ On-chain verification failed for ${normalizedTxHash}: ${result.reason}`);
+      return res.status(402).json({
+        error: 'Payment not verified',
+        message: result.reason,
+        timestamp
+      });
+    }
+
+    // The payer is whoever moved the USDC, not whoever claims the session
+    const payer = result.payment.payer;
+    if ((wallet && !isSameAddress(wallet, payer)) ||
+        (existingSession?.wallet && !isSameAddress(existingSession.wallet, payer))) {
+      return res.status(403).json({
+        error: 'Wallet mismatch',
+        message: 'Transaction was not sent by this wallet',
+        timestamp
+      });
+    }
+    const ban = await db.getActiveBan(payer);
+    if (ban) {
+      console.warn(`[${timestamp}] 🚫 Manual payment refused for banned wallet ${payer}`);
+      return res.status(403).json(bannedResponse(ban));
+    }
+
+    let session: GameSession | null = existingSession;
     
     if (!session) {
       // Create a new session for manual payment
-      session = {
-        id: sessionId,
-        isPaid: false,
-        createdAt: new Date()
-      };
-      sessions.set(sessionId, session);
+      session = await sessions.create(sessionId);
       console.log(`[${timestamp}] 📝 Created new session for manual payment: ${sessionId}`);
     }
 
-    // TODO: In a real implementation, you would verify the transaction hash
-    // against the blockchain to ensure it's valid and matches the expected amount
-    // For production, implement proper blockchain verification here
-    
-    if (txHash && txHash.length > 10) { // Basic validation
-      session.isPaid = true;
-      session.paidAt = new Date();
-      
-      console.log(`[${timestamp}] ✅ Manual payment verified for session: ${sessionId}, txHash: ${txHash}, network: ${CDP_NETWORK}`);
-      
-      // Log payment settlement for production monitoring
-      if (CDP_NETWORK === 'base') {
-        console.log(`[${timestamp}] 💰 MAINNET PAYMENT SETTLED: Session=${sessionId}, TxHash=${txHash}, Amount=${ENTRY_FEE_USDC} USDC, Recipient=${CDP_RECIPIENT_ADDRESS}`);
-      }
-      // Record entry fee off-chain once per session
-      if (!recordedFeeSessions.has(sessionId)) {
-        db.recordEntryFee(ENTRY_FEE_NUM).then(() => {
-          recordedFeeSessions.add(sessionId);
-          console.log(`🧾 Recorded entry fee (manual verify): ${ENTRY_FEE_NUM} at session ${sessionId}`);
-        }).catch(err => {
-          console.error('❌ Failed to record entry fee:', err);
-        });
+    if (session.status === 'created') {
+      try {
+        session = await sessions.markPaid(sessionId, payer, normalizedTxHash);
+      } catch (err: any) {
+        // Unique payment_ref index: a concurrent request redeemed the same tx
+        if (isUniqueViolation(err)) {
+          return res.status(409).json({
+            error: 'Transaction already used',
+            message: 'This transaction has already been redeemed for another session',
+            timestamp
+          });
+        }
+        throw err;
       }
-      
-      return res.status(200).json({
-        sessionId: sessionId,
-        verified: true,
-        message: 'Payment verified successfully',
-        txHash: txHash,
-        network: CDP_NETWORK,
+    } else if (session.paymentRef !== normalizedTxHash) {
+      return res.status(409).json({
+        error: 'Invalid session',
+        message: 'Session was paid with a different transaction',
         timestamp
       });
-    } else {
-      const error = `Invalid transaction hash: ${txHash}`;
-      console.error(`[${timestamp}] ❌ ${error}`);
-      return res.status(400).json({
-        error: 'Invalid transaction hash',
-        message: 'Transaction hash appears to be invalid',
+    }
+    if (!session || !isPaidSession(session)) {
+      return res.status(409).json({
+        error: 'Invalid session',
+        message: 'Session is already closed',
         timestamp
       });
     }
     
+    console.log(`[${timestamp}] ✅ Manual payment verified for session: ${sessionId}, txHash: ${normalizedTxHash}, payer: ${payer}, network: ${CDP_NETWORK}`);
+    
+    // Log payment settlement for production monitoring
+    if (CDP_NETWORK === 'base') {
+      console.log(`[${timestamp}] 💰 MAINNET PAYMENT SETTLED: Session=${sessionId}, TxHash=${normalizedTxHash}, Amount=${result.payment.amount} units, Recipient=${PAYMENT_RECIPIENT}`);
+    }
+    recordSessionFee(session, { path: 'manual', txHash: normalizedTxHash });
+    
+    return res.status(200).json({
+      sessionId: sessionId,
+      seed: session.seed,
+      wallet: session.wallet,
+      verified: true,
+      message: 'Payment verified successfully',
+      txHash: normalizedTxHash,
+      network: CDP_NETWORK,
+      timestamp
+    });
+    
   } catch (error) {
     const errorMessage = error instanceof Error ? error.message : 'Unknown error';
     console.error(`[${timestamp}] ❌ Error during manual payment verification:`, {
@@ -340,40 +679,189 @@ app.post('/api/verify-payment', async (req, res) => {
 });
 
 // GET /api/session/:sessionId - Check session status (helper endpoint)
-app.get('/api/session/:sessionId', (req, res) => {
-  const { sessionId } = req.params;
-  const session = sessions.get(sessionId);
-  
-  if (!session) {
-    return res.status(404).json({ error: 'Session not found' });
+app.get('/api/session/:sessionId', async (req, res) => {
+  try {
+    const { sessionId } = req.params;
+    const session = await sessions.get(sessionId);
+    
+    if (!session) {
+      return res.status(404).json({ error: 'Session not found' });
+    }
+    
+    res.json(await serializeSession(session));
+  } catch (error) {
+    console.error('❌ Error fetching session:', error);
+    res.status(500).json({ error: 'Failed to fetch session' });
+  }
+});
+
+// POST /api/session/:sessionId/start - Mark a paid session as being played
+app.post('/api/session/:sessionId/start', async (req, res) => {
+  try {
+    const { sessionId } = req.params;
+    const session = await sessions.get(sessionId);
+
+    if (!session) {
+      return res.status(404).json({ error: 'Session not found' });
+    }
+    if (session.status === 'playing') {
+      return res.json(await serializeSession(session));
+    }
+
+    const updated = await sessions.markPlaying(sessionId);
+    if (!updated) {
+      return res.status(409).json({
+        error: 'Invalid session',
+        message: `Cannot start a session in status ${session.status}`
+      });
+    }
+    res.json(await serializeSession(updated));
+  } catch (error) {
+    console.error('❌ Error starting session:', error);
+    res.status(500).json({ error: 'Failed to start session' });
+  }
+});
+
+// POST /api/session/:sessionId/abandon - Give up a paid game (e.g. player left with Escape)
+app.post('/api/session/:sessionId/abandon', async (req, res) => {
+  try {
+    const { sessionId } = req.params;
+    const { wallet } = req.body || {};
+    if (!normalizeAddress(wallet)) {
+      return res.status(400).json({ error: 'Invalid wallet address', message: 'wallet must be a valid address' });
+    }
+    const session = await sessions.get(sessionId);
+
+    if (!session) {
+      return res.status(404).json({ error: 'Session not found' });
+    }
+    if (!session.wallet || !isSameAddress(wallet, session.wallet)) {
+      return res.status(403).json({
+        error: 'Wallet mismatch',
+        message: 'Only the paying wallet can abandon this session'
+      });
+    }
+
+    const abandoned = await sessions.abandon(sessionId);
+    if (!abandoned) {
+      return res.status(409).json({
+        error: 'Invalid session',
+        message: `Cannot abandon a session in status ${session.status}`
+      });
+    }
+    console.log(`🏳️  Session ${sessionId} abandoned by player (policy: ${ABANDONED_SESSION_POLICY})`);
+    res.json(await serializeSession(abandoned));
+  } catch (error) {
+    console.error('❌ Error abandoning session:', error);
+    res.status(500).json({ error: 'Failed to abandon session' });
+  }
+});
+
+// GET /api/credits/:wallet - Free-replay credits granted for abandoned sessions
+app.get('/api/credits/:wallet', async (req, res) => {
+  try {
+    const wallet = walletParam(req, res);
+    if (!wallet) return;
+    const credits = await db.countAvailableCredits(wallet);
+    res.json({ wallet, credits });
+  } catch (error) {
+    console.error('❌ Error fetching credits:', error);
+    res.status(500).json({ error: 'Failed to fetch credits' });
+  }
+});
+
+// POST /api/join-with-credit - Start a paid session by redeeming a free-replay credit
+app.post('/api/join-with-credit', async (req, res) => {
+  const { wallet, timestamp, signature } = req.body || {};
+
+  if (!wallet || typeof timestamp !== 'number' || !signature) {
+    return res.status(400).json({
+      error: 'Missing required fields',
+      message: 'wallet, timestamp and signature are required'
+    });
+  }
+  const payer = normalizeAddress(wallet);
+  if (!payer) {
+    return res.status(400).json({ error: 'Invalid wallet address', message: 'wallet must be a valid address' });
+  }
+  if (Math.abs(Date.now() - timestamp) > SIGNED_MESSAGE_MAX_AGE_MS) {
+    return res.status(400).json({ error: 'Signature expired' });
+  }
+
+  try {
+    // Credits can only be spent by the wallet that owns them. The signed
+    // message carries the address as the client sent it
+    const valid = await verifyMessage({
+      address: wallet,
+      message: buildCreditRedemptionMessage(wallet, timestamp),
+      signature
+    });
+    if (!valid) {
+      return res.status(401).json({ error: 'Invalid signature' });
+    }
+    const ban = await db.getActiveBan(payer);
+    if (ban) {
+      return res.status(403).json(bannedResponse(ban));
+    }
+
+    const session = await sessions.createFromCredit(payer);
+    if (!session) {
+      return res.status(402).json({
+        error: 'No credits',
+        message: 'No free-replay credits available for this wallet'
+      });
+    }
+    console.log(`🎟️  Created credit-funded session: ${session.id} for ${payer}`);
+
+    res.status(200).json({
+      sessionId: session.id,
+      seed: session.seed,
+      wallet: session.wallet,
+      message: 'Credit redeemed, ready to play!',
+      isPaid: true
+    });
+  } catch (error) {
+    console.error('❌ Error redeeming credit:', error);
+    res.status(500).json({ error: 'Failed to redeem credit' });
   }
-  
-  res.json({
-    sessionId: session.id,
-    isPaid: session.isPaid,
-    createdAt: session.createdAt,
-    paidAt: session.paidAt
-  });
 });
 
 // POST /api/submit-score - Submit game score and update player stats
 app.post('/api/submit-score', async (req, res) => {
   const timestamp = new Date().toISOString();
-  const { sessionId, wallet, score, gameData } = req.body;
+  const { sessionId, wallet, score, gameData, inputs } = req.body;
   
   console.log(`[${timestamp}] 🎯 Score submission:`, { sessionId, wallet, score });
   
-  if (!sessionId || !wallet || typeof score !== 'number') {
+  if (!sessionId || typeof score !== 'number') {
     return res.status(400).json({
       error: 'Missing required fields',
-      message: 'sessionId, wallet, and score are required',
+      message: 'sessionId and score are required',
+      timestamp
+    });
+  }
+
+  if (wallet && !normalizeAddress(wallet)) {
+    return res.status(400).json({
+      error: 'Invalid wallet address',
+      message: 'wallet must be a 0x-prefixed 20-byte address with a valid checksum',
       timestamp
     });
   }
 
   // Verify session exists and is paid
-  const session = sessions.get(sessionId);
-  if (!session || !session.isPaid) {
+  let session: GameSession | null;
+  try {
+    session = await sessions.get(sessionId);
+  } catch (error) {
+    console.error(`[${timestamp}] ❌ Error loading session:`, error);
+    return res.status(500).json({
+      error: 'Score submission failed',
+      message: 'Internal server error',
+      timestamp
+    });
+  }
+  if (!session || !isPaidSession(session) || !session.wallet) {
     return res.status(403).json({
       error: 'Invalid session',
       message: 'Session not found or payment not verified',
@@ -381,22 +869,101 @@ app.post('/api/submit-score', async (req, res) => {
     });
   }
 
+  // Scores are always credited to the wallet that paid for the session
+  if (wallet && !isSameAddress(wallet, session.wallet)) {
+    console.warn(`[${timestamp}] 🚫 Wallet mismatch for session ${sessionId}: ${wallet} != ${session.wallet}`);
+    return res.status(403).json({
+      error: 'Wallet mismatch',
+      message: 'Scores can only be submitted for the wallet that paid for the session',
+      timestamp
+    });
+  }
+  const payerWallet = session.wallet;
+
+  // A ban added mid-game still keeps the score off the boards
   try {
-    // Update player stats in database
-    const updatedStats = await db.updatePlayerStats(wallet, score);
-    // Also track daily stats for payout scheduler
-    await db.updateDailyPlayerStats(wallet, score);
-    
-    console.log(`[${timestamp}] ✅ Score recorded for ${wallet}: ${score} points`);
-    console.log(`[${timestamp}] 📊 Updated stats:`, updatedStats);
-    
-    // IMPORTANT: Expire the session after score submission to enforce pay-per-game
-    sessions.delete(sessionId);
+    const ban = await db.getActiveBan(payerWallet);
+    if (ban) {
+      console.warn(`[${timestamp}] 🚫 Score from banned wallet ${payerWallet} rejected`);
+      return res.status(403).json(bannedResponse(ban));
+    }
+  } catch (error) {
+    console.error(`[${timestamp}] ❌ Error checking wallet ban:`, error);
+    return res.status(500).json({
+      error: 'Score submission failed',
+      message: 'Internal server error',
+      timestamp
+    });
+  }
+
+  // Re-simulate the game from the session seed and the uploaded input log
+  const inputError = validateInputLog(inputs, MAX_REPLAY_TICKS);
+  if (inputError) {
+    return res.status(400).json({
+      error: 'Invalid input log',
+      message: inputError,
+      timestamp
+    });
+  }
+
+  const replay = replayGame(session.seed, inputs as InputEvent[], MAX_REPLAY_TICKS);
+  const mismatches = findReplayMismatches(replay, score, gameData);
+  let flagged = false;
+
+  if (mismatches.length) {
+    console.warn(`[${timestamp}] 🚩 Replay mismatch for session ${sessionId}:`, mismatches);
+    if (REPLAY_VERIFICATION_MODE === 'enforce') {
+      return res.status(422).json({
+        error: 'Score verification failed',
+        message: 'Submitted game does not match server replay',
+        mismatches,
+        timestamp
+      });
+    }
+    flagged = true;
+  }
+
+  // Only the replayed score is ever recorded
+  const verifiedScore = replay.score;
+
+  try {
+    // IMPORTANT: The session is closed in the same transaction that records the
+    // game, enforcing pay-per-game; a concurrent duplicate submission finds it
+    // closed, and a failed write leaves it open so the player can resubmit
+    const recorded = await sessions.submit({
+      sessionId,
+      wallet: payerWallet,
+      score: verifiedScore,
+      durationMs: replay.durationMs,
+      foodEaten: replay.foodEaten,
+      maxLength: replay.maxLength,
+      moves: replay.ticks,
+      collisionType: replay.collisionType ?? undefined,
+      flagged,
+      paymentRef: session.paymentRef,
+      playedAt: session.startedAt ?? session.paidAt ?? Date.now(),
+      submittedAt: Date.now()
+    });
+    if (!recorded) {
+      return res.status(409).json({
+        error: 'Invalid session',
+        message: 'Score already submitted for this session',
+        timestamp
+      });
+    }
+    const { gameId, playerStats: updatedStats } = recorded;
     console.log(`[${timestamp}] 🔒 Session ${sessionId} expired - payment required for next game`);
+
+    console.log(`[${timestamp}] ✅ Score recorded for ${payerWallet}: ${verifiedScore} points${flagged ? ' (flagged)' : ''}`);
+    console.log(`[${timestamp}] 📊 Updated stats:`, updatedStats);
     
     res.status(200).json({
       success: true,
       message: 'Score submitted successfully',
+      score: verifiedScore,
+      gameId,
+      flagged,
+      mismatches: flagged ? mismatches : undefined,
       playerStats: updatedStats,
       sessionExpired: true, // Notify frontend that session is expired
       timestamp
@@ -411,12 +978,25 @@ app.post('/api/submit-score', async (req, res) => {
   }
 });
 
-// Helper to append a JSON line to payouts.log
-function appendPayoutLog(entry: any) {
-  const line = JSON.stringify(entry) + '\n';
-  fs.appendFile(payoutsLogPath, line, (err) => {
-    if (err) console.error('❌ Failed to write payouts.log:', err);
-  });
+// Compare the client's claimed result with the server replay
+function findReplayMismatches(replay: ReplayResult, score: number, gameData?: Partial<GameData>): string[] {
+  const mismatches: string[] = [];
+  if (!replay.gameOver) {
+    mismatches.push('replay did not end in a collision');
+  }
+  if (replay.score !== score) {
+    mismatches.push(`score: claimed ${score}, replayed ${replay.score}`);
+  }
+  if (gameData?.maxLength !== undefined && gameData.maxLength !== replay.maxLength) {
+    mismatches.push(`maxLength: claimed ${gameData.maxLength}, replayed ${replay.maxLength}`);
+  }
+  if (gameData?.collisionType !== undefined && gameData.collisionType !== replay.collisionType) {
+    mismatches.push(`collisionType: claimed ${gameData.collisionType}, replayed ${replay.collisionType}`);
+  }
+  if (gameData?.moves !== undefined && gameData.moves !== replay.ticks) {
+    mismatches.push(`moves: claimed ${gameData.moves}, replayed ${replay.ticks}`);
+  }
+  return mismatches;
 }
 
 // Build a BaseScan URL for a transaction hash based on configured network
@@ -427,168 +1007,473 @@ function buildExplorerTxLink(txHash: string | undefined) {
   return `${baseUrl}${txHash}`;
 }
 
-// 24h payout scheduler
-let isPayoutRunning = false;
-async function runPayoutCycle() {
-  const now = Date.now();
-  const timestampISO = new Date(now).toISOString();
-  console.log(`⏳ Running payout cycle at ${timestampISO}`);
-  const cutoff = now - 24 * 60 * 60 * 1000;
+// Payout scheduler: wakes at each PAYOUT_SCHEDULE time (UTC) or batch retry,
+// and catches up anything missed while the server was down
+const PAYOUT_RETRY_MS = 5 * 60 * 1000;
+const MAX_TIMER_DELAY_MS = 24 * 60 * 60 * 1000; // setTimeout overflows past ~24.8 days
+let payoutTimer: NodeJS.Timeout | null = null;
+
+// Close a cycle at windowEnd (null: only send due batches)
+async function runPayoutCycle(windowEnd: number | null = Date.now()) {
+  console.log(`⏳ Running payout cycle at ${new Date().toISOString()}`);
+  const result = await payouts.run(windowEnd);
+  if (!result) {
+    console.log('ℹ️ Payout cycle already running; skipping');
+    return result;
+  }
+  const failed = result.batches.filter(batch => batch.status === 'failed');
+  const retrying = result.batches.filter(batch => batch.status === 'pending' || batch.status === 'submitted');
+  if (failed.length) {
+    console.error(`❌ ${failed.length} payout batches failed; re-drive them with POST /admin/payouts/batches/retry`);
+  }
+  if (retrying.length) {
+    console.log(`🔁 ${retrying.length} payout batches will be retried`);
+  }
+  return result;
+}
 
+async function schedulePayouts() {
+  if (payoutTimer) clearTimeout(payoutTimer);
   try {
-    const totalPool = await db.getTotalEntryFeesSince(cutoff);
-    const poolTotal = totalPool * 0.70;
-    const poolHigh = totalPool * 0.25;
-    const poolTreasury = totalPool * 0.05;
+    const result = await runPayoutCycle(await payouts.getDueWindowEnd());
+    // Sleep until the next scheduled close or batch retry; back off if another instance holds the lock
+    let nextRunAt = await payouts.getNextRunAt();
+    if (!result || nextRunAt <= Date.now()) nextRunAt = Math.max(nextRunAt, Date.now() + PAYOUT_RETRY_MS);
+    const delay = Math.min(Math.max(nextRunAt - Date.now(), 0), MAX_TIMER_DELAY_MS);
+    payoutTimer = setTimeout(schedulePayouts, delay);
+    console.log(`⏱️  Payout scheduler next run: ${new Date(nextRunAt).toISOString()}`);
+  } catch (err) {
+    console.error('❌ Payout scheduler failed:', err);
+    payoutTimer = setTimeout(schedulePayouts, PAYOUT_RETRY_MS);
+  }
+}
 
-    const sumTotalScores = await db.getDailyScoresSum('total');
-    const sumHighScores = await db.getDailyScoresSum('high');
-    const totalEntries = await db.getDailyLeaderboard('total', 1000);
-    const highEntries = await db.getDailyLeaderboard('high', 1000);
+async function getPayoutStatus() {
+  const { lastPayoutAt, nextPayoutAt, lastTxHash } = await payouts.getSchedule();
+  return {
+    lastPayoutAt,
+    nextPayoutAt,
+    lastPayoutAtISO: new Date(lastPayoutAt).toISOString(),
+    nextPayoutAtISO: new Date(nextPayoutAt).toISOString(),
+    lastTxHash,
+    lastTxLink: buildExplorerTxLink(lastTxHash ?? undefined),
+  };
+}
 
-    const rewardTotalMap = new Map<string, number>();
-    const rewardHighMap = new Map<string, number>();
+// Background indexer: pull new PrizePool events for reconciliation
+async function syncChainEvents() {
+  try {
+    await reconciler?.sync();
+  } catch (err) {
+    console.error('❌ PrizePool event sync failed:', err);
+  }
+}
 
-    if (sumTotalScores > 0 && poolTotal > 0) {
-      totalEntries.forEach(e => {
-        const share = (e.score / sumTotalScores) * poolTotal;
-        rewardTotalMap.set(e.wallet, share);
-      });
+// Background sweeper: expire unpaid sessions and abandon stale paid ones
+async function sweepSessions() {
+  try {
+    const { expired, abandoned } = await sessions.sweep();
+    if (expired || abandoned) {
+      console.log(`🧹 Session sweep: ${expired} expired, ${abandoned} abandoned`);
     }
+  } catch (err) {
+    console.error('❌ Session sweep failed:', err);
+  }
+}
 
-    // Dynamic high-score pool (25%) distribution for top 3 players
-    // 1 player: 100%
-    // 2 players: 70% / 30%
-    // 3+ players: 60% / 25% / 15% to top 3 only
-    if (poolHigh > 0 && highEntries.length > 0) {
-      const top = highEntries.slice(0, Math.min(3, highEntries.length));
-      if (top.length === 1) {
-        rewardHighMap.set(top[0].wallet, poolHigh);
-      } else if (top.length === 2) {
-        rewardHighMap.set(top[0].wallet, poolHigh * 0.70);
-        rewardHighMap.set(top[1].wallet, poolHigh * 0.30);
-      } else {
-        rewardHighMap.set(top[0].wallet, poolHigh * 0.60);
-        rewardHighMap.set(top[1].wallet, poolHigh * 0.25);
-        rewardHighMap.set(top[2].wallet, poolHigh * 0.15);
-      }
+// Admin auth middleware using bearer or x-admin-token header. The token must
+// carry `scope` when one is given; its name is kept in res.locals.admin.
+// Denied attempts are audited as 'access-denied' (actor 'unknown' for a bad token).
+function requireAdmin(scope?: AdminScope) {
+  return (req: express.Request, res: express.Response, next: express.NextFunction) => {
+    if (!adminTokens.length) {
+      return res.status(503).json({ error: 'Admin disabled (missing ADMIN_TOKENS or ADMIN_TOKEN)' });
+    }
+    const bearer = (req.headers.authorization || '').replace(/^Bearer\s+/i, '');
+    const header = req.get('x-admin-token');
+    const admin = findAdminToken(adminTokens, bearer || header || '');
+    const deny = (actor: string, status: number, body: Record<string, string>) => {
+      recordAudit('access-denied', actor, { method: req.method, path: req.path, scope: scope ?? null }, status, body);
+      return res.status(status).json(body);
+    };
+    if (!admin) {
+      console.warn(`🚫 Admin request with an unknown token denied ${req.method} ${req.path}`);
+      return deny('unknown', 401, { error: 'Unauthorized' });
     }
+    if (scope && !admin.scopes.includes(scope)) {
+      console.warn(`🚫 Admin token "${admin.name}" denied ${req.method} ${req.path} (needs ${scope} scope)`);
+      return deny(admin.name, 403, { error: 'Forbidden', message: `Token "${admin.name}" does not have the ${scope} scope` });
+    }
+    res.locals.admin = admin.name;
+    next();
+  };
+}
 
-    const wallets = new Set<string>([...rewardTotalMap.keys(), ...rewardHighMap.keys()]);
-    const winnersArray: string[] = [];
-    const rewardsArray: bigint[] = [];
-    const usdcDecimals = 6; // Base USDC uses 6 decimals
-    const toUnits = (x: number) => BigInt(Math.round(x * Math.pow(10, usdcDecimals)));
-    wallets.forEach(wallet => {
-      const totalScore = (totalEntries.find(e => e.wallet === wallet)?.score) || 0;
-      const highScore = (highEntries.find(e => e.wallet === wallet)?.score) || 0;
-      const reward = (rewardTotalMap.get(wallet) || 0) + (rewardHighMap.get(wallet) || 0);
+// Record the request in the admin audit log once the response is sent,
+// whatever its outcome. Every admin route that changes state is a POST with
+// this middleware.
+function audited(action: string) {
+  return (req: express.Request, res: express.Response, next: express.NextFunction) => {
+    let result: unknown = null;
+    const json = res.json.bind(res);
+    res.json = (body: unknown) => {
+      result = body;
+      return json(body);
+    };
+    res.once('finish', () => {
+      const params = { ...req.query, ...(req.body && typeof req.body === 'object' ? req.body : {}) };
+      recordAudit(action, res.locals.admin, params, res.statusCode, result);
+    });
+    next();
+  };
+}
 
-      // Collect for on-chain call
-      winnersArray.push(wallet);
-      rewardsArray.push(toUnits(reward));
+function recordAudit(action: string, actor: string, params: Record<string, unknown>, status: number, result: unknown) {
+  db.recordAdminAction({ action, actor, params, status, result, createdAt: Date.now() })
+    .catch(err => console.error(`❌ Failed to write admin audit entry for ${action}:`, err));
+}
 
-      // Still log the computed rewards in human units for audit
-      appendPayoutLog({
-        wallet,
-        totalScore,
-        highScore,
-        reward: reward.toFixed(6),
-        timestamp: timestampISO,
-      });
+// ADMIN: Trigger payout immediately and start a new cycle
+app.post('/admin/run-payout', requireAdmin('payout'), audited('run-payout'), async (req, res) => {
+  try {
+    if (payouts.isRunning) {
+      return res.status(409).json({ error: 'Payout already running' });
+    }
+    const result = await runPayoutCycle();
+    if (!result) {
+      return res.status(409).json({ error: 'Payout already running' });
+    }
+    if (!result.cycle && result.batches.length === 0) {
+      return res.status(409).json({ error: 'Nothing to pay out' });
+    }
+    res.json({
+      status: !result.cycle || result.cycle.status === 'completed' ? 'ok' : result.cycle.status,
+      cycleId: result.cycle?.id ?? null,
+      batches: result.batches.map(formatPayoutBatch),
+      ...(await getPayoutStatus()),
     });
+  } catch (error) {
+    console.error('❌ Error running manual payout:', error);
+    res.status(500).json({ error: 'Manual payout failed' });
+  }
+});
 
-    // Log treasury allocation separately
-    appendPayoutLog({ type: 'treasury', amount: poolTreasury.toFixed(6), timestamp: timestampISO });
+function formatPayoutBatch(batch: PayoutBatch) {
+  const { signedTx, ...rest } = batch;
+  return { ...rest, txLink: buildExplorerTxLink(batch.txHash) };
+}
 
-    // On-chain endCycle call (optional, gated by env)
-    if (ENABLE_ONCHAIN_PAYOUTS && PRIZE_POOL_CONTRACT && PRIVATE_KEY && BASE_RPC_URL) {
-      try {
-        const abi = [
-          'function endCycle(address[] winners, uint256[] rewards) external',
-          'event Payout(address indexed to, uint256 amount)'
-        ];
-        const provider = new JsonRpcProvider(BASE_RPC_URL);
-        const wallet = new Wallet(PRIVATE_KEY!, provider);
-        const prizePool = new Contract(PRIZE_POOL_CONTRACT!, abi, wallet);
-        const tx = await prizePool.endCycle(winnersArray, rewardsArray);
-        const receipt = await tx.wait();
-        const txLink = buildExplorerTxLink(tx.hash);
-        appendPayoutLog({ type: 'onchain_endCycle', txHash: tx.hash, txLink, status: receipt?.status, timestamp: timestampISO });
-        lastTxHash = tx.hash;
-        lastTxLink = txLink;
-        console.log(`🔗 endCycle tx: ${tx.hash}${txLink ? ` | ${txLink}` : ''}`);
-      } catch (err) {
-        console.error('❌ On-chain endCycle failed:', err);
-        appendPayoutLog({ type: 'onchain_endCycle_error', error: (err as Error).message, timestamp: timestampISO });
-      }
-    } else {
-      console.log('ℹ️ On-chain payouts disabled or missing config; logged rewards only.');
+// ADMIN: List payout batches, e.g. ?status=failed or ?cycleId=12
+app.get('/admin/payouts/batches', requireAdmin('payout'), async (req, res) => {
+  const { status, cycleId } = req.query as Record<string, string | undefined>;
+  if (status && !['pending', 'submitted', 'confirmed', 'failed'].includes(status)) {
+    return res.status(400).json({ error: 'status must be pending, submitted, confirmed or failed' });
+  }
+  try {
+    const batches = await db.getPayoutBatches({
+      status: status as PayoutBatchStatus | undefined,
+      cycleId: cycleId ? parseInt(cycleId) : undefined,
+    });
+    res.json({ batches: batches.map(formatPayoutBatch), count: batches.length });
+  } catch (error) {
+    console.error('❌ Error fetching payout batches:', error);
+    res.status(500).json({ error: 'Failed to fetch payout batches' });
+  }
+});
+
+// ADMIN: Re-drive failed batches (all, one cycle's, or one batch) with fresh attempts
+app.post('/admin/payouts/batches/retry', requireAdmin('payout'), audited('retry-payout-batches'), async (req, res) => {
+  const { cycleId, batchId } = req.body || {};
+  if ((cycleId !== undefined && !Number.isInteger(cycleId)) || (batchId !== undefined && !Number.isInteger(batchId))) {
+    return res.status(400).json({ error: 'cycleId and batchId must be integers' });
+  }
+  try {
+    if (payouts.isRunning) {
+      return res.status(409).json({ error: 'Payout already running' });
     }
+    const requeued = await db.requeueFailedPayoutBatches({ cycleId, batchId });
+    if (requeued.length === 0) {
+      return res.status(404).json({ error: 'No failed batches matched' });
+    }
+    console.log(`🔁 Re-driving ${requeued.length} failed payout batches`);
+    const result = await runPayoutCycle(null);
+    res.json({
+      requeued: requeued.length,
+      // null when another instance holds the lock; the batches are picked up on its next run
+      batches: result ? result.batches.map(formatPayoutBatch) : null,
+    });
+  } catch (error) {
+    console.error('❌ Error re-driving payout batches:', error);
+    res.status(500).json({ error: 'Failed to re-drive payout batches' });
+  }
+});
 
-    // Reset daily leaderboard stats (keep lifetime intact)
-    await db.resetDailyStats();
+// ADMIN: Show what the current daily leaderboard would pay under a candidate
+// policy (merged over the active one) next to the active policy. Nothing is paid.
+app.post('/admin/payouts/dry-run', requireAdmin('payout'), audited('payout-dry-run'), async (req, res) => {
+  const parsed = parsePayoutPolicy(req.body?.policy, payouts.policy);
+  if (!parsed.policy) {
+    return res.status(400).json({ error: 'Invalid payout policy', details: parsed.errors });
+  }
+  try {
+    const now = Date.now();
+    const [candidate, current] = await Promise.all([
+      payouts.preview(parsed.policy, now),
+      payouts.preview(payouts.policy, now),
+    ]);
+    res.json({ candidate, current });
+  } catch (error) {
+    console.error('❌ Error running payout dry run:', error);
+    res.status(500).json({ error: 'Payout dry run failed' });
+  }
+});
 
-    lastPayoutAt = now;
-    nextPayoutAt = now + 24 * 60 * 60 * 1000;
-    console.log(`✅ Payout cycle completed. Next at ${new Date(nextPayoutAt).toISOString()}`);
-  } catch (err) {
-    console.error('❌ Payout cycle failed:', err);
+// ADMIN: Compare indexed PrizePool events with payout batches, claims, entry fees
+// and treasury shares, as indexed so far (POST /admin/reconciliation/sync to catch up)
+app.get('/admin/reconciliation', requireAdmin('payout'), async (req, res) => {
+  if (!reconciler) {
+    return res.status(503).json({ error: 'Reconciliation disabled (missing BASE_RPC_URL or PRIZE_POOL_CONTRACT)' });
   }
-}
+  if (req.query.sync !== undefined) {
+    return res.status(400).json({ error: 'Syncing indexes new events; use POST /admin/reconciliation/sync' });
+  }
+  try {
+    const report = await reconciler.reconcile();
+    res.json({ ...report, mismatchCount: report.mismatches.length, timestamp: new Date().toISOString() });
+  } catch (error) {
+    console.error('❌ Error reconciling payouts:', error);
+    res.status(500).json({ error: 'Reconciliation failed' });
+  }
+});
+
+// ADMIN: Index PrizePool events up to the chain head, then reconcile
+app.post('/admin/reconciliation/sync', requireAdmin('payout'), audited('reconciliation-sync'), async (req, res) => {
+  if (!reconciler) {
+    return res.status(503).json({ error: 'Reconciliation disabled (missing BASE_RPC_URL or PRIZE_POOL_CONTRACT)' });
+  }
+  try {
+    const indexed = await reconciler.sync();
+    const report = await reconciler.reconcile();
+    res.json({ indexed, ...report, mismatchCount: report.mismatches.length, timestamp: new Date().toISOString() });
+  } catch (error) {
+    console.error('❌ Error syncing and reconciling payouts:', error);
+    res.status(500).json({ error: 'Reconciliation failed' });
+  }
+});
 
-// Kick off the 24-hour scheduler
-setInterval(runPayoutCycle, 24 * 60 * 60 * 1000);
+// ADMIN: Index PrizePool events from a block range, e.g. {"fromBlock": 100, "toBlock": 5000}
+app.post('/admin/reconciliation/backfill', requireAdmin('payout'), audited('reconciliation-backfill'), async (req, res) => {
+  if (!reconciler) {
+    return res.status(503).json({ error: 'Reconciliation disabled (missing BASE_RPC_URL or PRIZE_POOL_CONTRACT)' });
+  }
+  const { fromBlock, toBlock } = req.body || {};
+  if (!Number.isInteger(fromBlock) || !Number.isInteger(toBlock) || fromBlock < 0 || toBlock < fromBlock) {
+    return res.status(400).json({ error: 'fromBlock and toBlock must be integers with 0 <= fromBlock <= toBlock' });
+  }
+  try {
+    const indexed = await reconciler.backfill(fromBlock, toBlock);
+    res.json({ indexed, fromBlock, toBlock });
+  } catch (error) {
+    console.error('❌ Error backfilling PrizePool events:', error);
+    res.status(500).json({ error: 'Backfill failed' });
+  }
+});
 
-// Simple admin auth middleware using bearer or x-admin-token header
-function requireAdmin(req: express.Request, res: express.Response, next: express.NextFunction) {
-  if (!ADMIN_TOKEN) {
-    return res.status(503).json({ error: 'Admin disabled (missing ADMIN_TOKEN)' });
+// Create a season. Scores submitted between startsAt and endsAt count towards it.
+app.post('/admin/seasons', requireAdmin('payout'), audited('create-season'), async (req, res) => {
+  const { name, startsAt, endsAt, prizePool = 0 } = req.body || {};
+  const start = typeof startsAt === 'string' ? Date.parse(startsAt) : Number(startsAt);
+  const end = typeof endsAt === 'string' ? Date.parse(endsAt) : Number(endsAt);
+  if (typeof name !== 'string' || !name.trim()) {
+    return res.status(400).json({ error: 'Invalid season', message: 'name is required' });
   }
-  const bearer = (req.headers.authorization || '').replace(/^Bearer\s+/i, '');
-  const header = req.get('x-admin-token');
-  const token = bearer || header || '';
-  if (token !== ADMIN_TOKEN) {
-    return res.status(401).json({ error: 'Unauthorized' });
+  if (!Number.isFinite(start) || !Number.isFinite(end) || end <= start) {
+    return res.status(400).json({ error: 'Invalid season', message: 'startsAt and endsAt must be dates with endsAt after startsAt' });
+  }
+  if (typeof prizePool !== 'number' || !Number.isFinite(prizePool) || prizePool < 0) {
+    return res.status(400).json({ error: 'Invalid season', message: 'prizePool must be a non-negative USDC amount' });
   }
-  next();
-}
 
-// ADMIN: Trigger payout immediately and start a new cycle
-app.post('/admin/run-payout', requireAdmin, async (req, res) => {
   try {
-    if (isPayoutRunning) {
-      return res.status(409).json({ error: 'Payout already running' });
+    if (await db.getSeasonByName(name.trim())) {
+      return res.status(409).json({ error: 'Season exists', message: `A season named "${name.trim()}" already exists` });
     }
-    isPayoutRunning = true;
-    await runPayoutCycle();
-    isPayoutRunning = false;
+    const season = await db.createSeason({ name: name.trim(), startsAt: start, endsAt: end, prizePool });
+    console.log(`🏁 Created season "${season.name}" (#${season.id}) ${new Date(start).toISOString()} - ${new Date(end).toISOString()}`);
+    res.status(201).json({ season });
+  } catch (error) {
+    console.error('❌ Error creating season:', error);
+    res.status(500).json({ error: 'Failed to create season' });
+  }
+});
+
+// ADMIN: List refunds queued for abandoned paid sessions
+app.get('/admin/refunds', requireAdmin('payout'), async (req, res) => {
+  try {
+    const status = req.query.status === 'all' ? undefined : 'queued';
+    const refunds = await db.getCompensations('refund', status);
+    res.json({ refunds, count: refunds.length });
+  } catch (error) {
+    console.error('❌ Error fetching refunds:', error);
+    res.status(500).json({ error: 'Failed to fetch refunds' });
+  }
+});
+
+// ADMIN: Query the entry-fee ledger (since/until in epoch ms)
+app.get('/admin/entry-fees', requireAdmin('payout'), async (req, res) => {
+  const { wallet, sessionId, txHash, path, since, until } = req.query as Record<string, string | undefined>;
+  if (path && !['x402', 'manual', 'sandbox'].includes(path)) {
+    return res.status(400).json({ error: 'path must be x402, manual or sandbox' });
+  }
+  if (wallet && !normalizeAddress(wallet)) {
+    return res.status(400).json({ error: 'wallet must be a valid address' });
+  }
+  const sinceMs = epochMsParam(since);
+  const untilMs = epochMsParam(until);
+  if (Number.isNaN(sinceMs) || Number.isNaN(untilMs)) {
+    return res.status(400).json({ error: 'since and until must be epoch-millisecond integers' });
+  }
+  try {
+    const limit = Math.min(parseInt(String(req.query.limit || '50')) || 50, 500);
+    const offset = Math.max(parseInt(String(req.query.offset || '0')) || 0, 0);
+    const result = await db.getEntryFees({
+      wallet,
+      sessionId,
+      txHash,
+      paymentPath: path as PaymentPath | undefined,
+      since: sinceMs,
+      until: untilMs,
+      limit,
+      offset
+    });
+    res.json({ ...result, limit, offset });
+  } catch (error) {
+    console.error('❌ Error fetching entry fees:', error);
+    res.status(500).json({ error: 'Failed to fetch entry fees' });
+  }
+});
+
+// Expose payout scheduler status for countdown timer
+app.get('/payouts/status', async (req, res) => {
+  try {
+    res.json(await getPayoutStatus());
+  } catch (error) {
+    console.error('❌ Error fetching payout status:', error);
+    res.status(500).json({ error: 'Failed to fetch payout status' });
+  }
+});
+
+// Projected rewards if the current cycle closed now (no side effects)
+app.get('/payouts/preview', async (req, res) => {
+  try {
+    const { policy, ...preview } = await payouts.preview();
+    const { nextPayoutAt } = await payouts.getSchedule();
+    res.json({ ...preview, nextPayoutAt, timestamp: new Date().toISOString() });
+  } catch (error) {
+    console.error('❌ Error computing payout preview:', error);
+    res.status(500).json({ error: 'Failed to compute payout preview' });
+  }
+});
+
+// Projected reward for a single wallet
+app.get('/payouts/preview/:wallet', async (req, res) => {
+  try {
+    const wallet = walletParam(req, res);
+    if (!wallet) return;
+    const preview = await payouts.preview();
+    const { nextPayoutAt } = await payouts.getSchedule();
+    const reward = preview.rewards.find(r => isSameAddress(r.wallet, wallet));
     res.json({
-      status: 'ok',
-      lastPayoutAt,
+      wallet,
+      projectedReward: reward?.reward ?? 0,
+      rewardTotal: reward?.rewardTotal ?? 0,
+      rewardHigh: reward?.rewardHigh ?? 0,
+      totalScore: reward?.totalScore ?? 0,
+      highScore: reward?.highScore ?? 0,
+      totalPool: preview.totalPool,
+      poolTreasury: preview.poolTreasury,
+      windowStart: preview.windowStart,
+      windowEnd: preview.windowEnd,
       nextPayoutAt,
-      lastPayoutAtISO: new Date(lastPayoutAt).toISOString(),
-      nextPayoutAtISO: new Date(nextPayoutAt).toISOString(),
-      lastTxHash,
-      lastTxLink,
+      timestamp: new Date().toISOString()
     });
   } catch (error) {
-    isPayoutRunning = false;
-    console.error('❌ Error running manual payout:', error);
-    res.status(500).json({ error: 'Manual payout failed' });
+    console.error('❌ Error computing wallet payout preview:', error);
+    res.status(500).json({ error: 'Failed to compute payout preview' });
   }
 });
 
-// Expose payout scheduler status for countdown timer
-app.get('/payouts/status', (req, res) => {
-  res.json({
-    lastPayoutAt,
-    nextPayoutAt,
-    lastPayoutAtISO: new Date(lastPayoutAt).toISOString(),
-    nextPayoutAtISO: new Date(nextPayoutAt).toISOString(),
-    lastTxHash,
-    lastTxLink,
-  });
+function parsePagination(query: express.Request['query'], defaultLimit = 20) {
+  const limit = Math.min(Math.max(parseInt(String(query.limit || defaultLimit)) || defaultLimit, 1), 100);
+  const offset = Math.max(parseInt(String(query.offset || '0')) || 0, 0);
+  return { limit, offset };
+}
+
+// Past payout cycles, newest first, with their winners
+app.get('/payouts/history', async (req, res) => {
+  try {
+    const { limit, offset } = parsePagination(req.query);
+    const { cycles, total } = await db.getPayoutCycles(limit, offset);
+    const entries = await Promise.all(cycles.map(async cycle => ({
+      cycleId: cycle.id,
+      windowStart: cycle.windowStart,
+      windowEnd: cycle.windowEnd,
+      status: cycle.status,
+      onchainStatus: cycle.onchainStatus,
+      totalPool: cycle.totalPool,
+      poolTotal: cycle.poolTotal,
+      poolHigh: cycle.poolHigh,
+      poolTreasury: cycle.poolTreasury,
+      winnerCount: cycle.winnerCount,
+      mode: cycle.mode,
+      merkleRoot: cycle.merkleRoot,
+      txHash: cycle.txHash,
+      txLink: buildExplorerTxLink(cycle.txHash),
+      completedAt: cycle.completedAt,
+      winners: (await db.getPayoutItems(cycle.id)).map(item => ({
+        wallet: item.wallet,
+        totalScore: item.totalScore,
+        highScore: item.highScore,
+        reward: item.reward,
+      })),
+      batches: (await db.getPayoutBatches({ cycleId: cycle.id })).map(batch => ({
+        batchIndex: batch.batchIndex,
+        status: batch.status,
+        walletCount: batch.walletCount,
+        txHash: batch.txHash,
+        txLink: buildExplorerTxLink(batch.txHash),
+      })),
+    })));
+    res.json({ cycles: entries, total, limit, offset, timestamp: new Date().toISOString() });
+  } catch (error) {
+    console.error('❌ Error fetching payout history:', error);
+    res.status(500).json({ error: 'Failed to fetch payout history' });
+  }
+});
+
+// Merkle proof for claiming cumulative rewards from the prize pool (claim mode)
+app.get('/payouts/proof/:wallet', async (req, res) => {
+  try {
+    const wallet = walletParam(req, res);
+    if (!wallet) return;
+    const claim = await payouts.getClaimProof(wallet);
+    if (!claim) {
+      return res.status(404).json({
+        error: 'No claimable rewards',
+        message: 'No published Merkle root includes this wallet',
+        timestamp: new Date().toISOString()
+      });
+    }
+    res.json({
+      ...claim,
+      cumulativeAmount: Number(claim.cumulativeUnits) / 1e6,
+      contract: PRIZE_POOL_CONTRACT || null,
+      timestamp: new Date().toISOString()
+    });
+  } catch (error) {
+    console.error('❌ Error building claim proof:', error);
+    res.status(500).json({ error: 'Failed to build claim proof' });
+  }
 });
 
 // SSE: broadcast Payout events to clients (requires BASE_WS_URL)
@@ -716,10 +1601,139 @@ app.get('/leaderboard/daily/high', async (req, res) => {
   }
 });
 
+// GET /leaderboard/daily/dates - Days with an archived daily leaderboard, newest first
+app.get('/leaderboard/daily/dates', async (req, res) => {
+  try {
+    const { limit } = parsePagination(req.query, 60);
+    res.json({ dates: await db.getArchivedDailyDates(limit) });
+  } catch (error) {
+    console.error('❌ Error fetching archived leaderboard dates:', error);
+    res.status(500).json({ error: 'Failed to fetch archived leaderboard dates' });
+  }
+});
+
+// GET /leaderboard/daily/:date/:type - Final daily standings archived before the reset
+app.get('/leaderboard/daily/:date/:type', async (req, res) => {
+  const { date, type } = req.params;
+  if (type !== 'total' && type !== 'high') {
+    return res.status(404).json({ error: 'Unknown leaderboard', message: 'Use /leaderboard/daily/:date/{total|high}' });
+  }
+  if (parseDate(date) === null) {
+    return res.status(400).json({ error: 'Invalid date', message: 'date must be YYYY-MM-DD' });
+  }
+
+  try {
+    const limit = parseInt(req.query.limit as string) || 10;
+    const entries = await db.getArchivedDailyLeaderboard(date, type, limit);
+    res.json({
+      entries,
+      date,
+      cycleIds: await db.getArchivedDailyCycleIds(date),
+      archived: true,
+      type: `daily_${type}`
+    });
+  } catch (error) {
+    console.error(`❌ Error fetching archived daily ${type} leaderboard:`, error);
+    res.status(500).json({ error: 'Failed to fetch archived daily leaderboard' });
+  }
+});
+
+// GET /leaderboard/:period/:type - Weekly, monthly or seasonal leaderboard
+// ?date=YYYY-MM-DD picks the week or month containing that day (default: now);
+// ?season=<id> picks a season (default: the current one)
+app.get('/leaderboard/:period/:type', async (req, res) => {
+  const period = req.params.period as LeaderboardPeriod;
+  const type = req.params.type;
+  if (!LEADERBOARD_PERIODS.includes(period) || (type !== 'total' && type !== 'high')) {
+    return res.status(404).json({
+      error: 'Unknown leaderboard',
+      message: `Use /leaderboard/{${LEADERBOARD_PERIODS.join('|')}}/{total|high}`
+    });
+  }
+
+  try {
+    const limit = parseInt(req.query.limit as string) || 10;
+    let window: PeriodWindow;
+    let season;
+    if (period === 'season') {
+      season = req.query.season
+        ? await db.getSeason(parseInt(String(req.query.season)))
+        : (await db.getActiveSeasons())[0];
+      if (!season) {
+        return res.status(404).json({
+          error: 'Season not found',
+          message: req.query.season ? `No season with id ${req.query.season}` : 'No season is currently running'
+        });
+      }
+      window = { key: seasonKey(season.id), start: season.startsAt, end: season.endsAt };
+    } else {
+      const at = req.query.date ? parseDate(String(req.query.date)) : Date.now();
+      if (at === null) {
+        return res.status(400).json({ error: 'Invalid date', message: 'date must be YYYY-MM-DD' });
+      }
+      window = period === 'weekly' ? weekWindow(at) : monthWindow(at);
+    }
+
+    const entries = await db.getPeriodLeaderboard(window.key, type, limit);
+    let rewards;
+    if (season && season.prizePool > 0) {
+      // Projected split of the season's prize pool if it ended now
+      const payout = computePayout(
+        payouts.policy,
+        season.prizePool,
+        await db.getPeriodLeaderboard(window.key, 'total', 1000),
+        await db.getPeriodLeaderboard(window.key, 'high', 1000)
+      );
+      rewards = new Map(payout.rewards.map(r => [r.wallet, r.reward]));
+    }
+
+    res.json({
+      entries: rewards ? entries.map(e => ({ ...e, projectedReward: rewards.get(e.wallet) ?? 0 })) : entries,
+      period,
+      key: window.key,
+      start: window.start,
+      end: window.end,
+      players: await db.getPeriodPlayerCount(window.key),
+      season,
+      lastUpdated: new Date(),
+      type: `${period}_${type}`
+    });
+  } catch (error) {
+    console.error(`❌ Error fetching ${period} ${type} leaderboard:`, error);
+    res.status(500).json({ error: `Failed to fetch ${period} leaderboard` });
+  }
+});
+
+// GET /seasons - All seasons, newest first
+app.get('/seasons', async (req, res) => {
+  try {
+    const now = Date.now();
+    const seasons = await db.getSeasons();
+    res.json({
+      seasons: seasons.map(season => ({ ...season, active: season.startsAt <= now && now < season.endsAt }))
+    });
+  } catch (error) {
+    console.error('❌ Error fetching seasons:', error);
+    res.status(500).json({ error: 'Failed to fetch seasons' });
+  }
+});
+
+// Rewards below PAYOUT_MIN_AMOUNT waiting to be paid with a later cycle
+async function getPendingBalance(wallet: string) {
+  const balance = await db.getWalletBalance(wallet);
+  const pendingBalanceUnits = balance?.pendingUnits ?? '0';
+  return {
+    pendingBalance: Number(pendingBalanceUnits) / 1e6,
+    pendingBalanceUnits,
+    minPayout: PAYOUT_MIN_AMOUNT,
+  };
+}
+
 // GET /player/:wallet - Get individual player stats
 app.get('/player/:wallet', async (req, res) => {
   try {
-    const { wallet } = req.params;
+    const wallet = walletParam(req, res);
+    if (!wallet) return;
     const stats = await db.getPlayerStats(wallet);
     
     if (!stats) {
@@ -729,17 +1743,81 @@ app.get('/player/:wallet', async (req, res) => {
       });
     }
     
-    res.json(stats);
+    res.json({ ...stats, ...(await getPendingBalance(wallet)) });
   } catch (error) {
     console.error('❌ Error fetching player stats:', error);
     res.status(500).json({ error: 'Failed to fetch player stats' });
   }
 });
 
+// GET /player/:wallet/earnings - Lifetime and per-cycle rewards for a wallet
+app.get('/player/:wallet/earnings', async (req, res) => {
+  try {
+    const wallet = walletParam(req, res);
+    if (!wallet) return;
+    const { limit, offset } = parsePagination(req.query);
+    const { payouts: cycles, total, paidUnits, pendingUnits } = await db.getWalletPayouts(wallet, limit, offset);
+    res.json({
+      wallet,
+      lifetimeEarnings: Number(paidUnits) / 1e6,
+      pendingEarnings: Number(pendingUnits) / 1e6, // owed but not yet confirmed on-chain
+      ...(await getPendingBalance(wallet)),
+      cyclesWon: total,
+      cycles: cycles.map(p => ({
+        cycleId: p.cycleId,
+        windowStart: p.windowStart,
+        windowEnd: p.windowEnd,
+        status: p.status,
+        mode: p.mode,
+        paid: p.paid, // claim mode: included in a published root and claimable
+        totalScore: p.totalScore,
+        highScore: p.highScore,
+        rewardTotal: p.rewardTotal,
+        rewardHigh: p.rewardHigh,
+        reward: p.reward,
+        paidAmount: Number(p.rewardUnits) / 1e6, // 0 when the reward went to the pending balance
+        txHash: p.txHash,
+        txLink: buildExplorerTxLink(p.txHash),
+        completedAt: p.completedAt,
+      })),
+      limit,
+      offset
+    });
+  } catch (error) {
+    console.error('❌ Error fetching player earnings:', error);
+    res.status(500).json({ error: 'Failed to fetch player earnings' });
+  }
+});
+
+// GET /player/:wallet/games - Paginated per-game history for a wallet, newest first
+app.get('/player/:wallet/games', async (req, res) => {
+  try {
+    const wallet = walletParam(req, res);
+    if (!wallet) return;
+    const { limit, offset } = parsePagination(req.query);
+    const { games, total } = await db.getPlayerGames(wallet, limit, offset);
+    res.json({
+      wallet,
+      games: games.map(game => ({
+        ...game,
+        durationSeconds: Math.round(game.durationMs / 1000),
+        txLink: buildExplorerTxLink(game.txHash)
+      })),
+      total,
+      limit,
+      offset
+    });
+  } catch (error) {
+    console.error('❌ Error fetching player games:', error);
+    res.status(500).json({ error: 'Failed to fetch player games' });
+  }
+});
+
 // GET /player/daily/:wallet - Get today's individual player stats
 app.get('/player/daily/:wallet', async (req, res) => {
   try {
-    const { wallet } = req.params;
+    const wallet = walletParam(req, res);
+    if (!wallet) return;
     const stats = await db.getDailyPlayerStats(wallet);
     if (!stats) {
       // If no daily row yet, return zeros for UX consistency
@@ -748,24 +1826,120 @@ app.get('/player/daily/:wallet', async (req, res) => {
         totalScoreDaily: 0,
         highScoreDaily: 0,
         gamesPlayedDaily: 0,
-        lastPlayedDaily: 0
+        lastPlayedDaily: 0,
+        ...(await getPendingBalance(wallet))
       });
     }
-    res.json(stats);
+    res.json({ ...stats, ...(await getPendingBalance(wallet)) });
   } catch (error) {
     console.error('❌ Error fetching daily player stats:', error);
     res.status(500).json({ error: 'Failed to fetch daily player stats' });
   }
 });
 
-// ADMIN: Remove specific players by wallet addresses
-app.post('/admin/remove-players', requireAdmin, async (req, res) => {
+// Ban list entry as returned by the admin API
+const banView = (ban: WalletBan, now = Date.now()) => ({
+  ...ban,
+  active: !ban.liftedAt && (!ban.expiresAt || ban.expiresAt > now)
+});
+
+// Ban every wallet that is not already banned; returns the ones newly banned
+async function banWallets(wallets: string[], reason: string, bannedBy: string): Promise<string[]> {
+  const banned: string[] = [];
+  for (const wallet of wallets) {
+    if (await db.banWallet({ wallet, reason, bannedBy })) {
+      banned.push(wallet);
+    }
+  }
+  return banned;
+}
+
+// ADMIN: List bans, newest first (?wallet=0x..&active=true&limit=50&offset=0)
+app.get('/admin/bans', requireAdmin('moderation'), async (req, res) => {
+  try {
+    let wallet: string | undefined;
+    if (req.query.wallet) {
+      wallet = normalizeAddress(req.query.wallet) ?? undefined;
+      if (!wallet) {
+        return res.status(400).json({ error: 'Invalid wallet address' });
+      }
+    }
+    const activeOnly = req.query.active === 'true';
+    const limit = Math.min(Math.max(parseInt(req.query.limit as string) || 50, 1), 200);
+    const offset = Math.max(parseInt(req.query.offset as string) || 0, 0);
+    const { bans, total } = await db.getBans({ wallet, activeOnly }, limit, offset);
+    const now = Date.now();
+    res.json({ bans: bans.map(ban => banView(ban, now)), total, limit, offset });
+  } catch (error) {
+    console.error('❌ Error fetching bans:', error);
+    res.status(500).json({ error: 'Failed to fetch bans' });
+  }
+});
+
+// ADMIN: Ban a wallet ({ wallet, reason, expiresAt? } with expiresAt in epoch ms)
+app.post('/admin/bans', requireAdmin('moderation'), audited('ban-wallet'), async (req, res) => {
+  const { wallet, reason, expiresAt } = req.body || {};
+  const normalized = normalizeAddress(wallet);
+  if (!normalized) {
+    return res.status(400).json({ error: 'Invalid wallet address' });
+  }
+  if (typeof reason !== 'string' || !reason.trim()) {
+    return res.status(400).json({ error: 'reason is required' });
+  }
+  if (expiresAt !== undefined && expiresAt !== null && (!Number.isInteger(expiresAt) || expiresAt <= Date.now())) {
+    return res.status(400).json({ error: 'expiresAt must be a future epoch-millisecond timestamp' });
+  }
+  try {
+    const ban = await db.banWallet({
+      wallet: normalized,
+      reason: reason.trim(),
+      bannedBy: res.locals.admin,
+      expiresAt: expiresAt ?? undefined
+    });
+    if (!ban) {
+      return res.status(409).json({ error: 'Wallet already banned' });
+    }
+    console.log(`🚫 Banned ${normalized}: ${ban.reason}`);
+    res.status(201).json({ ban: banView(ban) });
+  } catch (error) {
+    console.error('❌ Error banning wallet:', error);
+    res.status(500).json({ error: 'Failed to ban wallet' });
+  }
+});
+
+// ADMIN: Lift a wallet's active ban; its scores count again immediately
+app.post('/admin/bans/lift', requireAdmin('moderation'), audited('lift-ban'), async (req, res) => {
+  const wallet = normalizeAddress(req.body?.wallet);
+  if (!wallet) {
+    return res.status(400).json({ error: 'Invalid wallet address' });
+  }
   try {
-    const wallets = Array.isArray(req.body?.wallets) ? req.body.wallets : [];
-    if (!wallets.length) {
+    const ban = await db.liftBan(wallet, res.locals.admin);
+    if (!ban) {
+      return res.status(404).json({ error: 'No active ban for wallet' });
+    }
+    console.log(`✅ Lifted ban on ${wallet}`);
+    res.json({ ban: banView(ban) });
+  } catch (error) {
+    console.error('❌ Error lifting ban:', error);
+    res.status(500).json({ error: 'Failed to lift ban' });
+  }
+});
+
+// ADMIN: Ban specific players by wallet address (kept for existing tooling)
+app.post('/admin/remove-players', requireAdmin('moderation'), audited('remove-players'), async (req, res) => {
+  try {
+    const requested: unknown[] = Array.isArray(req.body?.wallets) ? req.body.wallets : [];
+    if (!requested.length) {
       return res.status(400).json({ error: 'wallets array required' });
     }
-    const removed = await db.removePlayers(wallets);
+    const invalid = requested.filter(wallet => !normalizeAddress(wallet));
+    if (invalid.length) {
+      return res.status(400).json({ error: 'Invalid wallet address', invalid });
+    }
+    const wallets = [...new Set(requested.map(wallet => normalizeAddress(wallet)!))];
+    const reason = typeof req.body?.reason === 'string' && req.body.reason.trim() ? req.body.reason.trim() : 'Removed by admin';
+    const removed = await banWallets(wallets, reason, res.locals.admin);
     res.json({ removed, count: removed.length });
   } catch (error) {
     console.error('❌ Error removing players:', error);
@@ -773,12 +1947,14 @@ app.post('/admin/remove-players', requireAdmin, async (req, res) => {
   }
 });
 
-// ADMIN: Remove top N players by total score
-app.post('/admin/remove-top', requireAdmin, async (req, res) => {
+// ADMIN: Ban the top N players by total score
+app.post('/admin/remove-top', requireAdmin('moderation'), audited('remove-top'), async (req, res) => {
   try {
     const nRaw = (req.query.n as string) || (req.body?.n as number) || 4;
     const n = Math.max(1, parseInt(String(nRaw)) || 4);
-    const removed = await db.removeTopPlayers(n);
+    const reason = typeof req.body?.reason === 'string' && req.body.reason.trim() ? req.body.reason.trim() : 'Removed by admin';
+    const top = await db.getLeaderboard('total', n);
+    const removed = await banWallets(top.map(entry => entry.wallet), reason, res.locals.admin);
     res.json({ removed, count: removed.length });
   } catch (error) {
     console.error('❌ Error removing top players:', error);
@@ -786,11 +1962,43 @@ app.post('/admin/remove-top', requireAdmin, async (req, res) => {
   }
 });
 
-// Start server
-app.listen(PORT, () => {
+// ADMIN: Read the audit log, newest first (?action=&actor=&since=&until=&limit=&offset=,
+// since/until in epoch ms)
+app.get('/admin/audit', requireAdmin(), async (req, res) => {
+  const { action, actor, since, until } = req.query as Record<string, string | undefined>;
+  const sinceMs = epochMsParam(since);
+  const untilMs = epochMsParam(until);
+  if (Number.isNaN(sinceMs) || Number.isNaN(untilMs)) {
+    return res.status(400).json({ error: 'since and until must be epoch-millisecond integers' });
+  }
+  try {
+    const limit = Math.min(parseInt(String(req.query.limit || '50')) || 50, 500);
+    const offset = Math.max(parseInt(String(req.query.offset || '0')) || 0, 0);
+    const result = await db.getAdminAudit({ action, actor, since: sinceMs, until: untilMs, limit, offset });
+    res.json({ ...result, limit, offset });
+  } catch (error) {
+    console.error('❌ Error fetching admin audit log:', error);
+    res.status(500).json({ error: 'Failed to fetch admin audit log' });
+  }
+});
+
+// Start server once the database is open, fully migrated and open sessions
+// are back in the cache the sweeper scans
+db.init().then(() => migrate(db, loadMigrations(storageConfig.driver))).then(async () => {
+  const count = await sessions.rehydrate();
+  console.log(`♻️  Rehydrated ${count} open game sessions`);
+}).then(() => app.listen(PORT, () => {
   console.log(`🐍 Snake402 server running on http://localhost:${PORT}`);
   console.log(`📊 Health check: http://localhost:${PORT}/health`);
   console.log(`💰 Pay-to-play endpoints ready!`);
-  console.log(`⏱️  Payout scheduler next run: ${new Date(nextPayoutAt).toISOString()}`);
+  schedulePayouts();
+  setInterval(sweepSessions, SESSION_SWEEP_INTERVAL_SECONDS * 1000);
   initPayoutEventListener();
-});
\ No newline at end of file
+  if (reconciler) {
+    syncChainEvents();
+    setInterval(syncChainEvents, RECONCILE_INTERVAL_SECONDS * 1000);
+  }
+})).catch(err => {
+  console.error('❌ Failed to open or migrate database, or rehydrate sessions:', err);
+  process.exit(1);
+});
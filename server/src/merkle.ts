@@ -0,0 +1,69 @@
+import { AbiCoder, concat, getAddress, keccak256 } from 'ethers';
+
+// Merkle tree over (wallet, cumulative reward) pairs for pull-based claims.
+// Compatible with OpenZeppelin's MerkleProof.verify: leaves are double-hashed
+// abi.encode(address, uint256) and each pair is hashed in sorted order.
+
+export interface MerkleEntry {
+  wallet: string;
+  amount: bigint; // cumulative USDC base units ever owed to the wallet
+}
+
+export interface MerkleTree {
+  root: string;
+  leaves: Map<string, { entry: MerkleEntry; index: number }>; // keyed by lowercase wallet
+  layers: string[][]; // layers[0] are the leaf hashes
+}
+
+const abiCoder = AbiCoder.defaultAbiCoder();
+const ZERO_ROOT = '0x' + '0'.repeat(64);
+
+export function hashLeaf(wallet: string, amount: bigint): string {
+  return keccak256(concat([keccak256(abiCoder.encode(['address', 'uint256'], [getAddress(wallet), amount]))]));
+}
+
+function hashPair(a: string, b: string): string {
+  return a.toLowerCase() < b.toLowerCase() ? keccak256(concat([a, b])) : keccak256(concat([b, a]));
+}
+
+export function buildMerkleTree(entries: MerkleEntry[]): MerkleTree {
+  // Sorted by wallet so the same entries always give the same root
+  const sorted = [...entries].sort((a, b) => a.wallet.toLowerCase().localeCompare(b.wallet.toLowerCase()));
+  const leaves = new Map<string, { entry: MerkleEntry; index: number }>();
+  sorted.forEach((entry, index) => {
+    const key = entry.wallet.toLowerCase();
+    if (leaves.has(key)) throw new Error(`Duplicate wallet in Merkle tree: ${entry.wallet}`);
+    leaves.set(key, { entry, index });
+  });
+
+  const layers: string[][] = [sorted.map(entry => hashLeaf(entry.wallet, entry.amount))];
+  while (layers[layers.length - 1].length > 1) {
+    const layer = layers[layers.length - 1];
+    const next: string[] = [];
+    for (let i = 0; i < layer.length; i += 2) {
+      // An odd node out is promoted unchanged
+      next.push(i + 1 < layer.length ? hashPair(layer[i], layer[i + 1]) : layer[i]);
+    }
+    layers.push(next);
+  }
+  return { root: layers[layers.length - 1][0] ?? ZERO_ROOT, leaves, layers };
+}
+
+// Sibling hashes from the wallet's leaf up to the root, or null if it has no leaf
+export function getMerkleProof(tree: MerkleTree, wallet: string): { entry: MerkleEntry; proof: string[] } | null {
+  const leaf = tree.leaves.get(wallet.toLowerCase());
+  if (!leaf) return null;
+  const proof: string[] = [];
+  let index = leaf.index;
+  for (const layer of tree.layers.slice(0, -1)) {
+    const sibling = index ^ 1;
+    if (sibling < layer.length) proof.push(layer[sibling]);
+    index = Math.floor(index / 2);
+  }
+  return { entry: leaf.entry, proof };
+}
+
+export function verifyMerkleProof(root: string, wallet: string, amount: bigint, proof: string[]): boolean {
+  const computed = proof.reduce((hash, sibling) => hashPair(hash, sibling), hashLeaf(wallet, amount));
+  return computed.toLowerCase() === root.toLowerCase();
+}
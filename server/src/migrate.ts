@@ -0,0 +1,55 @@
+import { config } from 'dotenv';
+import { join } from 'path';
+import { createMigration, loadMigrations, migrate, migrationLabel, pendingMigrations } from './migrations.js';
+import { createRepository, loadStorageConfig } from './storage.js';
+
+// Schema migration CLI (uses the same STORAGE_DRIVER / SQLITE_PATH / DATABASE_URL as the server):
+//   pnpm migrate                 apply pending migrations
+//   pnpm migrate status          list applied and pending migrations
+//   pnpm migrate create <name>   add an empty migration for every driver
+
+config({ path: join(process.cwd(), '..', '.env') });
+
+const USAGE = 'Usage: pnpm migrate [up | status | create <name>]';
+
+async function main(args: string[]): Promise<void> {
+  const [command = 'up', ...rest] = args;
+
+  if (command === 'create') {
+    if (rest.length === 0) throw new Error(USAGE);
+    for (const path of createMigration(rest.join(' '))) {
+      console.log(`📝 Created ${path}`);
+    }
+    return;
+  }
+  if (command !== 'up' && command !== 'status') {
+    throw new Error(USAGE);
+  }
+
+  const storage = loadStorageConfig();
+  const migrations = loadMigrations(storage.driver);
+  const db = createRepository(storage);
+  try {
+    await db.init();
+    if (command === 'up') {
+      await migrate(db, migrations);
+      return;
+    }
+    const applied = await db.getAppliedMigrations();
+    const pending = pendingMigrations(applied, migrations);
+    console.log(`🗄️  ${storage.driver}: ${applied.length} applied, ${pending.length} pending`);
+    for (const row of applied) {
+      console.log(`  ✅ ${migrationLabel(row)}  ${new Date(row.appliedAt).toISOString()}`);
+    }
+    for (const migration of pending) {
+      console.log(`  ⏳ ${migrationLabel(migration)}`);
+    }
+  } finally {
+    await db.close();
+  }
+}
+
+main(process.argv.slice(2)).catch((err) => {
+  console.error(`❌ ${(err as Error).message}`);
+  process.exit(1);
+});
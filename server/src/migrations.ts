@@ -0,0 +1,91 @@
+import { existsSync, mkdirSync, readdirSync, readFileSync, writeFileSync } from 'fs';
+import { join } from 'path';
+import { fileURLToPath } from 'url';
+import type { AppliedMigration, Migration, Repository } from './repository.js';
+import type { StorageDriver } from './storage.js';
+
+// Numbered, forward-only schema migrations. Each driver has its own directory,
+// server/migrations/<driver>/, of files named NNNN_description.sql. Versions
+// start at 1 and have no gaps, and both drivers carry the same versions.
+
+const STORAGE_DRIVERS: StorageDriver[] = ['sqlite', 'postgres'];
+const MIGRATION_FILE = /^(\d{4})_([a-z0-9_]+)\.sql$/;
+
+// Resolved from this file so it works from both src/ (tsx) and dist/ (node)
+const MIGRATIONS_ROOT = fileURLToPath(new URL('../migrations/', import.meta.url));
+
+export const migrationLabel = (migration: { version: number; name: string }) =>
+  `${String(migration.version).padStart(4, '0')}_${migration.name}`;
+
+export function migrationsDir(driver: StorageDriver): string {
+  return join(MIGRATIONS_ROOT, driver);
+}
+
+export function loadMigrations(driver: StorageDriver): Migration[] {
+  const dir = migrationsDir(driver);
+  const files = existsSync(dir) ? readdirSync(dir).filter(file => file.endsWith('.sql')).sort() : [];
+  return files.map((file, index) => {
+    const match = MIGRATION_FILE.exec(file);
+    if (!match) {
+      throw new Error(`Invalid migration file name ${driver}/${file}; expected NNNN_description.sql`);
+    }
+    const version = parseInt(match[1], 10);
+    if (version !== index + 1) {
+      throw new Error(`Migration ${driver}/${file} is out of sequence; expected version ${index + 1}`);
+    }
+    return { version, name: match[2], sql: readFileSync(join(dir, file), 'utf8') };
+  });
+}
+
+// Migrations not yet applied, in order. Throws if the database has history
+// this build does not know about (e.g. it was migrated by a newer release).
+export function pendingMigrations(applied: AppliedMigration[], migrations: Migration[]): Migration[] {
+  const known = new Map(migrations.map(migration => [migration.version, migration]));
+  for (const row of applied) {
+    const migration = known.get(row.version);
+    if (!migration || migration.name !== row.name) {
+      throw new Error(`Database has migration ${migrationLabel(row)} which this build does not include`);
+    }
+  }
+  const done = new Set(applied.map(row => row.version));
+  return migrations.filter(migration => !done.has(migration.version));
+}
+
+// Apply every pending migration in order; returns the ones this call applied
+export async function migrate(db: Repository, migrations: Migration[]): Promise<Migration[]> {
+  const pending = pendingMigrations(await db.getAppliedMigrations(), migrations);
+  const applied: Migration[] = [];
+  for (const migration of pending) {
+    const ran = await db.applyMigration(migration).catch((err) => {
+      throw new Error(`Migration ${migrationLabel(migration)} failed: ${(err as Error).message}`);
+    });
+    if (ran) {
+      console.log(`📦 Applied migration ${migrationLabel(migration)}`);
+      applied.push(migration);
+    }
+  }
+  if (applied.length === 0) {
+    console.log(`📦 Database schema up to date (version ${migrations.length})`);
+  }
+  return applied;
+}
+
+// Add an empty NNNN_<name>.sql for every driver; returns the created paths
+export function createMigration(name: string): string[] {
+  const slug = name.trim().toLowerCase().replace(/[^a-z0-9]+/g, '_').replace(/^_+|_+$/g, '');
+  if (!slug) {
+    throw new Error('Migration name must contain letters or digits');
+  }
+  const version = Math.max(...STORAGE_DRIVERS.map(driver => loadMigrations(driver).length)) + 1;
+  return STORAGE_DRIVERS.map(driver => {
+    const dir = migrationsDir(driver);
+    mkdirSync(dir, { recursive: true });
+    const path = join(dir, `${migrationLabel({ version, name: slug })}.sql`);
+    writeFileSync(path, [
+      `-- ${migrationLabel({ version, name: slug })} (${driver})`,
+      '-- Runs inside a transaction together with its schema_version row; do not add BEGIN/COMMIT.',
+      '',
+    ].join('\n'), { flag: 'wx' });
+    return path;
+  });
+}
@@ -0,0 +1,100 @@
+import { Interface, JsonRpcProvider, Network, getAddress, id } from 'ethers';
+
+// On-chain verification of a manual USDC entry-fee transfer.
+// Works against any JSON-RPC endpoint, including a local stand-in node.
+
+const TRANSFER_TOPIC = id('Transfer(address,address,uint256)');
+const erc20Interface = new Interface([
+  'event Transfer(address indexed from, address indexed to, uint256 value)'
+]);
+
+export interface UsdcPaymentCheck {
+  rpcUrl: string;
+  txHash: string;
+  usdcAddress: string;
+  recipient: string;
+  minAmount: bigint; // in USDC base units (6 decimals)
+  chainId: number;
+  minConfirmations: number;
+}
+
+export interface VerifiedUsdcPayment {
+  txHash: string;
+  payer: string;
+  recipient: string;
+  amount: bigint;
+  blockNumber: number;
+}
+
+export type UsdcPaymentResult =
+  | { ok: true; payment: VerifiedUsdcPayment }
+  | { ok: false; reason: string };
+
+export function isTxHash(value: unknown): value is string {
+  return typeof value === 'string' && /^0x[0-9a-fA-F]{64}$/.test(value);
+}
+
+export async function verifyUsdcPayment(check: UsdcPaymentCheck): Promise<UsdcPaymentResult> {
+  // Static network skips ethers' auto-detection; the chain id is checked explicitly below
+  const network = Network.from(check.chainId);
+  const provider = new JsonRpcProvider(check.rpcUrl, network, { staticNetwork: network });
+
+  try {
+    const chainIdHex: string = await provider.send('eth_chainId', []);
+    if (Number(BigInt(chainIdHex)) !== check.chainId) {
+      return { ok: false, reason: `RPC is on chain ${Number(BigInt(chainIdHex))}, expected ${check.chainId}` };
+    }
+
+    const receipt = await provider.getTransactionReceipt(check.txHash);
+    if (!receipt) {
+      return { ok: false, reason: 'Transaction not found or not yet mined' };
+    }
+    if (receipt.status !== 1) {
+      return { ok: false, reason: 'Transaction reverted' };
+    }
+
+    const confirmations = await receipt.confirmations();
+    if (confirmations < check.minConfirmations) {
+      return { ok: false, reason: `Transaction has ${confirmations} confirmations, need ${check.minConfirmations}` };
+    }
+
+    const usdc = getAddress(check.usdcAddress);
+    const recipient = getAddress(check.recipient);
+
+    // Sum every USDC transfer to the recipient in this tx from a single payer
+    let payer: string | null = null;
+    let amount = 0n;
+    for (const log of receipt.logs) {
+      if (getAddress(log.address) !== usdc || log.topics[0] !== TRANSFER_TOPIC) continue;
+      const parsed = erc20Interface.parseLog({ topics: [...log.topics], data: log.data });
+      if (!parsed || getAddress(parsed.args.to) !== recipient) continue;
+
+      const from = getAddress(parsed.args.from);
+      if (payer && payer !== from) {
+        return { ok: false, reason: 'Transaction contains transfers from multiple payers' };
+      }
+      payer = from;
+      amount += parsed.args.value as bigint;
+    }
+
+    if (!payer) {
+      return { ok: false, reason: 'No USDC transfer to the prize recipient in this transaction' };
+    }
+    if (amount < check.minAmount) {
+      return { ok: false, reason: `Transferred ${amount} base units, entry fee is ${check.minAmount}` };
+    }
+
+    return {
+      ok: true,
+      payment: {
+        txHash: receipt.hash.toLowerCase(),
+        payer,
+        recipient,
+        amount,
+        blockNumber: receipt.blockNumber,
+      }
+    };
+  } finally {
+    provider.destroy();
+  }
+}
@@ -0,0 +1,201 @@
+import fs from 'fs';
+
+// How a cycle's entry fees are split between players and the treasury.
+// Pool percentages are of the cycle's total entry fees and must add up to 100.
+
+export type HighScoreCurve = 'table' | 'linear' | 'geometric';
+
+export interface PayoutPolicy {
+  pools: {
+    total: number; // shared pro rata by daily total score
+    high: number; // shared by the top daily high scores
+    treasury: number;
+  };
+  highScoreRanks: number; // how many high-score ranks are paid
+  highScoreCurve: HighScoreCurve;
+  // table: weights[n - 1] are the percentages used when n players are ranked
+  highScoreTable: number[][];
+  // geometric: each rank gets `ratio` times the previous rank's share
+  geometricRatio: number;
+  minGamesToQualify: number; // daily games required to earn from either pool
+  minReward: number; // USDC; smaller rewards are not paid
+}
+
+export const DEFAULT_PAYOUT_POLICY: PayoutPolicy = {
+  pools: { total: 70, high: 25, treasury: 5 },
+  highScoreRanks: 3,
+  highScoreCurve: 'table',
+  // 1 player: 100%, 2 players: 70/30, 3+ players: 60/25/15 to the top 3 only
+  highScoreTable: [[100], [70, 30], [60, 25, 15]],
+  geometricRatio: 0.5,
+  minGamesToQualify: 1,
+  minReward: 0,
+};
+
+export interface RankedEntry {
+  wallet: string;
+  score: number;
+  gamesPlayed: number;
+}
+
+export interface ComputedReward {
+  wallet: string;
+  totalScore: number;
+  highScore: number;
+  rewardTotal: number;
+  rewardHigh: number;
+  reward: number;
+}
+
+export interface ComputedPayout {
+  totalPool: number;
+  poolTotal: number;
+  poolHigh: number;
+  poolTreasury: number;
+  unallocated: number; // player pools nobody qualified for, plus rewards under minReward
+  rewards: ComputedReward[];
+}
+
+const isNumber = (value: unknown): value is number => typeof value === 'number' && Number.isFinite(value);
+
+// Merge a partial policy over `base` and validate the result
+export function parsePayoutPolicy(
+  input: unknown,
+  base: PayoutPolicy = DEFAULT_PAYOUT_POLICY
+): { policy: PayoutPolicy; errors: [] } | { policy: null; errors: string[] } {
+  if (input === undefined || input === null) input = {};
+  if (typeof input !== 'object' || Array.isArray(input)) {
+    return { policy: null, errors: ['policy must be an object'] };
+  }
+  const partial = input as Partial<PayoutPolicy>;
+  const policy: PayoutPolicy = {
+    ...base,
+    ...partial,
+    pools: { ...base.pools, ...(partial.pools || {}) },
+  };
+
+  const errors: string[] = [];
+  const { total, high, treasury } = policy.pools;
+  if (![total, high, treasury].every(p => isNumber(p) && p >= 0)) {
+    errors.push('pools.total, pools.high and pools.treasury must be non-negative numbers');
+  } else if (Math.abs(total + high + treasury - 100) > 1e-9) {
+    errors.push(`pool percentages must add up to 100 (got ${total + high + treasury})`);
+  }
+  if (!Number.isInteger(policy.highScoreRanks) || policy.highScoreRanks < 0) {
+    errors.push('highScoreRanks must be a non-negative integer');
+  }
+  if (!['table', 'linear', 'geometric'].includes(policy.highScoreCurve)) {
+    errors.push('highScoreCurve must be table, linear or geometric');
+  }
+  if (policy.highScoreCurve === 'table') {
+    const table = policy.highScoreTable;
+    if (!Array.isArray(table) || table.length < policy.highScoreRanks) {
+      errors.push('highScoreTable needs one row per paid rank count');
+    } else {
+      table.slice(0, policy.highScoreRanks).forEach((row, i) => {
+        if (!Array.isArray(row) || row.length !== i + 1 || !row.every(w => isNumber(w) && w >= 0)) {
+          errors.push(`highScoreTable[${i}] must list ${i + 1} non-negative weights`);
+        } else if (Math.abs(row.reduce((sum, w) => sum + w, 0) - 100) > 1e-9) {
+          errors.push(`highScoreTable[${i}] must add up to 100`);
+        }
+      });
+    }
+  }
+  if (policy.highScoreCurve === 'geometric' &&
+      (!isNumber(policy.geometricRatio) || policy.geometricRatio <= 0 || policy.geometricRatio > 1)) {
+    errors.push('geometricRatio must be in (0, 1]');
+  }
+  if (!Number.isInteger(policy.minGamesToQualify) || policy.minGamesToQualify < 0) {
+    errors.push('minGamesToQualify must be a non-negative integer');
+  }
+  if (!isNumber(policy.minReward) || policy.minReward < 0) {
+    errors.push('minReward must be a non-negative number');
+  }
+
+  return errors.length ? { policy: null, errors } : { policy, errors: [] };
+}
+
+// Load the policy from PAYOUT_POLICY (inline JSON) or PAYOUT_POLICY_FILE (path to JSON)
+export function loadPayoutPolicy(env: NodeJS.ProcessEnv = process.env): PayoutPolicy {
+  let raw: string | undefined = env.PAYOUT_POLICY;
+  if (!raw && env.PAYOUT_POLICY_FILE) {
+    raw = fs.readFileSync(env.PAYOUT_POLICY_FILE, 'utf8');
+  }
+  const parsed = parsePayoutPolicy(raw ? JSON.parse(raw) : {});
+  if (!parsed.policy) {
+    throw new Error(parsed.errors.join('; '));
+  }
+  return parsed.policy;
+}
+
+// Share of the high-score pool per rank (fractions summing to 1) for `ranked` players
+function highScoreWeights(policy: PayoutPolicy, ranked: number): number[] {
+  const n = Math.min(ranked, policy.highScoreRanks);
+  if (n === 0) return [];
+  let weights: number[];
+  if (policy.highScoreCurve === 'table') {
+    weights = policy.highScoreTable[n - 1];
+  } else if (policy.highScoreCurve === 'linear') {
+    weights = Array.from({ length: n }, (_, i) => n - i);
+  } else {
+    weights = Array.from({ length: n }, (_, i) => Math.pow(policy.geometricRatio, i));
+  }
+  const sum = weights.reduce((a, b) => a + b, 0);
+  return weights.map(w => (sum > 0 ? w / sum : 0));
+}
+
+// Split `totalPool` over daily leaderboards (sorted by score, descending)
+export function computePayout(
+  policy: PayoutPolicy,
+  totalPool: number,
+  totalEntries: RankedEntry[],
+  highEntries: RankedEntry[]
+): ComputedPayout {
+  const poolTotal = totalPool * policy.pools.total / 100;
+  const poolHigh = totalPool * policy.pools.high / 100;
+  const poolTreasury = totalPool * policy.pools.treasury / 100;
+  let unallocated = 0;
+
+  const qualifies = (e: RankedEntry) => e.score > 0 && e.gamesPlayed >= policy.minGamesToQualify;
+  const totalQualified = totalEntries.filter(qualifies);
+  const highQualified = highEntries.filter(qualifies);
+
+  const rewardTotalMap = new Map<string, number>();
+  const rewardHighMap = new Map<string, number>();
+
+  const sumTotalScores = totalQualified.reduce((sum, e) => sum + e.score, 0);
+  if (sumTotalScores > 0 && poolTotal > 0) {
+    totalQualified.forEach(e => {
+      rewardTotalMap.set(e.wallet, (e.score / sumTotalScores) * poolTotal);
+    });
+  }
+
+  const weights = highScoreWeights(policy, highQualified.length);
+  if (poolHigh > 0) {
+    weights.forEach((weight, i) => rewardHighMap.set(highQualified[i].wallet, poolHigh * weight));
+  }
+  if (rewardTotalMap.size === 0) unallocated += poolTotal;
+  if (rewardHighMap.size === 0) unallocated += poolHigh;
+
+  const rewards: ComputedReward[] = [];
+  const wallets = new Set<string>([...rewardTotalMap.keys(), ...rewardHighMap.keys()]);
+  wallets.forEach(wallet => {
+    const rewardTotal = rewardTotalMap.get(wallet) || 0;
+    const rewardHigh = rewardHighMap.get(wallet) || 0;
+    const reward = rewardTotal + rewardHigh;
+    if (reward < policy.minReward) {
+      unallocated += reward;
+      return;
+    }
+    rewards.push({
+      wallet,
+      totalScore: totalEntries.find(e => e.wallet === wallet)?.score || 0,
+      highScore: highEntries.find(e => e.wallet === wallet)?.score || 0,
+      rewardTotal,
+      rewardHigh,
+      reward,
+    });
+  });
+
+  return { totalPool, poolTotal, poolHigh, poolTreasury, unallocated, rewards };
+}
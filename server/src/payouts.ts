@@ -0,0 +1,447 @@
+import { randomUUID } from 'crypto';
+import { Contract, JsonRpcProvider, Transaction, Wallet, keccak256 } from 'ethers';
+import type { DailyStandings, PayoutBatch, PayoutCycle, PayoutItem, PayoutMode, Repository } from './repository.js';
+import { Schedule } from './schedule.js';
+import { computePayout, type ComputedPayout, type PayoutPolicy } from './payoutPolicy.js';
+import { buildMerkleTree, getMerkleProof, type MerkleTree } from './merkle.js';
+
+const USDC_DECIMALS = 6; // Base USDC uses 6 decimals
+const PRIZE_POOL_ABI = [
+  'function endCycle(address[] winners, uint256[] rewards) external',
+  'function setMerkleRoot(bytes32 root) external',
+  'event Payout(address indexed to, uint256 amount)'
+];
+const PAYOUT_LOCK = 'payout';
+const STANDINGS_LIMIT = 1000; // daily leaderboard entries a cycle is computed from
+// Longer than the worst-case batch (receipt wait included); renewed before every batch
+const PAYOUT_LOCK_TTL_MS = 30 * 60 * 1000;
+const RECEIPT_TIMEOUT_MS = 5 * 60 * 1000;
+
+export interface OnchainPayoutConfig {
+  rpcUrl: string;
+  privateKey: string;
+  prizePoolContract: string;
+}
+
+export interface PayoutServiceOptions {
+  schedule: Schedule; // UTC wall-clock times at which cycles close
+  policy: PayoutPolicy;
+  onchain?: OnchainPayoutConfig; // unset: rewards are recorded but not sent
+  mode?: PayoutMode; // default push
+  minPayout?: number; // USDC; smaller amounts accrue in the wallet's pending balance (default 0)
+  batchSize?: number; // winners per endCycle tx (default 50)
+  maxAttempts?: number; // per batch before it is marked failed (default 5)
+  retryBaseMs?: number; // first retry delay, doubled after each failed attempt (default 60s)
+}
+
+export interface PayoutPreview extends ComputedPayout {
+  windowStart: number;
+  windowEnd: number;
+  rolloverIn: number; // USDC carried over from the previous cycle, included in totalPool
+  policy: PayoutPolicy;
+}
+
+// Entry fees and rollover funding a cycle that closes at windowEnd
+interface CycleFunding {
+  windowStart: number;
+  windowEnd: number;
+  fees: number;
+  rolloverIn: number;
+}
+
+export interface PayoutSchedule {
+  lastPayoutAt: number;
+  nextPayoutAt: number;
+  lastTxHash: string | null;
+}
+
+export interface ClaimProof {
+  cycleId: number; // cycle whose root is live on the contract
+  root: string;
+  wallet: string;
+  cumulativeUnits: string; // everything ever owed in claim mode; the contract pays the unclaimed part
+  proof: string[];
+}
+
+export interface PayoutRunResult {
+  cycle: PayoutCycle | null; // cycle closed by this run, if any
+  batches: PayoutBatch[]; // batches worked on by this run, in their new state
+}
+
+// Rounds down so rewards never add up to more than the pool; the remainder rolls over
+function toUnits(amount: number) {
+  return BigInt(Math.floor(amount * Math.pow(10, USDC_DECIMALS) + 1e-6));
+}
+
+// Daily prize distribution backed by payout_cycles / payout_items / payout_batches.
+// Closing a cycle snapshots rewards as owed and resets daily stats in one step;
+// the winners are then paid in batches of endCycle calls, each retried with
+// backoff and persisted before broadcast so a crash or retry never pays twice.
+// In claim mode the cycle instead publishes a Merkle root of cumulative rewards
+// and winners pull their USDC from the contract with a proof.
+class PayoutService {
+  private running = false;
+  private readonly lockOwner = randomUUID();
+  private readonly batchSize: number;
+  private readonly maxAttempts: number;
+  private readonly retryBaseMs: number;
+  private claimTree: { cycleId: number; tree: MerkleTree } | null = null;
+
+  constructor(private db: Repository, private options: PayoutServiceOptions) {
+    this.batchSize = options.batchSize ?? 50;
+    this.maxAttempts = options.maxAttempts ?? 5;
+    this.retryBaseMs = options.retryBaseMs ?? 60 * 1000;
+  }
+
+  get isRunning() {
+    return this.running;
+  }
+
+  // Close a cycle at windowEnd (unless null or already closed), then send every
+  // batch that is due. Returns null when another run (in this or another
+  // instance) holds the lock.
+  async run(windowEnd: number | null = Date.now()): Promise<PayoutRunResult | null> {
+    if (this.running) return null;
+    this.running = true;
+    try {
+      if (!await this.db.acquireLock(PAYOUT_LOCK, this.lockOwner, PAYOUT_LOCK_TTL_MS)) {
+        console.log('ℹ️ Payout lock held by another instance; skipping');
+        return null;
+      }
+      try {
+        const cycle = windowEnd !== null ? await this.createCycle(windowEnd) : null;
+        const batches = await this.driveBatches();
+        return {
+          cycle: cycle ? (await this.db.getPayoutCycle(cycle.id))! : null,
+          batches,
+        };
+      } finally {
+        await this.db.releaseLock(PAYOUT_LOCK, this.lockOwner);
+      }
+    } finally {
+      this.running = false;
+    }
+  }
+
+  // Latest scheduled time not yet closed. Missed times after downtime collapse
+  // into one catch-up cycle, since daily scores are not kept per window.
+  async getDueWindowEnd(now = Date.now()): Promise<number | null> {
+    const slot = this.options.schedule.previous(now);
+    const last = await this.db.getLatestPayoutCycle();
+    return !last || slot > last.windowEnd ? slot : null;
+  }
+
+  // When the scheduler should wake up next: the next scheduled close or the
+  // next batch retry, whichever comes first
+  async getNextRunAt(now = Date.now()): Promise<number> {
+    const nextClose = this.options.schedule.next(now);
+    const nextAttempt = await this.db.getNextPayoutBatchAttemptAt();
+    return nextAttempt !== null ? Math.min(nextClose, nextAttempt) : nextClose;
+  }
+
+  async getSchedule(now = Date.now()): Promise<PayoutSchedule> {
+    const last = await this.db.getLatestPayoutCycle();
+    const lastPaid = await this.db.getLatestPaidPayoutCycle();
+    const lastPayoutAt = last?.windowEnd ?? this.options.schedule.previous(now);
+    return {
+      lastPayoutAt,
+      // In the past while a missed cycle is being caught up
+      nextPayoutAt: this.options.schedule.next(lastPayoutAt),
+      lastTxHash: lastPaid?.txHash ?? null,
+    };
+  }
+
+  get policy() {
+    return this.options.policy;
+  }
+
+  get mode(): PayoutMode {
+    return this.options.mode ?? 'push';
+  }
+
+  // Proof against the live Merkle root, or null if the wallet has nothing to claim
+  async getClaimProof(wallet: string): Promise<ClaimProof | null> {
+    const cycle = await this.db.getLatestPublishedClaimCycle();
+    if (!cycle) return null;
+    if (this.claimTree?.cycleId !== cycle.id) {
+      const totals = await this.db.getClaimTotals(cycle.windowStart);
+      const tree = buildMerkleTree(totals.map(total => ({ wallet: total.wallet, amount: BigInt(total.units) })));
+      if (tree.root !== cycle.merkleRoot) {
+        throw new Error(`Rebuilt Merkle root for cycle #${cycle.id} does not match the published root`);
+      }
+      this.claimTree = { cycleId: cycle.id, tree };
+    }
+    const leaf = getMerkleProof(this.claimTree.tree, wallet);
+    if (!leaf) return null;
+    return {
+      cycleId: cycle.id,
+      root: cycle.merkleRoot!,
+      wallet: leaf.entry.wallet,
+      cumulativeUnits: leaf.entry.amount.toString(),
+      proof: leaf.proof,
+    };
+  }
+
+  // What closing a cycle at windowEnd would pay right now, without persisting anything
+  async preview(policy = this.options.policy, windowEnd = Date.now()): Promise<PayoutPreview> {
+    const funding = await this.getFunding(windowEnd);
+    return this.computePreview(policy, funding, {
+      total: await this.db.getDailyLeaderboard('total', STANDINGS_LIMIT),
+      high: await this.db.getDailyLeaderboard('high', STANDINGS_LIMIT),
+    });
+  }
+
+  private async getFunding(windowEnd: number): Promise<CycleFunding> {
+    const last = await this.db.getLatestPayoutCycle();
+    // Cycles tile time: each one picks up the fees since the previous window closed
+    const windowStart = last?.windowEnd ?? this.options.schedule.previous(windowEnd - 1);
+    const fees = windowEnd > windowStart
+      ? await this.db.getTotalEntryFeesBetween(windowStart, windowEnd)
+      : 0;
+    const rolloverIn = Number(last?.rolloverOutUnits ?? '0') / Math.pow(10, USDC_DECIMALS);
+    return { windowStart, windowEnd, fees, rolloverIn };
+  }
+
+  private computePreview(
+    policy: PayoutPolicy,
+    funding: CycleFunding,
+    standings: Pick<DailyStandings, 'total' | 'high'>
+  ): PayoutPreview {
+    const { windowStart, windowEnd, rolloverIn } = funding;
+    return {
+      windowStart,
+      windowEnd,
+      rolloverIn,
+      policy,
+      ...computePayout(policy, funding.fees + rolloverIn, standings.total, standings.high),
+    };
+  }
+
+  private async createCycle(windowEnd: number): Promise<PayoutCycle | null> {
+    const funding = await this.getFunding(windowEnd);
+    if (windowEnd <= funding.windowStart) return null;
+
+    // A wallet is paid its reward plus any pending balance once that reaches the
+    // minimum payout; otherwise the reward is added to the balance for later.
+    // Payments go out in fixed-size batches; in claim mode a single batch
+    // publishes the root covering every winner.
+    // Rewards are computed from standings read inside the transaction that
+    // resets them, so a score submitted meanwhile is paid now or next cycle;
+    // the rest only changes under the payout lock and is read up front.
+    const onchain = this.options.onchain;
+    const mode = this.mode;
+    const minUnits = toUnits(this.options.minPayout ?? 0);
+    const claimTotals = mode === 'claim' ? await this.db.getClaimTotals() : [];
+    let preview!: PayoutPreview;
+    let payable = 0;
+    let rolloverOut = 0n;
+    let cycle = await this.db.createPayoutCycle(STANDINGS_LIMIT, (standings) => {
+      preview = this.computePreview(this.options.policy, funding, standings);
+      const balances: { wallet: string; pendingUnits: string }[] = [];
+      let allocated = 0n;
+      const items: Omit<PayoutItem, 'cycleId'>[] = preview.rewards.map(reward => {
+        const earned = toUnits(reward.reward);
+        allocated += earned;
+        const carried = standings.pendingBalances.get(reward.wallet.toLowerCase()) ?? 0n;
+        const owed = earned + carried;
+        const pay = owed > 0n && owed >= minUnits;
+        balances.push({ wallet: reward.wallet, pendingUnits: (pay ? 0n : owed).toString() });
+
+        let batchIndex: number | undefined;
+        if (onchain && pay) {
+          batchIndex = mode === 'claim' ? 0 : Math.floor(payable / this.batchSize);
+          payable++;
+        }
+        return {
+          ...reward,
+          rewardUnits: (pay ? owed : 0n).toString(),
+          carriedUnits: (pay ? carried : 0n).toString(),
+          batchIndex,
+        };
+      });
+      // Player-pool units nobody received (rounding, unqualified pools, minReward) roll over
+      const playerPoolUnits = toUnits(preview.poolTotal + preview.poolHigh);
+      rolloverOut = playerPoolUnits > allocated ? playerPoolUnits - allocated : 0n;
+
+      let merkleRoot: string | undefined;
+      if (mode === 'claim') {
+        // Leaves carry cumulative totals, so one live root covers every unclaimed cycle
+        const cumulative = new Map<string, { wallet: string; amount: bigint }>();
+        for (const total of claimTotals) {
+          cumulative.set(total.wallet.toLowerCase(), { wallet: total.wallet, amount: BigInt(total.units) });
+        }
+        for (const item of items) {
+          const entry = cumulative.get(item.wallet.toLowerCase()) || { wallet: item.wallet, amount: 0n };
+          entry.amount += BigInt(item.rewardUnits);
+          cumulative.set(item.wallet.toLowerCase(), entry);
+        }
+        merkleRoot = buildMerkleTree([...cumulative.values()].filter(entry => entry.amount > 0n)).root;
+      }
+
+      return {
+        cycle: {
+          windowStart: preview.windowStart,
+          windowEnd,
+          totalPool: preview.totalPool,
+          poolTotal: preview.poolTotal,
+          poolHigh: preview.poolHigh,
+          poolTreasury: preview.poolTreasury,
+          winnerCount: items.length,
+          mode,
+          merkleRoot,
+          rolloverInUnits: toUnits(preview.rolloverIn).toString(),
+          rolloverOutUnits: rolloverOut.toString(),
+        },
+        items,
+        balances,
+      };
+    });
+    const batchCount = mode === 'claim' ? Math.min(payable, 1) : Math.ceil(payable / this.batchSize);
+    console.log(`🧮 Payout cycle #${cycle.id}: pool ${preview.totalPool.toFixed(6)} USDC, ${cycle.winnerCount} winners in ${batchCount} batches, treasury ${preview.poolTreasury.toFixed(6)}, rollover ${rolloverOut} units`);
+
+    if (batchCount === 0) {
+      if (!onchain) console.log('ℹ️ On-chain payouts disabled or missing config; recorded rewards only.');
+      await this.db.updatePayoutCycle(cycle.id, { onchainStatus: 'skipped' });
+      await this.db.completePayoutCycle(cycle.id);
+      cycle = (await this.db.getPayoutCycle(cycle.id))!;
+      console.log(`✅ Payout cycle #${cycle.id} completed`);
+    }
+    return cycle;
+  }
+
+  // Send every batch whose (re)try is due, oldest cycle first
+  private async driveBatches(): Promise<PayoutBatch[]> {
+    const onchain = this.options.onchain;
+    const due = await this.db.getDuePayoutBatches(Date.now());
+    if (due.length === 0) return [];
+    if (!onchain) {
+      console.log(`ℹ️ ${due.length} payout batches waiting but on-chain payouts are not configured`);
+      return [];
+    }
+
+    const provider = new JsonRpcProvider(onchain.rpcUrl);
+    const wallet = new Wallet(onchain.privateKey, provider);
+    const prizePool = new Contract(onchain.prizePoolContract, PRIZE_POOL_ABI, wallet);
+    const driven: PayoutBatch[] = [];
+    try {
+      for (const batch of due) {
+        // Renew the lease so a long run of batches never outlives it
+        if (!await this.db.acquireLock(PAYOUT_LOCK, this.lockOwner, PAYOUT_LOCK_TTL_MS)) break;
+        try {
+          await this.sendBatch(batch, provider, wallet, prizePool);
+        } catch (err) {
+          await this.recordFailure(batch.id, (err as Error).message);
+        }
+        driven.push((await this.db.getPayoutBatch(batch.id))!);
+        await this.refreshCycle(batch.cycleId);
+      }
+    } finally {
+      provider.destroy();
+    }
+    return driven;
+  }
+
+  private async sendBatch(batch: PayoutBatch, provider: JsonRpcProvider, wallet: Wallet, prizePool: Contract) {
+    const label = `batch ${batch.batchIndex} of cycle #${batch.cycleId}`;
+    const cycle = (await this.db.getPayoutCycle(batch.cycleId))!;
+    let txHash = batch.txHash;
+    let signedTx = batch.signedTx;
+
+    if (cycle.mode === 'claim' && !signedTx) {
+      // A newer root already includes these rewards; publishing this one would roll it back
+      const live = await this.db.getLatestPublishedClaimCycle();
+      if (live && live.windowStart > cycle.windowStart) {
+        console.log(`ℹ️ Merkle root of cycle #${cycle.id} superseded by cycle #${live.id}`);
+        return this.confirmBatch(batch, live.txHash!);
+      }
+    }
+
+    if (txHash && signedTx) {
+      // A tx was signed on an earlier attempt: it must have either mined or be
+      // provably dead before a replacement is signed, or the batch could pay twice
+      let receipt = await provider.getTransactionReceipt(txHash);
+      if (!receipt) {
+        const nonce = await provider.getTransactionCount(wallet.address, 'latest');
+        if (nonce > Transaction.from(signedTx).nonce) {
+          // Nonce used up; check once more in case it was this tx that just mined
+          receipt = await provider.getTransactionReceipt(txHash);
+          if (!receipt) signedTx = undefined;
+        } else {
+          await provider.broadcastTransaction(signedTx).catch(err => {
+            console.log(`ℹ️ Rebroadcast of ${txHash} rejected: ${(err as Error).message}`);
+          });
+        }
+      }
+      if (receipt?.status === 1) return this.confirmBatch(batch, txHash);
+      if (receipt) signedTx = undefined; // reverted; its failure was already counted
+    }
+
+    if (!signedTx) {
+      let request;
+      if (cycle.mode === 'claim') {
+        request = await prizePool.setMerkleRoot.populateTransaction(cycle.merkleRoot);
+      } else {
+        const items = await this.db.getPayoutBatchItems(batch.cycleId, batch.batchIndex);
+        request = await prizePool.endCycle.populateTransaction(
+          items.map(item => item.wallet),
+          items.map(item => BigInt(item.rewardUnits))
+        );
+      }
+      signedTx = await wallet.signTransaction(await wallet.populateTransaction(request));
+      txHash = keccak256(signedTx);
+      // Persist the hash before broadcasting so a crash can never lead to a second payment
+      await this.db.updatePayoutBatch(batch.id, { status: 'submitted', txHash, signedTx, error: undefined });
+      await this.db.updatePayoutCycle(batch.cycleId, { onchainStatus: 'submitted' });
+      await provider.broadcastTransaction(signedTx);
+    }
+
+    console.log(`🔗 ${cycle.mode === 'claim' ? 'setMerkleRoot' : 'endCycle'} tx for ${label}: ${txHash}`);
+    const receipt = await provider.waitForTransaction(txHash!, 1, RECEIPT_TIMEOUT_MS);
+    if (!receipt || receipt.status !== 1) {
+      throw new Error(`Payout transaction ${txHash} reverted`);
+    }
+    await this.confirmBatch(batch, txHash!);
+  }
+
+  private async confirmBatch(batch: PayoutBatch, txHash: string) {
+    await this.db.updatePayoutBatch(batch.id, { status: 'confirmed', txHash, error: undefined });
+    await this.db.updatePayoutCycle(batch.cycleId, { txHash });
+    console.log(`✅ Paid batch ${batch.batchIndex} of cycle #${batch.cycleId} (${batch.walletCount} winners)`);
+  }
+
+  // Count a failed attempt and schedule the next one with exponential backoff
+  private async recordFailure(batchId: number, message: string) {
+    const batch = (await this.db.getPayoutBatch(batchId))!;
+    const attempts = batch.attempts + 1;
+    const exhausted = attempts >= this.maxAttempts;
+    await this.db.updatePayoutBatch(batch.id, {
+      // A signed tx may still be in flight and is checked again on the next attempt
+      status: exhausted ? 'failed' : batch.signedTx ? 'submitted' : 'pending',
+      attempts,
+      nextAttemptAt: Date.now() + this.retryBaseMs * Math.pow(2, attempts - 1),
+      error: message,
+    });
+    console.error(exhausted
+      ? `❌ Batch ${batch.batchIndex} of cycle #${batch.cycleId} failed after ${attempts} attempts: ${message}`
+      : `⚠️ Batch ${batch.batchIndex} of cycle #${batch.cycleId} attempt ${attempts} failed, will retry: ${message}`);
+  }
+
+  // Derive the cycle status from its batches
+  private async refreshCycle(cycleId: number) {
+    const batches = await this.db.getPayoutBatches({ cycleId });
+    const failed = batches.filter(batch => batch.status === 'failed').length;
+    if (batches.every(batch => batch.status === 'confirmed')) {
+      await this.db.updatePayoutCycle(cycleId, { onchainStatus: 'confirmed' });
+      await this.db.completePayoutCycle(cycleId);
+      console.log(`✅ Payout cycle #${cycleId} completed`);
+    } else if (failed > 0) {
+      await this.db.updatePayoutCycle(cycleId, {
+        status: 'failed',
+        onchainStatus: 'error',
+        error: `${failed} of ${batches.length} batches failed`,
+      });
+    }
+  }
+}
+
+export default PayoutService;
@@ -0,0 +1,41 @@
+// Leaderboard periods in UTC. Weeks start on Monday. Each period instance has
+// a key under which its scores are stored in period_player_stats.
+
+export type LeaderboardPeriod = 'weekly' | 'monthly' | 'season';
+
+export const LEADERBOARD_PERIODS: LeaderboardPeriod[] = ['weekly', 'monthly', 'season'];
+
+export interface PeriodWindow {
+  key: string;
+  start: number;
+  end: number; // exclusive
+}
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+export const isoDate = (ms: number) => new Date(ms).toISOString().slice(0, 10);
+
+export function weekWindow(at: number): PeriodWindow {
+  const date = new Date(at);
+  const dayStart = Date.UTC(date.getUTCFullYear(), date.getUTCMonth(), date.getUTCDate());
+  const start = dayStart - ((date.getUTCDay() + 6) % 7) * DAY_MS;
+  return { key: `weekly:${isoDate(start)}`, start, end: start + 7 * DAY_MS };
+}
+
+export function monthWindow(at: number): PeriodWindow {
+  const date = new Date(at);
+  const start = Date.UTC(date.getUTCFullYear(), date.getUTCMonth(), 1);
+  const end = Date.UTC(date.getUTCFullYear(), date.getUTCMonth() + 1, 1);
+  return { key: `monthly:${isoDate(start).slice(0, 7)}`, start, end };
+}
+
+export function seasonKey(seasonId: number): string {
+  return `season:${seasonId}`;
+}
+
+// Parse a YYYY-MM-DD date as UTC midnight, or null if malformed
+export function parseDate(value: string): number | null {
+  if (!/^\d{4}-\d{2}-\d{2}$/.test(value)) return null;
+  const ms = Date.parse(`${value}T00:00:00Z`);
+  return Number.isNaN(ms) || isoDate(ms) !== value ? null : ms;
+}
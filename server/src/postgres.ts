@@ -0,0 +1,1191 @@
+import pg from 'pg';
+import { isoDate, monthWindow, seasonKey, weekWindow } from './periods.js';
+import {
+  SESSION_TRANSITIONS,
+  type AdminAuditEntry,
+  type AdminAuditQuery,
+  type AppliedMigration,
+  type ChainEvent,
+  type ChainEventName,
+  type CompensationStatus,
+  type CompensationType,
+  type DailyPlayerStats,
+  type DailyStandings,
+  type EntryFeeQuery,
+  type EntryFeeRecord,
+  type GameRecord,
+  type GameSession,
+  type GameSessionStatus,
+  type LeaderboardEntry,
+  type Migration,
+  type NewGameRecord,
+  type NewPayoutCycle,
+  type PayoutBatch,
+  type PayoutBatchStatus,
+  type PayoutCycle,
+  type PayoutItem,
+  type PlayerStats,
+  type Repository,
+  type Season,
+  type SessionCompensation,
+  type WalletBalance,
+  type WalletBan,
+  type WalletPayout,
+} from './repository.js';
+
+// Postgres implementation of the repository, for running several server
+// instances against one database. Timestamps are epoch milliseconds in BIGINT
+// columns; BIGINT values (including COUNT and integer SUMs) are returned as
+// numbers, so they must stay below 2^53.
+pg.types.setTypeParser(20, (value: string) => Number(value)); // int8
+
+type Queryable = pg.Pool | pg.PoolClient;
+
+// Serializes schema changes across instances starting at the same time
+const MIGRATION_LOCK = `SELECT pg_advisory_xact_lock(hashtext('schema_version'))`;
+
+// Leaderboard filter for wallets with an active ban; `at` is the parameter
+// holding the current time
+const notBanned = (at: string) => `wallet NOT IN (
+  SELECT wallet FROM banned_wallets WHERE lifted_at IS NULL AND (expires_at IS NULL OR expires_at > ${at})
+)`;
+
+class PostgresDatabase implements Repository {
+  private pool: pg.Pool;
+
+  constructor(connectionString: string) {
+    this.pool = new pg.Pool({ connectionString });
+    this.pool.on('error', (err) => {
+      console.error('❌ Postgres pool error:', err.message);
+    });
+  }
+
+  async init(): Promise<void> {
+    await this.transaction(async (client) => {
+      await client.query(MIGRATION_LOCK);
+      await client.query(`
+        CREATE TABLE IF NOT EXISTS schema_version (
+          version INTEGER PRIMARY KEY,
+          name TEXT NOT NULL,
+          applied_at BIGINT NOT NULL
+        )
+      `);
+    });
+    console.log('✅ Connected to Postgres database');
+  }
+
+  async close(): Promise<void> {
+    await this.pool.end();
+    console.log('✅ Database connection closed');
+  }
+
+  private async query<T = any>(text: string, params: any[] = [], q: Queryable = this.pool): Promise<T[]> {
+    const result = await q.query(text, params);
+    return result.rows;
+  }
+
+  // Returns the number of rows affected
+  private async exec(text: string, params: any[] = [], q: Queryable = this.pool): Promise<number> {
+    const result = await q.query(text, params);
+    return result.rowCount ?? 0;
+  }
+
+  private async transaction<T>(work: (client: pg.PoolClient) => Promise<T>): Promise<T> {
+    const client = await this.pool.connect();
+    try {
+      await client.query('BEGIN');
+      const result = await work(client);
+      await client.query('COMMIT');
+      return result;
+    } catch (err) {
+      await client.query('ROLLBACK').catch(() => {});
+      throw err;
+    } finally {
+      client.release();
+    }
+  }
+
+  private mapLeaderboard(rows: any[]): LeaderboardEntry[] {
+    return rows.map((row, index) => ({
+      rank: index + 1,
+      wallet: row.wallet,
+      score: row.score,
+      gamesPlayed: row.games_played,
+      lastPlayed: row.last_played,
+    }));
+  }
+
+  private mapGameSession(row: any): GameSession {
+    return {
+      id: row.id,
+      status: row.status,
+      seed: row.seed,
+      wallet: row.wallet ?? undefined,
+      paymentRef: row.payment_ref ?? undefined,
+      feeRecorded: !!row.fee_recorded,
+      createdAt: row.created_at,
+      paidAt: row.paid_at ?? undefined,
+      startedAt: row.started_at ?? undefined,
+      endedAt: row.ended_at ?? undefined,
+      updatedAt: row.updated_at,
+    };
+  }
+
+  async getAppliedMigrations(): Promise<AppliedMigration[]> {
+    const rows = await this.query('SELECT * FROM schema_version ORDER BY version ASC');
+    return rows.map(row => ({ version: row.version, name: row.name, appliedAt: row.applied_at }));
+  }
+
+  async applyMigration(migration: Migration): Promise<boolean> {
+    return this.transaction(async (client) => {
+      await client.query(MIGRATION_LOCK);
+      const [done] = await this.query('SELECT version FROM schema_version WHERE version = $1', [migration.version], client);
+      if (done) return false;
+      await client.query(migration.sql);
+      await this.exec(
+        'INSERT INTO schema_version (version, name, applied_at) VALUES ($1, $2, $3)',
+        [migration.version, migration.name, Date.now()],
+        client
+      );
+      return true;
+    });
+  }
+
+  // Game session helpers
+  async createGameSession(session: GameSession): Promise<void> {
+    await this.exec(`
+      INSERT INTO game_sessions
+      (id, status, seed, wallet, payment_ref, fee_recorded, created_at, paid_at, started_at, ended_at, updated_at)
+      VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9, $10, $11)
+    `, [
+      session.id,
+      session.status,
+      session.seed,
+      session.wallet || null,
+      session.paymentRef || null,
+      session.feeRecorded,
+      session.createdAt,
+      session.paidAt ?? null,
+      session.startedAt ?? null,
+      session.endedAt ?? null,
+      session.updatedAt,
+    ]);
+  }
+
+  async getGameSession(id: string): Promise<GameSession | null> {
+    const [row] = await this.query('SELECT * FROM game_sessions WHERE id = $1', [id]);
+    return row ? this.mapGameSession(row) : null;
+  }
+
+  async isTxHashRedeemed(txHash: string, sessionId: string): Promise<boolean> {
+    const rows = await this.query(`
+      SELECT 1 FROM game_sessions WHERE payment_ref = $1 AND id != $2
+      UNION ALL
+      SELECT 1 FROM entry_fees WHERE tx_hash = $1 AND (session_id IS NULL OR session_id != $2)
+      LIMIT 1
+    `, [txHash.toLowerCase(), sessionId]);
+    return rows.length > 0;
+  }
+
+  async getGameSessionsByStatus(statuses: GameSessionStatus[]): Promise<GameSession[]> {
+    const rows = await this.query('SELECT * FROM game_sessions WHERE status = ANY($1) ORDER BY created_at ASC', [statuses]);
+    return rows.map(row => this.mapGameSession(row));
+  }
+
+  async transitionGameSession(
+    id: string,
+    to: GameSessionStatus,
+    fields: Partial<Pick<GameSession, 'wallet' | 'paymentRef' | 'paidAt' | 'startedAt' | 'endedAt'>> = {}
+  ): Promise<GameSession | null> {
+    return this.applySessionTransition(id, to, fields, this.pool);
+  }
+
+  private async applySessionTransition(
+    id: string,
+    to: GameSessionStatus,
+    fields: Partial<Pick<GameSession, 'wallet' | 'paymentRef' | 'paidAt' | 'startedAt' | 'endedAt'>>,
+    q: Queryable
+  ): Promise<GameSession | null> {
+    const from = (Object.keys(SESSION_TRANSITIONS) as GameSessionStatus[])
+      .filter(status => SESSION_TRANSITIONS[status].includes(to));
+    const [row] = await this.query(`
+      UPDATE game_sessions SET
+        status = $1,
+        wallet = COALESCE($2, wallet),
+        payment_ref = COALESCE($3, payment_ref),
+        paid_at = COALESCE($4, paid_at),
+        started_at = COALESCE($5, started_at),
+        ended_at = COALESCE($6, ended_at),
+        updated_at = $7
+      WHERE id = $8 AND status = ANY($9)
+      RETURNING *
+    `, [
+      to,
+      fields.wallet ?? null,
+      fields.paymentRef ?? null,
+      fields.paidAt ?? null,
+      fields.startedAt ?? null,
+      fields.endedAt ?? null,
+      Date.now(),
+      id,
+      from,
+    ], q);
+    return row ? this.mapGameSession(row) : null;
+  }
+
+  async getUncompensatedAbandonedSessions(): Promise<GameSession[]> {
+    const rows = await this.query(`
+      SELECT s.* FROM game_sessions s
+      LEFT JOIN session_compensations c ON c.session_id = s.id
+      WHERE s.status = 'abandoned' AND s.wallet IS NOT NULL AND c.session_id IS NULL
+    `);
+    return rows.map(row => this.mapGameSession(row));
+  }
+
+  async markSessionFeeRecorded(id: string): Promise<void> {
+    await this.exec('UPDATE game_sessions SET fee_recorded = TRUE, updated_at = $1 WHERE id = $2', [Date.now(), id]);
+  }
+
+  private mapCompensation(row: any): SessionCompensation {
+    return {
+      sessionId: row.session_id,
+      wallet: row.wallet,
+      type: row.type,
+      status: row.status,
+      amount: row.amount,
+      redeemedSessionId: row.redeemed_session_id ?? undefined,
+      txHash: row.tx_hash ?? undefined,
+      createdAt: row.created_at,
+      updatedAt: row.updated_at,
+    };
+  }
+
+  async insertSessionCompensation(
+    compensation: Pick<SessionCompensation, 'sessionId' | 'wallet' | 'type' | 'status' | 'amount'>
+  ): Promise<void> {
+    const now = Date.now();
+    await this.exec(`
+      INSERT INTO session_compensations
+      (session_id, wallet, type, status, amount, created_at, updated_at)
+      VALUES ($1, $2, $3, $4, $5, $6, $7)
+      ON CONFLICT (session_id) DO NOTHING
+    `, [
+      compensation.sessionId,
+      compensation.wallet.toLowerCase(),
+      compensation.type,
+      compensation.status,
+      compensation.amount,
+      now,
+      now,
+    ]);
+  }
+
+  async getSessionCompensation(sessionId: string): Promise<SessionCompensation | null> {
+    const [row] = await this.query('SELECT * FROM session_compensations WHERE session_id = $1', [sessionId]);
+    return row ? this.mapCompensation(row) : null;
+  }
+
+  async getCompensations(type: CompensationType, status?: CompensationStatus): Promise<SessionCompensation[]> {
+    const rows = status
+      ? await this.query('SELECT * FROM session_compensations WHERE type = $1 AND status = $2 ORDER BY created_at ASC', [type, status])
+      : await this.query('SELECT * FROM session_compensations WHERE type = $1 ORDER BY created_at ASC', [type]);
+    return rows.map(row => this.mapCompensation(row));
+  }
+
+  async countAvailableCredits(wallet: string): Promise<number> {
+    const [row] = await this.query(
+      `SELECT COUNT(*) as count FROM session_compensations WHERE wallet = $1 AND type = 'credit' AND status = 'available'`,
+      [wallet.toLowerCase()]
+    );
+    return row.count;
+  }
+
+  // Concurrent redemptions skip each other's locked rows instead of racing for the same credit
+  async redeemCredit(wallet: string, redeemedSessionId: string): Promise<string | null> {
+    const [row] = await this.query(`
+      UPDATE session_compensations
+      SET status = 'redeemed', redeemed_session_id = $1, updated_at = $2
+      WHERE session_id = (
+        SELECT session_id FROM session_compensations
+        WHERE wallet = $3 AND type = 'credit' AND status = 'available'
+        ORDER BY created_at ASC LIMIT 1
+        FOR UPDATE SKIP LOCKED
+      ) AND status = 'available'
+      RETURNING session_id
+    `, [redeemedSessionId, Date.now(), wallet.toLowerCase()]);
+    return row ? row.session_id : null;
+  }
+
+  // Scores and stats
+  private mapPlayerStats(row: any): PlayerStats {
+    return {
+      wallet: row.wallet,
+      totalScore: row.total_score,
+      highScore: row.high_score,
+      gamesPlayed: row.games_played,
+      lastPlayed: row.last_played,
+    };
+  }
+
+  async getPlayerStats(wallet: string): Promise<PlayerStats | null> {
+    const [row] = await this.query('SELECT * FROM player_stats WHERE wallet = $1', [wallet]);
+    return row ? this.mapPlayerStats(row) : null;
+  }
+
+  // Same contract as the SQLite write path: one transaction that closes the
+  // session, in-SQL increments
+  async recordScore(game: NewGameRecord): Promise<{ gameId: number; playerStats: PlayerStats; session: GameSession } | null> {
+    const wallet = game.wallet.toLowerCase();
+    const seasons = await this.getActiveSeasons(game.submittedAt);
+    const periodKeys = [
+      weekWindow(game.submittedAt).key,
+      monthWindow(game.submittedAt).key,
+      ...seasons.map(season => seasonKey(season.id)),
+    ];
+    return this.transaction(async (client) => {
+      const session = await this.applySessionTransition(game.sessionId, 'submitted', { endedAt: game.submittedAt }, client);
+      if (!session) return null;
+      const [{ id }] = await this.query(`
+        INSERT INTO games
+        (session_id, wallet, score, duration_ms, food_eaten, max_length, moves, collision_type, flagged, payment_ref, played_at, submitted_at)
+        VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9, $10, $11, $12)
+        RETURNING id
+      `, [
+        game.sessionId,
+        wallet,
+        game.score,
+        game.durationMs,
+        game.foodEaten,
+        game.maxLength,
+        game.moves,
+        game.collisionType ?? null,
+        game.flagged,
+        game.paymentRef ?? null,
+        game.playedAt,
+        game.submittedAt,
+      ], client);
+      await this.exec(`
+        INSERT INTO player_stats (wallet, total_score, high_score, games_played, last_played)
+        VALUES ($1, $2, $3, 1, $4)
+        ON CONFLICT (wallet) DO UPDATE SET
+          total_score = player_stats.total_score + excluded.total_score,
+          high_score = GREATEST(player_stats.high_score, excluded.high_score),
+          games_played = player_stats.games_played + 1,
+          last_played = excluded.last_played
+      `, [wallet, game.score, game.score, game.submittedAt], client);
+      await this.exec(`
+        INSERT INTO daily_player_stats (wallet, total_score_daily, high_score_daily, games_played_daily, last_played_daily)
+        VALUES ($1, $2, $3, 1, $4)
+        ON CONFLICT (wallet) DO UPDATE SET
+          total_score_daily = daily_player_stats.total_score_daily + excluded.total_score_daily,
+          high_score_daily = GREATEST(daily_player_stats.high_score_daily, excluded.high_score_daily),
+          games_played_daily = daily_player_stats.games_played_daily + 1,
+          last_played_daily = excluded.last_played_daily
+      `, [wallet, game.score, game.score, game.submittedAt], client);
+      for (const key of periodKeys) {
+        await this.exec(`
+          INSERT INTO period_player_stats (period_key, wallet, total_score, high_score, games_played, last_played)
+          VALUES ($1, $2, $3, $4, 1, $5)
+          ON CONFLICT (period_key, wallet) DO UPDATE SET
+            total_score = period_player_stats.total_score + excluded.total_score,
+            high_score = GREATEST(period_player_stats.high_score, excluded.high_score),
+            games_played = period_player_stats.games_played + 1,
+            last_played = excluded.last_played
+        `, [key, wallet, game.score, game.score, game.submittedAt], client);
+      }
+      const [stats] = await this.query('SELECT * FROM player_stats WHERE wallet = $1', [wallet], client);
+      return { gameId: id, playerStats: this.mapPlayerStats(stats), session };
+    });
+  }
+
+  async getPlayerGames(wallet: string, limit: number = 20, offset: number = 0): Promise<{ games: GameRecord[]; total: number }> {
+    const key = wallet.toLowerCase();
+    const [summary] = await this.query('SELECT COUNT(*) as count FROM games WHERE wallet = $1', [key]);
+    const rows = await this.query(`
+      SELECT g.*, f.amount as entry_fee, f.tx_hash, f.payment_path
+      FROM games g
+      LEFT JOIN entry_fees f ON f.session_id = g.session_id
+      WHERE g.wallet = $1
+      ORDER BY g.submitted_at DESC, g.id DESC
+      LIMIT $2 OFFSET $3
+    `, [key, limit, offset]);
+    return {
+      games: rows.map(row => ({
+        id: row.id,
+        sessionId: row.session_id,
+        wallet: row.wallet,
+        score: row.score,
+        durationMs: row.duration_ms,
+        foodEaten: row.food_eaten,
+        maxLength: row.max_length,
+        moves: row.moves,
+        collisionType: row.collision_type ?? undefined,
+        flagged: !!row.flagged,
+        paymentRef: row.payment_ref ?? undefined,
+        playedAt: row.played_at,
+        submittedAt: row.submitted_at,
+        entryFee: row.entry_fee ?? undefined,
+        txHash: row.tx_hash ?? undefined,
+        paymentPath: row.payment_path ?? undefined,
+      })),
+      total: summary.count,
+    };
+  }
+
+  async getLeaderboard(type: 'total' | 'high', limit: number = 10): Promise<LeaderboardEntry[]> {
+    const scoreColumn = type === 'total' ? 'total_score' : 'high_score';
+    const rows = await this.query(`
+      SELECT wallet, ${scoreColumn} as score, games_played, last_played
+      FROM player_stats
+      WHERE ${scoreColumn} > 0 AND ${notBanned('$2')}
+      ORDER BY ${scoreColumn} DESC
+      LIMIT $1
+    `, [limit, Date.now()]);
+    return this.mapLeaderboard(rows);
+  }
+
+  async getTotalPlayers(): Promise<number> {
+    const [row] = await this.query(`SELECT COUNT(*) as count FROM player_stats WHERE games_played > 0 AND ${notBanned('$1')}`, [Date.now()]);
+    return row.count;
+  }
+
+  async getDailyPlayerStats(wallet: string): Promise<DailyPlayerStats | null> {
+    const [row] = await this.query('SELECT * FROM daily_player_stats WHERE wallet = $1', [wallet]);
+    return row ? {
+      wallet: row.wallet,
+      totalScoreDaily: row.total_score_daily,
+      highScoreDaily: row.high_score_daily,
+      gamesPlayedDaily: row.games_played_daily,
+      lastPlayedDaily: row.last_played_daily,
+    } : null;
+  }
+
+  async getDailyLeaderboard(type: 'total' | 'high', limit: number = 10): Promise<LeaderboardEntry[]> {
+    return this.readDailyLeaderboard(type, limit);
+  }
+
+  private async readDailyLeaderboard(type: 'total' | 'high', limit: number, q: Queryable = this.pool): Promise<LeaderboardEntry[]> {
+    const scoreColumn = type === 'total' ? 'total_score_daily' : 'high_score_daily';
+    const rows = await this.query(`
+      SELECT wallet, ${scoreColumn} as score, games_played_daily as games_played, last_played_daily as last_played
+      FROM daily_player_stats
+      WHERE ${scoreColumn} > 0 AND ${notBanned('$2')}
+      ORDER BY ${scoreColumn} DESC
+      LIMIT $1
+    `, [limit, Date.now()], q);
+    return this.mapLeaderboard(rows);
+  }
+
+  async getDailyScoresSum(type: 'total' | 'high'): Promise<number> {
+    const scoreColumn = type === 'total' ? 'total_score_daily' : 'high_score_daily';
+    const [row] = await this.query(
+      `SELECT COALESCE(SUM(${scoreColumn}), 0) as total FROM daily_player_stats WHERE ${scoreColumn} > 0 AND ${notBanned('$1')}`,
+      [Date.now()]
+    );
+    return Number(row.total) || 0;
+  }
+
+  async resetDailyStats(at = Date.now()): Promise<void> {
+    await this.transaction(client => this.archiveAndResetDailyStats(client, isoDate(at), null));
+  }
+
+  // The table lock holds off score writes until the snapshot and reset commit
+  private async archiveAndResetDailyStats(client: pg.PoolClient, date: string, cycleId: number | null): Promise<void> {
+    await client.query('LOCK TABLE daily_player_stats IN EXCLUSIVE MODE');
+    await this.exec(`
+      INSERT INTO daily_leaderboard_archive
+      (date, cycle_id, wallet, total_score, high_score, games_played, last_played, archived_at)
+      SELECT $1, $2, wallet, total_score_daily, high_score_daily, games_played_daily, last_played_daily, $3
+      FROM daily_player_stats
+      WHERE games_played_daily > 0
+    `, [date, cycleId, Date.now()], client);
+    await this.exec('UPDATE daily_player_stats SET total_score_daily = 0, high_score_daily = 0, games_played_daily = 0', [], client);
+  }
+
+  async getArchivedDailyLeaderboard(date: string, type: 'total' | 'high', limit: number = 10): Promise<LeaderboardEntry[]> {
+    const scoreExpr = type === 'total' ? 'SUM(total_score)' : 'MAX(high_score)';
+    const rows = await this.query(`
+      SELECT wallet, ${scoreExpr} as score, SUM(games_played) as games_played, MAX(last_played) as last_played
+      FROM daily_leaderboard_archive
+      WHERE date = $1 AND ${notBanned('$3')}
+      GROUP BY wallet
+      HAVING ${scoreExpr} > 0
+      ORDER BY score DESC
+      LIMIT $2
+    `, [date, limit, Date.now()]);
+    return this.mapLeaderboard(rows.map(row => ({ ...row, score: Number(row.score), games_played: Number(row.games_played) })));
+  }
+
+  async getArchivedDailyCycleIds(date: string): Promise<number[]> {
+    const rows = await this.query(
+      'SELECT DISTINCT cycle_id FROM daily_leaderboard_archive WHERE date = $1 AND cycle_id IS NOT NULL ORDER BY cycle_id',
+      [date]
+    );
+    return rows.map(row => row.cycle_id);
+  }
+
+  async getArchivedDailyDates(limit: number = 60): Promise<string[]> {
+    const rows = await this.query('SELECT DISTINCT date FROM daily_leaderboard_archive ORDER BY date DESC LIMIT $1', [limit]);
+    return rows.map(row => row.date);
+  }
+
+  async getPeriodLeaderboard(periodKey: string, type: 'total' | 'high', limit: number = 10): Promise<LeaderboardEntry[]> {
+    const scoreColumn = type === 'total' ? 'total_score' : 'high_score';
+    const rows = await this.query(`
+      SELECT wallet, ${scoreColumn} as score, games_played, last_played
+      FROM period_player_stats
+      WHERE period_key = $1 AND ${scoreColumn} > 0 AND ${notBanned('$3')}
+      ORDER BY ${scoreColumn} DESC
+      LIMIT $2
+    `, [periodKey, limit, Date.now()]);
+    return this.mapLeaderboard(rows);
+  }
+
+  async getPeriodPlayerCount(periodKey: string): Promise<number> {
+    const [row] = await this.query(
+      `SELECT COUNT(*) as count FROM period_player_stats WHERE period_key = $1 AND ${notBanned('$2')}`,
+      [periodKey, Date.now()]
+    );
+    return row.count;
+  }
+
+  // Bans
+  private mapBan(row: any): WalletBan {
+    return {
+      id: row.id,
+      wallet: row.wallet,
+      reason: row.reason,
+      bannedBy: row.banned_by,
+      createdAt: row.created_at,
+      expiresAt: row.expires_at ?? undefined,
+      liftedAt: row.lifted_at ?? undefined,
+      liftedBy: row.lifted_by ?? undefined,
+    };
+  }
+
+  private async findActiveBan(wallet: string, at: number, q: Queryable): Promise<WalletBan | null> {
+    const [row] = await this.query(`
+      SELECT * FROM banned_wallets
+      WHERE wallet = $1 AND lifted_at IS NULL AND (expires_at IS NULL OR expires_at > $2)
+      ORDER BY created_at DESC LIMIT 1
+    `, [wallet.toLowerCase(), at], q);
+    return row ? this.mapBan(row) : null;
+  }
+
+  // The advisory lock keeps two instances from banning the same wallet twice
+  async banWallet(ban: Pick<WalletBan, 'wallet' | 'reason' | 'bannedBy' | 'expiresAt'>): Promise<WalletBan | null> {
+    const wallet = ban.wallet.toLowerCase();
+    const createdAt = Date.now();
+    return this.transaction(async (client) => {
+      await client.query('SELECT pg_advisory_xact_lock(hashtext($1))', [`ban:${wallet}`]);
+      if (await this.findActiveBan(wallet, createdAt, client)) return null;
+      const [row] = await this.query(`
+        INSERT INTO banned_wallets (wallet, reason, banned_by, created_at, expires_at)
+        VALUES ($1, $2, $3, $4, $5)
+        RETURNING *
+      `, [wallet, ban.reason, ban.bannedBy, createdAt, ban.expiresAt ?? null], client);
+      return this.mapBan(row);
+    });
+  }
+
+  async liftBan(wallet: string, liftedBy: string): Promise<WalletBan | null> {
+    const liftedAt = Date.now();
+    const [row] = await this.query(`
+      UPDATE banned_wallets SET lifted_at = $3, lifted_by = $2
+      WHERE wallet = $1 AND lifted_at IS NULL AND (expires_at IS NULL OR expires_at > $3)
+      RETURNING *
+    `, [wallet.toLowerCase(), liftedBy, liftedAt]);
+    return row ? this.mapBan(row) : null;
+  }
+
+  async getActiveBan(wallet: string, at = Date.now()): Promise<WalletBan | null> {
+    return this.findActiveBan(wallet, at, this.pool);
+  }
+
+  async getBans(
+    filter: { wallet?: string; activeOnly?: boolean },
+    limit: number,
+    offset: number
+  ): Promise<{ bans: WalletBan[]; total: number }> {
+    const conditions: string[] = [];
+    const params: any[] = [];
+    if (filter.wallet) {
+      params.push(filter.wallet.toLowerCase());
+      conditions.push(`wallet = $${params.length}`);
+    }
+    if (filter.activeOnly) {
+      params.push(Date.now());
+      conditions.push(`lifted_at IS NULL AND (expires_at IS NULL OR expires_at > $${params.length})`);
+    }
+    const where = conditions.length ? `WHERE ${conditions.join(' AND ')}` : '';
+    const [count] = await this.query(`SELECT COUNT(*) as count FROM banned_wallets ${where}`, params);
+    const rows = await this.query(
+      `SELECT * FROM banned_wallets ${where} ORDER BY created_at DESC, id DESC LIMIT $${params.length + 1} OFFSET $${params.length + 2}`,
+      [...params, limit, offset]
+    );
+    return { bans: rows.map(row => this.mapBan(row)), total: count.count };
+  }
+
+  // Admin audit
+  async recordAdminAction(entry: Omit<AdminAuditEntry, 'id'>): Promise<number> {
+    const [row] = await this.query(`
+      INSERT INTO admin_audit (action, actor, params, status, result, created_at)
+      VALUES ($1, $2, $3, $4, $5, $6)
+      RETURNING id
+    `, [entry.action, entry.actor, JSON.stringify(entry.params), entry.status, JSON.stringify(entry.result ?? null), entry.createdAt]);
+    return row.id;
+  }
+
+  async getAdminAudit(filter: AdminAuditQuery = {}): Promise<{ entries: AdminAuditEntry[]; total: number }> {
+    const conditions: string[] = [];
+    const params: any[] = [];
+    const add = (clause: string, value: any) => {
+      params.push(value);
+      conditions.push(clause.replace('?', `$${params.length}`));
+    };
+    if (filter.action) add('action = ?', filter.action);
+    if (filter.actor) add('actor = ?', filter.actor);
+    if (filter.since !== undefined) add('created_at >= ?', filter.since);
+    if (filter.until !== undefined) add('created_at < ?', filter.until);
+    const where = conditions.length ? `WHERE ${conditions.join(' AND ')}` : '';
+
+    const [count] = await this.query(`SELECT COUNT(*) as count FROM admin_audit ${where}`, params);
+    const rows = await this.query(
+      `SELECT * FROM admin_audit ${where} ORDER BY created_at DESC, id DESC LIMIT $${params.length + 1} OFFSET $${params.length + 2}`,
+      [...params, filter.limit ?? 50, filter.offset ?? 0]
+    );
+    return {
+      entries: rows.map(row => ({
+        id: row.id,
+        action: row.action,
+        actor: row.actor,
+        params: JSON.parse(row.params),
+        status: row.status,
+        result: row.result ? JSON.parse(row.result) : null,
+        createdAt: row.created_at,
+      })),
+      total: count.count,
+    };
+  }
+
+  // Seasons
+  private mapSeason(row: any): Season {
+    return {
+      id: row.id,
+      name: row.name,
+      startsAt: row.starts_at,
+      endsAt: row.ends_at,
+      prizePool: row.prize_pool,
+      createdAt: row.created_at,
+    };
+  }
+
+  async createSeason(season: Omit<Season, 'id' | 'createdAt'>): Promise<Season> {
+    const [row] = await this.query(
+      'INSERT INTO seasons (name, starts_at, ends_at, prize_pool, created_at) VALUES ($1, $2, $3, $4, $5) RETURNING *',
+      [season.name, season.startsAt, season.endsAt, season.prizePool, Date.now()]
+    );
+    return this.mapSeason(row);
+  }
+
+  async getSeason(id: number): Promise<Season | null> {
+    const [row] = await this.query('SELECT * FROM seasons WHERE id = $1', [id]);
+    return row ? this.mapSeason(row) : null;
+  }
+
+  async getSeasonByName(name: string): Promise<Season | null> {
+    const [row] = await this.query('SELECT * FROM seasons WHERE name = $1', [name]);
+    return row ? this.mapSeason(row) : null;
+  }
+
+  async getSeasons(): Promise<Season[]> {
+    const rows = await this.query('SELECT * FROM seasons ORDER BY starts_at DESC');
+    return rows.map(row => this.mapSeason(row));
+  }
+
+  async getActiveSeasons(at = Date.now()): Promise<Season[]> {
+    const rows = await this.query('SELECT * FROM seasons WHERE starts_at <= $1 AND ends_at > $1 ORDER BY starts_at DESC', [at]);
+    return rows.map(row => this.mapSeason(row));
+  }
+
+  // Entry fees
+  async recordEntryFee(fee: Omit<EntryFeeRecord, 'id' | 'timestamp'>): Promise<boolean> {
+    const inserted = await this.exec(`
+      INSERT INTO entry_fees
+      (amount, timestamp, wallet, session_id, tx_hash, payment_ref, network, payment_path)
+      VALUES ($1, $2, $3, $4, $5, $6, $7, $8)
+      ON CONFLICT DO NOTHING
+    `, [
+      fee.amount,
+      Date.now(),
+      fee.wallet?.toLowerCase() || null,
+      fee.sessionId || null,
+      fee.txHash?.toLowerCase() || null,
+      fee.paymentRef || null,
+      fee.network || null,
+      fee.paymentPath || null,
+    ]);
+    return inserted > 0;
+  }
+
+  async getEntryFees(filter: EntryFeeQuery = {}): Promise<{ entries: EntryFeeRecord[]; total: number; totalAmount: number }> {
+    const conditions: string[] = [];
+    const params: any[] = [];
+    const add = (condition: string, value: any) => {
+      params.push(value);
+      conditions.push(condition.replace('?', `$${params.length}`));
+    };
+    if (filter.wallet) add('wallet = ?', filter.wallet.toLowerCase());
+    if (filter.sessionId) add('session_id = ?', filter.sessionId);
+    if (filter.txHash) add('tx_hash = ?', filter.txHash.toLowerCase());
+    if (filter.paymentPath) add('payment_path = ?', filter.paymentPath);
+    if (filter.since !== undefined) add('timestamp >= ?', filter.since);
+    if (filter.until !== undefined) add('timestamp < ?', filter.until);
+    const where = conditions.length ? `WHERE ${conditions.join(' AND ')}` : '';
+
+    const [summary] = await this.query(`SELECT COUNT(*) as count, COALESCE(SUM(amount), 0) as total FROM entry_fees ${where}`, params);
+    const rows = await this.query(
+      `SELECT * FROM entry_fees ${where} ORDER BY timestamp DESC, id DESC LIMIT $${params.length + 1} OFFSET $${params.length + 2}`,
+      [...params, filter.limit ?? 50, filter.offset ?? 0]
+    );
+    return {
+      entries: rows.map(row => ({
+        id: row.id,
+        amount: row.amount,
+        timestamp: row.timestamp,
+        wallet: row.wallet ?? undefined,
+        sessionId: row.session_id ?? undefined,
+        txHash: row.tx_hash ?? undefined,
+        paymentRef: row.payment_ref ?? undefined,
+        network: row.network ?? undefined,
+        paymentPath: row.payment_path ?? undefined,
+      })),
+      total: summary.count,
+      totalAmount: summary.total || 0,
+    };
+  }
+
+  async getTotalEntryFeesSince(cutoff: number): Promise<number> {
+    const [row] = await this.query('SELECT COALESCE(SUM(amount), 0) as total FROM entry_fees WHERE timestamp >= $1', [cutoff]);
+    return row.total || 0;
+  }
+
+  async getTotalEntryFeesBetween(start: number, end: number): Promise<number> {
+    const [row] = await this.query(
+      'SELECT COALESCE(SUM(amount), 0) as total FROM entry_fees WHERE timestamp >= $1 AND timestamp < $2',
+      [start, end]
+    );
+    return row.total || 0;
+  }
+
+  // Payouts
+  private mapPayoutCycle(row: any): PayoutCycle {
+    return {
+      id: row.id,
+      windowStart: row.window_start,
+      windowEnd: row.window_end,
+      status: row.status,
+      totalPool: row.total_pool,
+      poolTotal: row.pool_total,
+      poolHigh: row.pool_high,
+      poolTreasury: row.pool_treasury,
+      winnerCount: row.winner_count,
+      mode: row.mode ?? 'push',
+      merkleRoot: row.merkle_root ?? undefined,
+      rolloverInUnits: row.rollover_in_units ?? '0',
+      rolloverOutUnits: row.rollover_out_units ?? '0',
+      onchainStatus: row.onchain_status ?? undefined,
+      txHash: row.tx_hash ?? undefined,
+      error: row.error ?? undefined,
+      createdAt: row.created_at,
+      updatedAt: row.updated_at,
+      completedAt: row.completed_at ?? undefined,
+    };
+  }
+
+  private mapPayoutItem(row: any): PayoutItem {
+    return {
+      cycleId: row.cycle_id,
+      wallet: row.wallet,
+      totalScore: row.total_score,
+      highScore: row.high_score,
+      rewardTotal: row.reward_total,
+      rewardHigh: row.reward_high,
+      reward: row.reward,
+      rewardUnits: row.reward_units,
+      carriedUnits: row.carried_units ?? '0',
+      batchIndex: row.batch_index ?? undefined,
+    };
+  }
+
+  private mapPayoutBatch(row: any): PayoutBatch {
+    return {
+      id: row.id,
+      cycleId: row.cycle_id,
+      batchIndex: row.batch_index,
+      status: row.status,
+      walletCount: row.wallet_count,
+      amountUnits: row.amount_units,
+      txHash: row.tx_hash ?? undefined,
+      signedTx: row.signed_tx ?? undefined,
+      attempts: row.attempts,
+      nextAttemptAt: row.next_attempt_at,
+      error: row.error ?? undefined,
+      createdAt: row.created_at,
+      updatedAt: row.updated_at,
+    };
+  }
+
+  async createPayoutCycle(limit: number, build: (standings: DailyStandings) => NewPayoutCycle): Promise<PayoutCycle> {
+    const now = Date.now();
+    return this.transaction(async (client) => {
+      // Taken before the standings are read, so no score lands between them and the reset
+      await client.query('LOCK TABLE daily_player_stats IN EXCLUSIVE MODE');
+      const total = await this.readDailyLeaderboard('total', limit, client);
+      const high = await this.readDailyLeaderboard('high', limit, client);
+      const pendingBalances = await this.readWalletBalances([...total, ...high].map(entry => entry.wallet), client);
+      const { cycle, items, balances } = build({ total, high, pendingBalances });
+      const [row] = await this.query(`
+        INSERT INTO payout_cycles
+        (window_start, window_end, status, total_pool, pool_total, pool_high, pool_treasury, winner_count,
+         mode, merkle_root, rollover_in_units, rollover_out_units, created_at, updated_at)
+        VALUES ($1, $2, 'pending', $3, $4, $5, $6, $7, $8, $9, $10, $11, $12, $12)
+        RETURNING *
+      `, [
+        cycle.windowStart,
+        cycle.windowEnd,
+        cycle.totalPool,
+        cycle.poolTotal,
+        cycle.poolHigh,
+        cycle.poolTreasury,
+        cycle.winnerCount,
+        cycle.mode,
+        cycle.merkleRoot ?? null,
+        cycle.rolloverInUnits,
+        cycle.rolloverOutUnits,
+        now,
+      ], client);
+      const batches = new Map<number, { walletCount: number; amountUnits: bigint }>();
+      for (const item of items) {
+        await this.exec(`
+          INSERT INTO payout_items
+          (cycle_id, wallet, total_score, high_score, reward_total, reward_high, reward, reward_units, carried_units, batch_index)
+          VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9, $10)
+        `, [
+          row.id, item.wallet, item.totalScore, item.highScore, item.rewardTotal, item.rewardHigh,
+          item.reward, item.rewardUnits, item.carriedUnits, item.batchIndex ?? null
+        ], client);
+        if (item.batchIndex !== undefined) {
+          const batch = batches.get(item.batchIndex) || { walletCount: 0, amountUnits: 0n };
+          batch.walletCount += 1;
+          batch.amountUnits += BigInt(item.rewardUnits);
+          batches.set(item.batchIndex, batch);
+        }
+      }
+      for (const [batchIndex, batch] of batches) {
+        await this.exec(`
+          INSERT INTO payout_batches
+          (cycle_id, batch_index, status, wallet_count, amount_units, attempts, next_attempt_at, created_at, updated_at)
+          VALUES ($1, $2, 'pending', $3, $4, 0, $5, $5, $5)
+        `, [row.id, batchIndex, batch.walletCount, batch.amountUnits.toString(), now], client);
+      }
+      for (const balance of balances) {
+        await this.exec(`
+          INSERT INTO wallet_balances (wallet, pending_units, updated_at) VALUES ($1, $2, $3)
+          ON CONFLICT (wallet) DO UPDATE SET pending_units = excluded.pending_units, updated_at = excluded.updated_at
+        `, [balance.wallet.toLowerCase(), balance.pendingUnits, now], client);
+      }
+      await this.archiveAndResetDailyStats(client, isoDate(cycle.windowEnd - 1), row.id);
+      return this.mapPayoutCycle(row);
+    });
+  }
+
+  async getPayoutCycle(id: number): Promise<PayoutCycle | null> {
+    const [row] = await this.query('SELECT * FROM payout_cycles WHERE id = $1', [id]);
+    return row ? this.mapPayoutCycle(row) : null;
+  }
+
+  async getLatestPayoutCycle(): Promise<PayoutCycle | null> {
+    const [row] = await this.query('SELECT * FROM payout_cycles ORDER BY window_start DESC LIMIT 1');
+    return row ? this.mapPayoutCycle(row) : null;
+  }
+
+  async getLatestPaidPayoutCycle(): Promise<PayoutCycle | null> {
+    const [row] = await this.query('SELECT * FROM payout_cycles WHERE tx_hash IS NOT NULL ORDER BY window_start DESC LIMIT 1');
+    return row ? this.mapPayoutCycle(row) : null;
+  }
+
+  async getLatestPublishedClaimCycle(): Promise<PayoutCycle | null> {
+    const [row] = await this.query(`
+      SELECT * FROM payout_cycles
+      WHERE mode = 'claim' AND merkle_root IS NOT NULL AND onchain_status = 'confirmed'
+      ORDER BY window_start DESC LIMIT 1
+    `);
+    return row ? this.mapPayoutCycle(row) : null;
+  }
+
+  async getClaimTotals(upToWindowStart?: number): Promise<{ wallet: string; units: string }[]> {
+    const rows = await this.query(`
+      SELECT MIN(i.wallet) as wallet, SUM(CAST(i.reward_units AS NUMERIC))::TEXT as units
+      FROM payout_items i JOIN payout_cycles c ON c.id = i.cycle_id
+      WHERE c.mode = 'claim' AND c.window_start <= $1
+      GROUP BY lower(i.wallet)
+      HAVING SUM(CAST(i.reward_units AS NUMERIC)) > 0
+    `, [upToWindowStart ?? Number.MAX_SAFE_INTEGER]);
+    return rows.map(row => ({ wallet: row.wallet, units: row.units }));
+  }
+
+  async getPayoutCycles(limit: number, offset: number): Promise<{ cycles: PayoutCycle[]; total: number }> {
+    const [summary] = await this.query('SELECT COUNT(*) as count FROM payout_cycles');
+    const rows = await this.query('SELECT * FROM payout_cycles ORDER BY window_start DESC LIMIT $1 OFFSET $2', [limit, offset]);
+    return { cycles: rows.map(row => this.mapPayoutCycle(row)), total: summary.count };
+  }
+
+  async updatePayoutCycle(
+    id: number,
+    fields: Partial<Pick<PayoutCycle, 'status' | 'onchainStatus' | 'txHash' | 'error'>>
+  ): Promise<void> {
+    await this.updateColumns('payout_cycles', id, fields, {
+      status: 'status',
+      onchainStatus: 'onchain_status',
+      txHash: 'tx_hash',
+      error: 'error',
+    });
+  }
+
+  async completePayoutCycle(id: number): Promise<void> {
+    const now = Date.now();
+    await this.exec(
+      `UPDATE payout_cycles SET status = 'completed', error = NULL, completed_at = $1, updated_at = $1 WHERE id = $2`,
+      [now, id]
+    );
+  }
+
+  // Set the given fields (mapped to columns) and updated_at on one row
+  private async updateColumns(table: string, id: number, fields: object, columns: Record<string, string>): Promise<void> {
+    const params: any[] = [Date.now()];
+    const sets = ['updated_at = $1'];
+    for (const [key, column] of Object.entries(columns)) {
+      if (key in fields) {
+        params.push((fields as any)[key] ?? null);
+        sets.push(`${column} = $${params.length}`);
+      }
+    }
+    params.push(id);
+    await this.exec(`UPDATE ${table} SET ${sets.join(', ')} WHERE id = $${params.length}`, params);
+  }
+
+  async getPayoutItems(cycleId: number): Promise<PayoutItem[]> {
+    const rows = await this.query('SELECT * FROM payout_items WHERE cycle_id = $1 ORDER BY reward DESC, wallet ASC', [cycleId]);
+    return rows.map(row => this.mapPayoutItem(row));
+  }
+
+  async getPayoutBatchItems(cycleId: number, batchIndex: number): Promise<PayoutItem[]> {
+    const rows = await this.query(
+      'SELECT * FROM payout_items WHERE cycle_id = $1 AND batch_index = $2 ORDER BY wallet ASC',
+      [cycleId, batchIndex]
+    );
+    return rows.map(row => this.mapPayoutItem(row));
+  }
+
+  async getPayoutBatch(id: number): Promise<PayoutBatch | null> {
+    const [row] = await this.query('SELECT * FROM payout_batches WHERE id = $1', [id]);
+    return row ? this.mapPayoutBatch(row) : null;
+  }
+
+  async getPayoutBatches(filter: { cycleId?: number; status?: PayoutBatchStatus } = {}): Promise<PayoutBatch[]> {
+    const conditions: string[] = [];
+    const params: any[] = [];
+    if (filter.cycleId !== undefined) { params.push(filter.cycleId); conditions.push(`cycle_id = $${params.length}`); }
+    if (filter.status) { params.push(filter.status); conditions.push(`status = $${params.length}`); }
+    const where = conditions.length ? `WHERE ${conditions.join(' AND ')}` : '';
+    const rows = await this.query(`SELECT * FROM payout_batches ${where} ORDER BY cycle_id ASC, batch_index ASC`, params);
+    return rows.map(row => this.mapPayoutBatch(row));
+  }
+
+  async getDuePayoutBatches(now: number): Promise<PayoutBatch[]> {
+    const rows = await this.query(`
+      SELECT * FROM payout_batches
+      WHERE status IN ('pending', 'submitted') AND next_attempt_at <= $1
+      ORDER BY cycle_id ASC, batch_index ASC
+    `, [now]);
+    return rows.map(row => this.mapPayoutBatch(row));
+  }
+
+  async getNextPayoutBatchAttemptAt(): Promise<number | null> {
+    const [row] = await this.query(`SELECT MIN(next_attempt_at) as next FROM payout_batches WHERE status IN ('pending', 'submitted')`);
+    return row?.next ?? null;
+  }
+
+  async updatePayoutBatch(
+    id: number,
+    fields: Partial<Pick<PayoutBatch, 'status' | 'txHash' | 'signedTx' | 'attempts' | 'nextAttemptAt' | 'error'>>
+  ): Promise<void> {
+    await this.updateColumns('payout_batches', id, fields, {
+      status: 'status',
+      txHash: 'tx_hash',
+      signedTx: 'signed_tx',
+      attempts: 'attempts',
+      nextAttemptAt: 'next_attempt_at',
+      error: 'error',
+    });
+  }
+
+  async requeueFailedPayoutBatches(filter: { cycleId?: number; batchId?: number } = {}): Promise<PayoutBatch[]> {
+    const failed = (await this.getPayoutBatches({ cycleId: filter.cycleId, status: 'failed' }))
+      .filter(batch => filter.batchId === undefined || batch.id === filter.batchId);
+    const now = Date.now();
+    await this.transaction(async (client) => {
+      for (const batch of failed) {
+        await this.exec(
+          `UPDATE payout_batches SET status = 'pending', attempts = 0, next_attempt_at = $1, error = NULL, updated_at = $1 WHERE id = $2`,
+          [now, batch.id],
+          client
+        );
+        await this.exec(
+          `UPDATE payout_cycles SET status = 'pending', error = NULL, updated_at = $1 WHERE id = $2 AND status = 'failed'`,
+          [now, batch.cycleId],
+          client
+        );
+      }
+    });
+    return failed;
+  }
+
+  async getWalletBalance(wallet: string): Promise<WalletBalance | null> {
+    const [row] = await this.query('SELECT * FROM wallet_balances WHERE wallet = lower($1)', [wallet]);
+    return row ? { wallet: row.wallet, pendingUnits: row.pending_units, updatedAt: row.updated_at } : null;
+  }
+
+  async getWalletBalances(wallets: string[]): Promise<Map<string, bigint>> {
+    return this.readWalletBalances(wallets);
+  }
+
+  private async readWalletBalances(wallets: string[], q: Queryable = this.pool): Promise<Map<string, bigint>> {
+    const balances = new Map<string, bigint>();
+    if (wallets.length === 0) return balances;
+    const rows = await this.query(
+      'SELECT wallet, pending_units FROM wallet_balances WHERE wallet = ANY($1)',
+      [wallets.map(wallet => wallet.toLowerCase())],
+      q
+    );
+    rows.forEach(row => balances.set(row.wallet, BigInt(row.pending_units)));
+    return balances;
+  }
+
+  async getWalletPayouts(wallet: string, limit: number, offset: number): Promise<{
+    payouts: WalletPayout[];
+    total: number;
+    paidUnits: string;
+    pendingUnits: string;
+  }> {
+    const joins = `
+      FROM payout_items i
+      JOIN payout_cycles c ON c.id = i.cycle_id
+      LEFT JOIN payout_batches b ON b.cycle_id = i.cycle_id AND b.batch_index = i.batch_index
+      WHERE lower(i.wallet) = lower($1)
+    `;
+    const paidExpr = `(b.status = 'confirmed' OR (i.batch_index IS NULL AND c.status = 'completed'))`;
+    const [summary] = await this.query(`
+      SELECT COUNT(*) as count,
+        COALESCE(SUM(CASE WHEN ${paidExpr} THEN CAST(i.reward_units AS NUMERIC) ELSE 0 END), 0)::TEXT as paid,
+        COALESCE(SUM(CASE WHEN ${paidExpr} THEN 0 ELSE CAST(i.reward_units AS NUMERIC) END), 0)::TEXT as pending
+      ${joins}
+    `, [wallet]);
+    const rows = await this.query(`
+      SELECT i.*, c.window_start, c.window_end, c.status, c.mode, c.completed_at,
+        COALESCE(b.tx_hash, c.tx_hash) as paid_tx_hash, ${paidExpr} as paid
+      ${joins}
+      ORDER BY c.window_start DESC
+      LIMIT $2 OFFSET $3
+    `, [wallet, limit, offset]);
+    return {
+      payouts: rows.map(row => ({
+        ...this.mapPayoutItem(row),
+        windowStart: row.window_start,
+        windowEnd: row.window_end,
+        status: row.status,
+        mode: row.mode ?? 'push',
+        paid: !!row.paid,
+        txHash: row.paid_tx_hash ?? undefined,
+        completedAt: row.completed_at ?? undefined,
+      })),
+      total: summary.count,
+      paidUnits: summary.paid,
+      pendingUnits: summary.pending,
+    };
+  }
+
+  async getTotalTreasuryAccrued(): Promise<number> {
+    const [row] = await this.query('SELECT COALESCE(SUM(pool_treasury), 0) as total FROM payout_cycles');
+    return row.total || 0;
+  }
+
+  async acquireLock(name: string, owner: string, ttlMs: number): Promise<boolean> {
+    const now = Date.now();
+    const acquired = await this.exec(`
+      INSERT INTO scheduler_locks (name, owner, expires_at) VALUES ($1, $2, $3)
+      ON CONFLICT (name) DO UPDATE SET owner = excluded.owner, expires_at = excluded.expires_at
+      WHERE scheduler_locks.expires_at < $4 OR scheduler_locks.owner = excluded.owner
+    `, [name, owner, now + ttlMs, now]);
+    return acquired > 0;
+  }
+
+  async releaseLock(name: string, owner: string): Promise<void> {
+    await this.exec('DELETE FROM scheduler_locks WHERE name = $1 AND owner = $2', [name, owner]);
+  }
+
+  // Chain indexing
+  async insertChainEvents(events: ChainEvent[]): Promise<number> {
+    return this.transaction(async (client) => {
+      let inserted = 0;
+      for (const event of events) {
+        inserted += await this.exec(`
+          INSERT INTO chain_events (event, account, amount_units, tx_hash, log_index, block_number)
+          VALUES ($1, $2, $3, $4, $5, $6)
+          ON CONFLICT (tx_hash, log_index) DO NOTHING
+        `, [
+          event.event,
+          event.account.toLowerCase(),
+          event.amountUnits,
+          event.txHash.toLowerCase(),
+          event.logIndex,
+          event.blockNumber,
+        ], client);
+      }
+      return inserted;
+    });
+  }
+
+  async getChainEvents(filter: { event?: ChainEventName; txHash?: string } = {}): Promise<ChainEvent[]> {
+    const conditions: string[] = [];
+    const params: any[] = [];
+    if (filter.event) { params.push(filter.event); conditions.push(`event = $${params.length}`); }
+    if (filter.txHash) { params.push(filter.txHash); conditions.push(`tx_hash = lower($${params.length})`); }
+    const where = conditions.length ? `WHERE ${conditions.join(' AND ')}` : '';
+    const rows = await this.query(`SELECT * FROM chain_events ${where} ORDER BY block_number ASC, log_index ASC`, params);
+    return rows.map(row => ({
+      id: row.id,
+      event: row.event,
+      account: row.account,
+      amountUnits: row.amount_units,
+      txHash: row.tx_hash,
+      logIndex: row.log_index,
+      blockNumber: row.block_number,
+    }));
+  }
+
+  async getChainCursor(name: string): Promise<number | null> {
+    const [row] = await this.query('SELECT block_number FROM chain_cursors WHERE name = $1', [name]);
+    return row ? row.block_number : null;
+  }
+
+  async setChainCursor(name: string, blockNumber: number): Promise<void> {
+    await this.exec(`
+      INSERT INTO chain_cursors (name, block_number, updated_at) VALUES ($1, $2, $3)
+      ON CONFLICT (name) DO UPDATE SET block_number = excluded.block_number, updated_at = excluded.updated_at
+    `, [name, blockNumber, Date.now()]);
+  }
+}
+
+export default PostgresDatabase;
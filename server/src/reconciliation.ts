@@ -0,0 +1,245 @@
+import { Interface, JsonRpcProvider, parseUnits } from 'ethers';
+import type { ChainEvent, ChainEventName, PayoutCycle, Repository } from './repository.js';
+
+// Indexes PrizePool events into chain_events and checks them against the
+// payout ledger and entry fees. Works against any JSON-RPC endpoint, including
+// a local chain node.
+
+const PRIZE_POOL_EVENTS = new Interface([
+  'event Payout(address indexed to, uint256 amount)',
+  'event Deposit(address indexed from, uint256 amount)',
+  'event TreasuryWithdraw(address indexed to, uint256 amount)'
+]);
+const EVENT_NAMES: ChainEventName[] = ['Payout', 'Deposit', 'TreasuryWithdraw'];
+const CURSOR = 'prize_pool';
+
+export interface ReconcilerOptions {
+  rpcUrl: string;
+  prizePoolContract: string;
+  startBlock?: number; // first block indexed on a fresh database (default: the current head)
+  maxBlockRange?: number; // blocks per eth_getLogs request (default 2000)
+  confirmations?: number; // blocks behind the head to stay, to avoid reorged logs (default 0)
+}
+
+export type MismatchType =
+  | 'missing_payout' // a confirmed batch paid a wallet less than recorded, or not at all
+  | 'payout_amount_mismatch'
+  | 'unexpected_payout' // Payout event with no matching reward
+  | 'claim_exceeds_owed' // claimed more than the cumulative claim-mode rewards
+  | 'unmatched_deposit' // Deposit event with no entry fee for its transaction
+  | 'deposit_amount_mismatch'
+  | 'treasury_overdrawn'; // withdrawn more than the treasury shares accrued
+
+export interface ReconciliationMismatch {
+  type: MismatchType;
+  message: string;
+  txHash?: string;
+  wallet?: string;
+  cycleId?: number;
+  batchId?: number;
+  expectedUnits?: string;
+  actualUnits?: string;
+}
+
+export interface ReconciliationReport {
+  indexedThrough: number | null; // last block indexed by sync
+  summary: {
+    payoutEvents: number;
+    payoutUnits: string;
+    depositEvents: number;
+    depositUnits: string;
+    treasuryWithdrawnUnits: string;
+    treasuryAccruedUnits: string;
+  };
+  mismatches: ReconciliationMismatch[];
+}
+
+const sumUnits = (events: ChainEvent[]) => events.reduce((sum, e) => sum + BigInt(e.amountUnits), 0n);
+const toUnits = (amount: number) => parseUnits(amount.toFixed(6), 6); // Base USDC uses 6 decimals
+
+class Reconciler {
+  private syncing = false;
+
+  constructor(private db: Repository, private options: ReconcilerOptions) {}
+
+  // Index everything between the cursor and the (confirmed) head. Returns new events.
+  async sync(): Promise<number> {
+    if (this.syncing) return 0;
+    this.syncing = true;
+    const provider = new JsonRpcProvider(this.options.rpcUrl);
+    try {
+      const head = await provider.getBlockNumber() - (this.options.confirmations ?? 0);
+      const cursor = await this.db.getChainCursor(CURSOR) ?? (this.options.startBlock ?? head) - 1;
+      if (cursor >= head) return 0;
+      return await this.indexRange(provider, cursor + 1, head, true);
+    } finally {
+      this.syncing = false;
+      provider.destroy();
+    }
+  }
+
+  // Re-index a block range without moving the sync cursor. Safe to repeat.
+  async backfill(fromBlock: number, toBlock: number): Promise<number> {
+    const provider = new JsonRpcProvider(this.options.rpcUrl);
+    try {
+      return await this.indexRange(provider, fromBlock, toBlock, false);
+    } finally {
+      provider.destroy();
+    }
+  }
+
+  private async indexRange(provider: JsonRpcProvider, fromBlock: number, toBlock: number, advanceCursor: boolean) {
+    const range = this.options.maxBlockRange ?? 2000;
+    const topics = EVENT_NAMES.map(name => PRIZE_POOL_EVENTS.getEvent(name)!.topicHash);
+    let inserted = 0;
+    for (let start = fromBlock; start <= toBlock; start += range) {
+      const end = Math.min(start + range - 1, toBlock);
+      const logs = await provider.getLogs({
+        address: this.options.prizePoolContract,
+        fromBlock: start,
+        toBlock: end,
+        topics: [topics],
+      });
+      const events: ChainEvent[] = [];
+      for (const log of logs) {
+        if (log.removed) continue; // reorged out, as reported by the node
+        const parsed = PRIZE_POOL_EVENTS.parseLog({ topics: [...log.topics], data: log.data });
+        if (!parsed) continue;
+        events.push({
+          event: parsed.name as ChainEventName,
+          account: parsed.args[0],
+          amountUnits: (parsed.args[1] as bigint).toString(),
+          txHash: log.transactionHash,
+          logIndex: log.index,
+          blockNumber: log.blockNumber,
+        });
+      }
+      inserted += await this.db.insertChainEvents(events);
+      if (advanceCursor) await this.db.setChainCursor(CURSOR, end);
+    }
+    if (inserted) console.log(`🔎 Indexed ${inserted} PrizePool events from blocks ${fromBlock}-${toBlock}`);
+    return inserted;
+  }
+
+  async reconcile(): Promise<ReconciliationReport> {
+    const indexedThrough = await this.db.getChainCursor(CURSOR);
+    const mismatches: ReconciliationMismatch[] = [];
+    const payouts = await this.db.getChainEvents({ event: 'Payout' });
+    const deposits = await this.db.getChainEvents({ event: 'Deposit' });
+    const withdrawals = await this.db.getChainEvents({ event: 'TreasuryWithdraw' });
+
+    const payoutsByTx = new Map<string, ChainEvent[]>();
+    for (const event of payouts) {
+      payoutsByTx.set(event.txHash, [...(payoutsByTx.get(event.txHash) || []), event]);
+    }
+
+    // Push payouts: every confirmed endCycle batch should emit exactly its rewards
+    const provider = new JsonRpcProvider(this.options.rpcUrl);
+    const batchTxs = new Set<string>();
+    try {
+      const cycles = new Map<number, PayoutCycle | null>();
+      for (const batch of await this.db.getPayoutBatches({ status: 'confirmed' })) {
+        if (!cycles.has(batch.cycleId)) cycles.set(batch.cycleId, await this.db.getPayoutCycle(batch.cycleId));
+        if (cycles.get(batch.cycleId)?.mode !== 'push' || !batch.txHash) continue;
+        const txHash = batch.txHash.toLowerCase();
+        batchTxs.add(txHash);
+
+        const events = payoutsByTx.get(txHash) || [];
+        if (events.length === 0) {
+          // Only a problem once the block holding the tx has been indexed
+          const receipt = await provider.getTransactionReceipt(txHash);
+          if (!receipt || indexedThrough === null || receipt.blockNumber > indexedThrough) continue;
+        }
+        const actual = new Map<string, bigint>();
+        events.forEach(e => actual.set(e.account, (actual.get(e.account) || 0n) + BigInt(e.amountUnits)));
+        for (const item of await this.db.getPayoutBatchItems(batch.cycleId, batch.batchIndex)) {
+          const wallet = item.wallet.toLowerCase();
+          const expected = BigInt(item.rewardUnits);
+          const paid = actual.get(wallet) ?? 0n;
+          actual.delete(wallet);
+          if (paid === expected) continue;
+          mismatches.push({
+            type: paid === 0n ? 'missing_payout' : 'payout_amount_mismatch',
+            message: `Batch ${batch.batchIndex} of cycle #${batch.cycleId} paid ${paid} units to ${wallet}, expected ${expected}`,
+            txHash, wallet, cycleId: batch.cycleId, batchId: batch.id,
+            expectedUnits: expected.toString(), actualUnits: paid.toString(),
+          });
+        }
+        actual.forEach((paid, wallet) => mismatches.push({
+          type: 'unexpected_payout',
+          message: `Batch ${batch.batchIndex} of cycle #${batch.cycleId} paid ${paid} units to ${wallet}, which has no reward in it`,
+          txHash, wallet, cycleId: batch.cycleId, batchId: batch.id,
+          expectedUnits: '0', actualUnits: paid.toString(),
+        }));
+      }
+    } finally {
+      provider.destroy();
+    }
+
+    // Any other Payout is a claim and must stay within the wallet's cumulative claim-mode rewards
+    const claimed = new Map<string, bigint>();
+    payouts.filter(e => !batchTxs.has(e.txHash))
+      .forEach(e => claimed.set(e.account, (claimed.get(e.account) || 0n) + BigInt(e.amountUnits)));
+    const owed = new Map((await this.db.getClaimTotals()).map(t => [t.wallet.toLowerCase(), BigInt(t.units)]));
+    claimed.forEach((amount, wallet) => {
+      const limit = owed.get(wallet);
+      if (limit === undefined) {
+        mismatches.push({
+          type: 'unexpected_payout',
+          message: `${wallet} received ${amount} units outside any payout batch and has no claim-mode rewards`,
+          wallet, expectedUnits: '0', actualUnits: amount.toString(),
+        });
+      } else if (amount > limit) {
+        mismatches.push({
+          type: 'claim_exceeds_owed',
+          message: `${wallet} claimed ${amount} units but is owed ${limit}`,
+          wallet, expectedUnits: limit.toString(), actualUnits: amount.toString(),
+        });
+      }
+    });
+
+    // Deposits should each correspond to a recorded entry fee
+    for (const deposit of deposits) {
+      const { entries, totalAmount } = await this.db.getEntryFees({ txHash: deposit.txHash });
+      if (entries.length === 0) {
+        mismatches.push({
+          type: 'unmatched_deposit',
+          message: `Deposit of ${deposit.amountUnits} units from ${deposit.account} has no entry fee`,
+          txHash: deposit.txHash, wallet: deposit.account, actualUnits: deposit.amountUnits,
+        });
+      } else if (toUnits(totalAmount) !== BigInt(deposit.amountUnits)) {
+        mismatches.push({
+          type: 'deposit_amount_mismatch',
+          message: `Deposit of ${deposit.amountUnits} units does not match its recorded entry fee`,
+          txHash: deposit.txHash, wallet: deposit.account,
+          expectedUnits: toUnits(totalAmount).toString(), actualUnits: deposit.amountUnits,
+        });
+      }
+    }
+
+    const withdrawn = sumUnits(withdrawals);
+    const accrued = toUnits(await this.db.getTotalTreasuryAccrued());
+    if (withdrawn > accrued) {
+      mismatches.push({
+        type: 'treasury_overdrawn',
+        message: `Treasury withdrawals of ${withdrawn} units exceed the ${accrued} units accrued`,
+        expectedUnits: accrued.toString(), actualUnits: withdrawn.toString(),
+      });
+    }
+
+    return {
+      indexedThrough,
+      summary: {
+        payoutEvents: payouts.length,
+        payoutUnits: sumUnits(payouts).toString(),
+        depositEvents: deposits.length,
+        depositUnits: sumUnits(deposits).toString(),
+        treasuryWithdrawnUnits: withdrawn.toString(),
+        treasuryAccruedUnits: accrued.toString(),
+      },
+      mismatches,
+    };
+  }
+}
+
+export default Reconciler;
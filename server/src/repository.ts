@@ -0,0 +1,424 @@
+// Storage contract shared by the SQLite (database.ts) and Postgres (postgres.ts)
+// implementations. Everything outside those two files talks to a Repository.
+
+export interface PlayerStats {
+  wallet: string;
+  totalScore: number;
+  highScore: number;
+  gamesPlayed: number;
+  lastPlayed: number;
+}
+
+export interface LeaderboardEntry {
+  rank: number;
+  wallet: string;
+  username?: string;
+  score: number;
+  gamesPlayed: number;
+  lastPlayed: number;
+}
+
+// How an entry fee reached us
+export type PaymentPath = 'x402' | 'manual' | 'sandbox';
+
+// One ledger row per paid session. session_id, tx_hash and payment_ref are
+// each unique so a session or a payment can never be counted twice.
+export interface EntryFeeRecord {
+  id?: number;
+  amount: number;
+  timestamp: number;
+  wallet?: string; // payer
+  sessionId?: string;
+  txHash?: string; // on-chain transfer or x402 settlement tx
+  paymentRef?: string; // x402 authorization nonce or session payment reference
+  network?: string;
+  paymentPath?: PaymentPath;
+}
+
+export interface EntryFeeQuery {
+  wallet?: string;
+  sessionId?: string;
+  txHash?: string;
+  paymentPath?: PaymentPath;
+  since?: number;
+  until?: number;
+  limit?: number;
+  offset?: number;
+}
+
+export interface DailyPlayerStats {
+  wallet: string;
+  totalScoreDaily: number;
+  highScoreDaily: number;
+  gamesPlayedDaily: number;
+  lastPlayedDaily: number;
+}
+
+export type GameSessionStatus = 'created' | 'paid' | 'playing' | 'submitted' | 'abandoned' | 'expired';
+
+export interface GameSession {
+  id: string;
+  status: GameSessionStatus;
+  seed: string; // RNG seed the client must play with; used to replay the submitted game
+  wallet?: string; // Payer address, bound when the payment is verified
+  paymentRef?: string; // tx hash (manual verify) or x402 authorization nonce
+  feeRecorded: boolean;
+  createdAt: number;
+  paidAt?: number;
+  startedAt?: number;
+  endedAt?: number;
+  updatedAt: number;
+}
+
+// One submitted game; gameplay fields come from the server replay, not the client
+export interface GameRecord {
+  id?: number;
+  sessionId: string;
+  wallet: string;
+  score: number;
+  durationMs: number;
+  foodEaten: number;
+  maxLength: number;
+  moves: number;
+  collisionType?: 'wall' | 'self';
+  flagged: boolean; // the client's claimed result did not match the replay
+  paymentRef?: string;
+  playedAt: number;
+  submittedAt: number;
+  // Joined from entry_fees when the session's fee was recorded
+  entryFee?: number;
+  txHash?: string;
+  paymentPath?: PaymentPath;
+}
+
+export type CompensationType = 'credit' | 'refund' | 'none';
+export type CompensationStatus = 'available' | 'redeemed' | 'queued' | 'sent' | 'recorded';
+
+// Outcome of the abandoned-session policy, one row per abandoned paid session
+export interface SessionCompensation {
+  sessionId: string;
+  wallet: string;
+  type: CompensationType;
+  status: CompensationStatus;
+  amount: number;
+  redeemedSessionId?: string;
+  txHash?: string;
+  createdAt: number;
+  updatedAt: number;
+}
+
+// pending: rewards snapshotted and owed, batches still being paid
+// completed: every batch confirmed (or rewards recorded off-chain)
+// failed: a batch ran out of retries; an admin can re-drive it
+export type PayoutCycleStatus = 'pending' | 'completed' | 'failed';
+export type OnchainPayoutStatus = 'skipped' | 'submitted' | 'confirmed' | 'error';
+// push: winners are sent USDC with endCycle; claim: a Merkle root of cumulative
+// rewards is published and winners claim from the contract themselves
+export type PayoutMode = 'push' | 'claim';
+
+// pending: waiting to be sent (or for its next retry)
+// submitted: endCycle (or setMerkleRoot) tx signed and its hash persisted before broadcast
+// confirmed: mined successfully
+// failed: out of retries
+export type PayoutBatchStatus = 'pending' | 'submitted' | 'confirmed' | 'failed';
+
+export interface PayoutCycle {
+  id: number;
+  windowStart: number; // entry fees in [windowStart, windowEnd) fund the cycle
+  windowEnd: number;
+  status: PayoutCycleStatus;
+  totalPool: number;
+  poolTotal: number;
+  poolHigh: number;
+  poolTreasury: number;
+  winnerCount: number;
+  mode: PayoutMode;
+  merkleRoot?: string; // claim mode: root over cumulative rewards up to this cycle
+  rolloverInUnits: string; // undistributed dust from the previous cycle added to this pool
+  rolloverOutUnits: string; // player-pool units not paid to anyone, carried into the next pool
+  onchainStatus?: OnchainPayoutStatus;
+  txHash?: string; // last confirmed batch
+  error?: string;
+  createdAt: number;
+  updatedAt: number;
+  completedAt?: number;
+}
+
+// One endCycle transaction paying a slice of a cycle's winners
+// (in claim mode, the single setMerkleRoot transaction)
+export interface PayoutBatch {
+  id: number;
+  cycleId: number;
+  batchIndex: number;
+  status: PayoutBatchStatus;
+  walletCount: number;
+  amountUnits: string;
+  txHash?: string;
+  signedTx?: string; // raw endCycle tx, rebroadcast when resuming after a crash
+  attempts: number;
+  nextAttemptAt: number;
+  error?: string;
+  createdAt: number;
+  updatedAt: number;
+}
+
+// A wallet's reward in one cycle, joined with the cycle's outcome
+export interface WalletPayout extends PayoutItem {
+  windowStart: number;
+  windowEnd: number;
+  status: PayoutCycleStatus;
+  mode: PayoutMode;
+  paid: boolean; // the wallet's batch confirmed, or the cycle completed off-chain
+  txHash?: string;
+  completedAt?: number;
+}
+
+export interface PayoutItem {
+  cycleId: number;
+  wallet: string;
+  totalScore: number;
+  highScore: number;
+  rewardTotal: number;
+  rewardHigh: number;
+  reward: number;
+  rewardUnits: string; // USDC base units sent this cycle; 0 while below the minimum payout
+  carriedUnits: string; // earlier pending balance released into rewardUnits
+  batchIndex?: number; // unset when nothing is sent on-chain
+}
+
+// Daily leaderboards a payout cycle is computed from, with the pending
+// balance of every wallet on them
+export interface DailyStandings {
+  total: LeaderboardEntry[];
+  high: LeaderboardEntry[];
+  pendingBalances: Map<string, bigint>; // keyed by lowercased wallet
+}
+
+export interface NewPayoutCycle {
+  cycle: Omit<PayoutCycle, 'id' | 'status' | 'createdAt' | 'updatedAt'>;
+  items: Omit<PayoutItem, 'cycleId'>[];
+  balances: { wallet: string; pendingUnits: string }[];
+}
+
+// A named competition window; scores submitted while it is active count towards it
+export interface Season {
+  id: number;
+  name: string;
+  startsAt: number;
+  endsAt: number; // exclusive
+  prizePool: number; // USDC set aside for this season, separate from the daily pool
+  createdAt: number;
+}
+
+export type ChainEventName = 'Payout' | 'Deposit' | 'TreasuryWithdraw';
+
+// A PrizePool event indexed for reconciliation
+export interface ChainEvent {
+  id?: number;
+  event: ChainEventName;
+  account: string; // Payout/TreasuryWithdraw: recipient; Deposit: sender (lowercase)
+  amountUnits: string;
+  txHash: string;
+  logIndex: number;
+  blockNumber: number;
+}
+
+// Rewards owed to a wallet that were below the minimum payout
+export interface WalletBalance {
+  wallet: string;
+  pendingUnits: string;
+  updatedAt: number;
+}
+
+// Allowed status transitions; terminal states have no outgoing edges
+export const SESSION_TRANSITIONS: Record<GameSessionStatus, GameSessionStatus[]> = {
+  created: ['paid', 'expired'],
+  paid: ['playing', 'submitted', 'abandoned', 'expired'],
+  playing: ['submitted', 'abandoned', 'expired'],
+  submitted: [],
+  abandoned: [],
+  expired: [],
+};
+
+// A wallet barred from playing and excluded from leaderboards and payouts
+// while active (not lifted, not expired). Wallets are stored lowercase.
+export interface WalletBan {
+  id: number;
+  wallet: string;
+  reason: string;
+  bannedBy: string;
+  createdAt: number;
+  expiresAt?: number; // permanent when unset
+  liftedAt?: number;
+  liftedBy?: string;
+}
+
+// One privileged admin request: who ran it, with what, and how it ended
+export interface AdminAuditEntry {
+  id: number;
+  action: string; // e.g. 'run-payout', 'ban-wallet'
+  actor: string; // name of the admin token used
+  params: Record<string, unknown>; // query and body of the request
+  status: number; // HTTP status of the response
+  result: unknown; // JSON response body
+  createdAt: number;
+}
+
+export interface AdminAuditQuery {
+  action?: string;
+  actor?: string;
+  since?: number;
+  until?: number;
+  limit?: number;
+  offset?: number;
+}
+
+// A numbered schema change, read from server/migrations/<driver>/NNNN_name.sql
+export interface Migration {
+  version: number;
+  name: string;
+  sql: string;
+}
+
+export interface AppliedMigration {
+  version: number;
+  name: string;
+  appliedAt: number;
+}
+
+// Unique or primary key violation, as reported by either implementation
+export function isUniqueViolation(err: unknown): boolean {
+  const code = (err as { code?: string } | null)?.code;
+  return code === 'SQLITE_CONSTRAINT' || code === '23505';
+}
+
+export type ScoreType = 'total' | 'high';
+export type NewGameRecord = Omit<GameRecord, 'id' | 'entryFee' | 'txHash' | 'paymentPath'>;
+
+export interface Repository {
+  // Connect and prepare the schema_version table; must resolve before the
+  // repository is used. Tables themselves come from migrations (migrations.ts).
+  init(): Promise<void>;
+  close(): Promise<void>;
+
+  // Schema migrations
+  getAppliedMigrations(): Promise<AppliedMigration[]>;
+  // Run the migration and record it in one transaction. Returns false if it
+  // was already applied (e.g. by another instance starting at the same time).
+  applyMigration(migration: Migration): Promise<boolean>;
+
+  // Game sessions and compensations
+  createGameSession(session: GameSession): Promise<void>;
+  getGameSession(id: string): Promise<GameSession | null>;
+  // Whether a payment tx already funded a session other than `sessionId`,
+  // either as a manual payment_ref or as a settled fee in the ledger
+  isTxHashRedeemed(txHash: string, sessionId: string): Promise<boolean>;
+  getGameSessionsByStatus(statuses: GameSessionStatus[]): Promise<GameSession[]>;
+  // Move a session to a new status if its current status allows it.
+  // Returns the updated session, or null if the transition was not applied.
+  transitionGameSession(
+    id: string,
+    to: GameSessionStatus,
+    fields?: Partial<Pick<GameSession, 'wallet' | 'paymentRef' | 'paidAt' | 'startedAt' | 'endedAt'>>
+  ): Promise<GameSession | null>;
+  getUncompensatedAbandonedSessions(): Promise<GameSession[]>;
+  markSessionFeeRecorded(id: string): Promise<void>;
+  insertSessionCompensation(
+    compensation: Pick<SessionCompensation, 'sessionId' | 'wallet' | 'type' | 'status' | 'amount'>
+  ): Promise<void>;
+  getSessionCompensation(sessionId: string): Promise<SessionCompensation | null>;
+  getCompensations(type: CompensationType, status?: CompensationStatus): Promise<SessionCompensation[]>;
+  countAvailableCredits(wallet: string): Promise<number>;
+  // Atomically consume the oldest available credit; returns the session it came from
+  redeemCredit(wallet: string, redeemedSessionId: string): Promise<string | null>;
+
+  // Scores and stats. Leaderboards, player counts and daily sums (and so
+  // payouts) leave out wallets with an active ban; their rows are kept.
+  // Close the game's session as submitted and record the game, all in one
+  // transaction. Returns null, writing nothing, if the session can no longer
+  // be submitted (e.g. a concurrent duplicate submission won).
+  recordScore(game: NewGameRecord): Promise<{ gameId: number; playerStats: PlayerStats; session: GameSession } | null>;
+  getPlayerStats(wallet: string): Promise<PlayerStats | null>;
+  getPlayerGames(wallet: string, limit?: number, offset?: number): Promise<{ games: GameRecord[]; total: number }>;
+  getLeaderboard(type: ScoreType, limit?: number): Promise<LeaderboardEntry[]>;
+  getTotalPlayers(): Promise<number>;
+  getDailyPlayerStats(wallet: string): Promise<DailyPlayerStats | null>;
+  getDailyLeaderboard(type: ScoreType, limit?: number): Promise<LeaderboardEntry[]>;
+  getDailyScoresSum(type: ScoreType): Promise<number>;
+  resetDailyStats(at?: number): Promise<void>;
+  getArchivedDailyLeaderboard(date: string, type: ScoreType, limit?: number): Promise<LeaderboardEntry[]>;
+  getArchivedDailyCycleIds(date: string): Promise<number[]>;
+  getArchivedDailyDates(limit?: number): Promise<string[]>;
+  getPeriodLeaderboard(periodKey: string, type: ScoreType, limit?: number): Promise<LeaderboardEntry[]>;
+  getPeriodPlayerCount(periodKey: string): Promise<number>;
+
+  // Bans. banWallet returns null if the wallet already has an active ban;
+  // liftBan returns the lifted ban, or null if there was none.
+  banWallet(ban: Pick<WalletBan, 'wallet' | 'reason' | 'bannedBy' | 'expiresAt'>): Promise<WalletBan | null>;
+  liftBan(wallet: string, liftedBy: string): Promise<WalletBan | null>;
+  getActiveBan(wallet: string, at?: number): Promise<WalletBan | null>;
+  getBans(filter: { wallet?: string; activeOnly?: boolean }, limit: number, offset: number): Promise<{ bans: WalletBan[]; total: number }>;
+
+  // Admin audit log, newest first
+  recordAdminAction(entry: Omit<AdminAuditEntry, 'id'>): Promise<number>;
+  getAdminAudit(filter?: AdminAuditQuery): Promise<{ entries: AdminAuditEntry[]; total: number }>;
+
+  // Seasons
+  createSeason(season: Omit<Season, 'id' | 'createdAt'>): Promise<Season>;
+  getSeason(id: number): Promise<Season | null>;
+  getSeasonByName(name: string): Promise<Season | null>;
+  getSeasons(): Promise<Season[]>;
+  getActiveSeasons(at?: number): Promise<Season[]>;
+
+  // Entry fees (returns false if the session or payment is already in the ledger)
+  recordEntryFee(fee: Omit<EntryFeeRecord, 'id' | 'timestamp'>): Promise<boolean>;
+  getEntryFees(filter?: EntryFeeQuery): Promise<{ entries: EntryFeeRecord[]; total: number; totalAmount: number }>;
+  getTotalEntryFeesSince(cutoff: number): Promise<number>;
+  getTotalEntryFeesBetween(start: number, end: number): Promise<number>;
+
+  // Payouts
+  // Reads the top `limit` daily standings, builds the cycle from them, persists
+  // the cycle, items, batches and balances, then archives and resets daily
+  // stats, all in one transaction, so every score that is reset was paid.
+  // `build` runs inside the transaction and must not use the repository.
+  createPayoutCycle(limit: number, build: (standings: DailyStandings) => NewPayoutCycle): Promise<PayoutCycle>;
+  getPayoutCycle(id: number): Promise<PayoutCycle | null>;
+  getLatestPayoutCycle(): Promise<PayoutCycle | null>;
+  getLatestPaidPayoutCycle(): Promise<PayoutCycle | null>;
+  getLatestPublishedClaimCycle(): Promise<PayoutCycle | null>;
+  getClaimTotals(upToWindowStart?: number): Promise<{ wallet: string; units: string }[]>;
+  getPayoutCycles(limit: number, offset: number): Promise<{ cycles: PayoutCycle[]; total: number }>;
+  updatePayoutCycle(id: number, fields: Partial<Pick<PayoutCycle, 'status' | 'onchainStatus' | 'txHash' | 'error'>>): Promise<void>;
+  completePayoutCycle(id: number): Promise<void>;
+  getPayoutItems(cycleId: number): Promise<PayoutItem[]>;
+  getPayoutBatchItems(cycleId: number, batchIndex: number): Promise<PayoutItem[]>;
+  getPayoutBatch(id: number): Promise<PayoutBatch | null>;
+  getPayoutBatches(filter?: { cycleId?: number; status?: PayoutBatchStatus }): Promise<PayoutBatch[]>;
+  getDuePayoutBatches(now: number): Promise<PayoutBatch[]>;
+  getNextPayoutBatchAttemptAt(): Promise<number | null>;
+  updatePayoutBatch(
+    id: number,
+    fields: Partial<Pick<PayoutBatch, 'status' | 'txHash' | 'signedTx' | 'attempts' | 'nextAttemptAt' | 'error'>>
+  ): Promise<void>;
+  requeueFailedPayoutBatches(filter?: { cycleId?: number; batchId?: number }): Promise<PayoutBatch[]>;
+  getWalletBalance(wallet: string): Promise<WalletBalance | null>;
+  getWalletBalances(wallets: string[]): Promise<Map<string, bigint>>;
+  getWalletPayouts(wallet: string, limit: number, offset: number): Promise<{
+    payouts: WalletPayout[];
+    total: number;
+    paidUnits: string;
+    pendingUnits: string;
+  }>;
+  getTotalTreasuryAccrued(): Promise<number>;
+
+  // Lease-based lock shared by every instance using this storage.
+  // Returns true if `owner` now holds the lock (re-acquiring renews the lease).
+  acquireLock(name: string, owner: string, ttlMs: number): Promise<boolean>;
+  releaseLock(name: string, owner: string): Promise<void>;
+
+  // Chain indexing
+  insertChainEvents(events: ChainEvent[]): Promise<number>;
+  getChainEvents(filter?: { event?: ChainEventName; txHash?: string }): Promise<ChainEvent[]>;
+  getChainCursor(name: string): Promise<number | null>;
+  setChainCursor(name: string, blockNumber: number): Promise<void>;
+}
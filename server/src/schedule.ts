@@ -0,0 +1,124 @@
+// Wall-clock schedules evaluated in UTC. Accepts a daily "HH:MM" time or a
+// standard 5-field cron expression (minute hour day-of-month month day-of-week)
+// with *, lists, ranges and steps.
+
+const MINUTE_MS = 60 * 1000;
+// Upper bound on the search so an expression that never matches (e.g. 31 Feb) terminates
+const MAX_SEARCH_STEPS = 100000;
+
+interface CronField {
+  values: Set<number>;
+  wildcard: boolean;
+}
+
+const FIELD_RANGES: [number, number][] = [
+  [0, 59], // minute
+  [0, 23], // hour
+  [1, 31], // day of month
+  [1, 12], // month
+  [0, 7],  // day of week (0 and 7 are Sunday)
+];
+
+function parseField(source: string, [min, max]: [number, number]): CronField {
+  const values = new Set<number>();
+  for (const part of source.split(',')) {
+    const [rangePart, stepPart] = part.split('/');
+    const step = stepPart === undefined ? 1 : Number(stepPart);
+    if (!Number.isInteger(step) || step < 1) {
+      throw new Error(`Invalid step in "${source}"`);
+    }
+
+    let start = min;
+    let end = max;
+    if (rangePart !== '*') {
+      const bounds = rangePart.split('-').map(Number);
+      if (bounds.length > 2 || bounds.some(n => !Number.isInteger(n))) {
+        throw new Error(`Invalid value "${part}"`);
+      }
+      start = bounds[0];
+      end = bounds.length === 2 ? bounds[1] : stepPart === undefined ? start : max;
+    }
+    if (start < min || end > max || start > end) {
+      throw new Error(`Value "${part}" out of range ${min}-${max}`);
+    }
+    for (let value = start; value <= end; value += step) values.add(value);
+  }
+  return { values, wildcard: source === '*' };
+}
+
+export class Schedule {
+  private constructor(
+    readonly expression: string,
+    private minutes: CronField,
+    private hours: CronField,
+    private days: CronField,
+    private months: CronField,
+    private weekdays: CronField
+  ) {}
+
+  // Throws with a readable message if the expression is invalid
+  static parse(expression: string): Schedule {
+    const trimmed = expression.trim();
+    const daily = /^(\d{1,2}):(\d{2})$/.exec(trimmed);
+    const cron = daily ? `${Number(daily[2])} ${Number(daily[1])} * * *` : trimmed;
+
+    const parts = cron.split(/\s+/);
+    if (parts.length !== 5) {
+      throw new Error(`Expected "HH:MM" or a 5-field cron expression, got "${expression}"`);
+    }
+    const [minutes, hours, days, months, weekdays] = parts.map((part, i) => parseField(part, FIELD_RANGES[i]));
+    if (weekdays.values.has(7)) weekdays.values.add(0);
+    return new Schedule(trimmed, minutes, hours, days, months, weekdays);
+  }
+
+  // First scheduled time strictly after `after`
+  next(after: number): number {
+    const date = new Date(Math.floor(after / MINUTE_MS) * MINUTE_MS + MINUTE_MS);
+    for (let i = 0; i < MAX_SEARCH_STEPS; i++) {
+      if (!this.months.values.has(date.getUTCMonth() + 1)) {
+        date.setUTCMonth(date.getUTCMonth() + 1, 1);
+        date.setUTCHours(0, 0, 0, 0);
+      } else if (!this.matchesDay(date)) {
+        date.setUTCDate(date.getUTCDate() + 1);
+        date.setUTCHours(0, 0, 0, 0);
+      } else if (!this.hours.values.has(date.getUTCHours())) {
+        date.setUTCHours(date.getUTCHours() + 1, 0, 0, 0);
+      } else if (!this.minutes.values.has(date.getUTCMinutes())) {
+        date.setUTCMinutes(date.getUTCMinutes() + 1, 0, 0);
+      } else {
+        return date.getTime();
+      }
+    }
+    throw new Error(`Schedule "${this.expression}" never fires`);
+  }
+
+  // Last scheduled time at or before `atOrBefore`
+  previous(atOrBefore: number): number {
+    const date = new Date(Math.floor(atOrBefore / MINUTE_MS) * MINUTE_MS);
+    for (let i = 0; i < MAX_SEARCH_STEPS; i++) {
+      if (!this.months.values.has(date.getUTCMonth() + 1)) {
+        date.setUTCDate(1);
+        date.setUTCHours(0, -1, 0, 0); // last minute of the previous month
+      } else if (!this.matchesDay(date)) {
+        date.setUTCHours(0, -1, 0, 0); // last minute of the previous day
+      } else if (!this.hours.values.has(date.getUTCHours())) {
+        date.setUTCMinutes(-1, 0, 0); // last minute of the previous hour
+      } else if (!this.minutes.values.has(date.getUTCMinutes())) {
+        date.setUTCMinutes(date.getUTCMinutes() - 1, 0, 0);
+      } else {
+        return date.getTime();
+      }
+    }
+    throw new Error(`Schedule "${this.expression}" never fires`);
+  }
+
+  // Cron semantics: when both day fields are restricted, either may match
+  private matchesDay(date: Date): boolean {
+    const dayOfMonth = this.days.values.has(date.getUTCDate());
+    const dayOfWeek = this.weekdays.values.has(date.getUTCDay());
+    if (this.days.wildcard || this.weekdays.wildcard) {
+      return dayOfMonth && dayOfWeek;
+    }
+    return dayOfMonth || dayOfWeek;
+  }
+}
@@ -0,0 +1,178 @@
+import { randomUUID } from 'crypto';
+import { normalizeAddress } from '@snake402/shared';
+import type { CompensationType, GameSession, GameSessionStatus, NewGameRecord, Repository } from './repository.js';
+
+// Statuses that still hold a live game and are kept in memory
+const OPEN_STATUSES: GameSessionStatus[] = ['created', 'paid', 'playing'];
+
+// What happens to the entry fee of a paid session that was never submitted
+export type AbandonPolicy = CompensationType;
+
+export interface SessionStoreOptions {
+  ttlMs: number; // open sessions idle longer than this are expired/abandoned
+  abandonPolicy: AbandonPolicy;
+  entryFee: number;
+}
+
+// Sessions always hold the canonical (lowercase) payer address
+function payerAddress(wallet: string): string {
+  const address = normalizeAddress(wallet);
+  if (!address) throw new Error(`Invalid payer address: ${wallet}`);
+  return address;
+}
+
+// Write-through cache of open game sessions backed by the game_sessions table.
+// Every status change is persisted first, so a restart only loses the cache.
+class SessionStore {
+  private sessions = new Map<string, GameSession>();
+
+  constructor(private db: Repository, private options: SessionStoreOptions) {}
+
+  // Load all open sessions from the database (called on startup). Sessions
+  // already cached were written through by this process and are kept as is.
+  async rehydrate(): Promise<number> {
+    const open = await this.db.getGameSessionsByStatus(OPEN_STATUSES);
+    open.forEach(session => {
+      if (!this.sessions.has(session.id)) this.sessions.set(session.id, session);
+    });
+    return open.length;
+  }
+
+  async get(id: string): Promise<GameSession | null> {
+    const cached = this.sessions.get(id);
+    if (cached) return cached;
+    // Closed sessions are not cached but remain queryable
+    return this.db.getGameSession(id);
+  }
+
+  async create(id: string, fields: Partial<Pick<GameSession, 'status' | 'wallet' | 'paymentRef' | 'paidAt'>> = {}): Promise<GameSession> {
+    const now = Date.now();
+    const session: GameSession = {
+      id,
+      status: fields.status || 'created',
+      seed: randomUUID(),
+      wallet: fields.wallet && payerAddress(fields.wallet),
+      paymentRef: fields.paymentRef,
+      feeRecorded: false,
+      createdAt: now,
+      paidAt: fields.paidAt,
+      updatedAt: now,
+    };
+    await this.db.createGameSession(session);
+    this.sessions.set(id, session);
+    return session;
+  }
+
+  async markPaid(id: string, wallet: string, paymentRef?: string): Promise<GameSession | null> {
+    return this.transition(id, 'paid', { wallet: payerAddress(wallet), paymentRef, paidAt: Date.now() });
+  }
+
+  async markPlaying(id: string): Promise<GameSession | null> {
+    return this.transition(id, 'playing', { startedAt: Date.now() });
+  }
+
+  // Close the session and record its game in one transaction; null if the
+  // session was already closed, e.g. by a concurrent submission
+  async submit(game: NewGameRecord) {
+    const recorded = await this.db.recordScore(game);
+    if (recorded) this.sessions.delete(game.sessionId);
+    return recorded;
+  }
+
+  // Start a paid session funded by a free-replay credit instead of a payment
+  async createFromCredit(wallet: string): Promise<GameSession | null> {
+    const id = randomUUID();
+    const creditSessionId = await this.db.redeemCredit(wallet, id);
+    if (!creditSessionId) return null;
+    return this.create(id, {
+      status: 'paid',
+      wallet,
+      paymentRef: `credit:${creditSessionId}`,
+      paidAt: Date.now()
+    });
+  }
+
+  // Give up on a paid session and apply the abandon policy to its entry fee
+  async abandon(id: string, at = Date.now()): Promise<GameSession | null> {
+    const session = await this.transition(id, 'abandoned', { endedAt: at });
+    if (session) {
+      await this.compensate(session);
+    }
+    return session;
+  }
+
+  // Expire unpaid sessions and abandon paid ones that outlived the TTL
+  async sweep(now = Date.now()): Promise<{ expired: number; abandoned: number }> {
+    const result = { expired: 0, abandoned: 0 };
+    const cutoff = now - this.options.ttlMs;
+
+    for (const session of [...this.sessions.values()]) {
+      const lastActivity = session.startedAt ?? session.paidAt ?? session.createdAt;
+      if (lastActivity >= cutoff) continue;
+
+      if (session.status === 'created') {
+        if (await this.transition(session.id, 'expired', { endedAt: now })) result.expired++;
+      } else if (await this.abandon(session.id, now)) {
+        result.abandoned++;
+      }
+    }
+
+    // Finish policy handling interrupted by a crash between transition and compensation
+    const pending = await this.db.getUncompensatedAbandonedSessions();
+    for (const session of pending) {
+      await this.compensate(session);
+    }
+    return result;
+  }
+
+  // Idle for the whole TTL when abandoned, i.e. what the sweeper would abandon
+  private timedOut(session: GameSession): boolean {
+    const lastActivity = session.startedAt ?? session.paidAt ?? session.createdAt;
+    return (session.endedAt ?? 0) - lastActivity >= this.options.ttlMs;
+  }
+
+  private async compensate(session: GameSession) {
+    // Only sessions that were paid for carry an entry fee to give back
+    if (!session.wallet || !session.paidAt) return;
+    const isCreditFunded = !!session.paymentRef?.startsWith('credit:');
+    // Walking away from a game in progress is a free reroll of the seed, so
+    // only games never started or timed out are compensated, and a credit is
+    // never handed back. Other sessions still get a 'none' row as a record.
+    const eligible = !isCreditFunded && (!session.startedAt || this.timedOut(session));
+    const type = eligible ? this.options.abandonPolicy : 'none';
+    await this.db.insertSessionCompensation({
+      sessionId: session.id,
+      wallet: session.wallet,
+      type,
+      status: type === 'credit' ? 'available' : type === 'refund' ? 'queued' : 'recorded',
+      amount: isCreditFunded ? 0 : this.options.entryFee
+    });
+  }
+
+  async markFeeRecorded(id: string): Promise<void> {
+    await this.db.markSessionFeeRecorded(id);
+    const cached = this.sessions.get(id);
+    if (cached) cached.feeRecorded = true;
+  }
+
+  private async transition(
+    id: string,
+    to: GameSessionStatus,
+    fields: Parameters<Repository['transitionGameSession']>[2]
+  ): Promise<GameSession | null> {
+    const updated = await this.db.transitionGameSession(id, to, fields);
+    if (!updated) return null;
+    if (OPEN_STATUSES.includes(updated.status)) {
+      this.sessions.set(id, updated);
+    } else {
+      this.sessions.delete(id);
+    }
+    return updated;
+  }
+}
+
+export function isPaidSession(session: GameSession) {
+  return session.status === 'paid' || session.status === 'playing';
+}
+
+export default SessionStore;
@@ -0,0 +1,33 @@
+import assert from 'node:assert/strict';
+import { describe, it } from 'node:test';
+import { openTestRepository, wallet } from './helpers.js';
+
+describe('SQLite Database', () => {
+  it('keeps statements issued during a transaction out of its rollback', async () => {
+    const db = await openTestRepository();
+    try {
+      const ids: string[] = [];
+      for (let round = 0; round < 10; round++) {
+        // A duplicate payout item fails after BEGIN, so the cycle's transaction rolls back
+        const item = { wallet: wallet(1), totalScore: 1, highScore: 1, rewardTotal: 0, rewardHigh: 0, reward: 0, rewardUnits: '0' };
+        const cycle = { windowStart: round, windowEnd: round + 1, totalPool: 0, poolTotal: 0, poolHigh: 0, poolTreasury: 0, winnerCount: 1 };
+        const failing = assert.rejects(db.createPayoutCycle(10, () => ({ cycle, items: [item, item] })));
+        const writes: Promise<void>[] = [];
+        for (let step = 0; step < 4; step++) {
+          await new Promise(resolve => (step % 2 ? setImmediate(resolve) : setTimeout(resolve, step)));
+          const id = `session-${round}-${step}`;
+          ids.push(id);
+          writes.push(db.createGameSession({ id, status: 'created', seed: id, feeRecorded: false, createdAt: 1, updatedAt: 1 }));
+        }
+        await failing;
+        await Promise.all(writes);
+      }
+      for (const id of ids) {
+        assert.ok(await db.getGameSession(id), `${id} was rolled back`);
+      }
+      assert.equal(await db.getLatestPayoutCycle(), null);
+    } finally {
+      await db.close();
+    }
+  });
+});
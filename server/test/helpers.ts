@@ -0,0 +1,92 @@
+import { randomUUID } from 'node:crypto';
+import { mock } from 'node:test';
+import pg from 'pg';
+import Database from '../src/database.js';
+import { loadMigrations, migrate } from '../src/migrations.js';
+import PostgresDatabase from '../src/postgres.js';
+import type { GameSession, Migration, NewGameRecord, Repository } from '../src/repository.js';
+
+// The server's emoji logs are noise here, and Node 20's test runner can fail
+// to read multi-byte output from test files
+for (const method of ['log', 'warn', 'error'] as const) {
+  mock.method(console, method, () => {});
+}
+
+export type TestDriver = 'sqlite' | 'postgres';
+
+export const TEST_DRIVERS: TestDriver[] = ['sqlite', 'postgres'];
+
+// Postgres runs only when DATABASE_URL points at a server to test against
+// (scripts/test-postgres.sh starts one); otherwise its tests report as skipped
+export const skipDriver = (driver: TestDriver): string | false =>
+  driver === 'postgres' && !process.env.DATABASE_URL ? 'DATABASE_URL not set' : false;
+
+// A migrated, empty repository: in-memory for SQLite; for Postgres in a schema
+// of its own that is dropped on close, so the database's own tables are never touched.
+// `migrations` defaults to all of the driver's migrations.
+export async function openTestRepository(
+  driver: TestDriver = 'sqlite',
+  migrations: Migration[] = loadMigrations(driver)
+): Promise<Repository> {
+  if (driver === 'postgres') return openPostgresRepository(process.env.DATABASE_URL!, migrations);
+  const db = new Database(':memory:');
+  await db.init();
+  await migrate(db, migrations);
+  return db;
+}
+
+async function openPostgresRepository(connectionString: string, migrations: Migration[]): Promise<Repository> {
+  const schema = `test_${randomUUID().replace(/-/g, '')}`;
+  const admin = async (sql: string) => {
+    const client = new pg.Client({ connectionString });
+    await client.connect();
+    try {
+      await client.query(sql);
+    } finally {
+      await client.end();
+    }
+  };
+  await admin(`CREATE SCHEMA ${schema}`);
+  const url = new URL(connectionString);
+  url.searchParams.set('options', `-c search_path=${schema}`);
+  const db = new PostgresDatabase(url.toString());
+  const close = db.close.bind(db);
+  db.close = async () => {
+    await close();
+    await admin(`DROP SCHEMA ${schema} CASCADE`);
+  };
+  await db.init();
+  await migrate(db, migrations);
+  return db;
+}
+
+export const wallet = (n: number) => `0x${n.toString(16).padStart(40, '0')}`;
+
+// A session paid by `player`, ready for a score submission
+export async function paidSession(db: Repository, player: string, id = randomUUID()): Promise<GameSession> {
+  const now = Date.now();
+  const session: GameSession = {
+    id, status: 'paid', seed: id, wallet: player, feeRecorded: false, createdAt: now, paidAt: now, updatedAt: now,
+  };
+  await db.createGameSession(session);
+  return session;
+}
+
+export const game = (sessionId: string, player: string, score: number): NewGameRecord => ({
+  sessionId,
+  wallet: player,
+  score,
+  durationMs: 1000,
+  foodEaten: score,
+  maxLength: score + 1,
+  moves: 10,
+  flagged: false,
+  playedAt: Date.now(),
+  submittedAt: Date.now(),
+});
+
+// Play and submit one game for `player`
+export async function recordGame(db: Repository, player: string, score: number) {
+  const session = await paidSession(db, player);
+  return db.recordScore(game(session.id, player, score));
+}
@@ -0,0 +1,74 @@
+import assert from 'node:assert/strict';
+import { describe, it } from 'node:test';
+import { AbiCoder, keccak256 } from 'ethers';
+import { buildMerkleTree, getMerkleProof, hashLeaf, verifyMerkleProof, type MerkleEntry } from '../src/merkle.js';
+import { wallet } from './helpers.js';
+
+// The leaf PrizePool.claim builds for msg.sender:
+// keccak256(bytes.concat(keccak256(abi.encode(account, cumulativeAmount))))
+const claimLeaf = (account: string, amount: bigint) =>
+  keccak256(keccak256(AbiCoder.defaultAbiCoder().encode(['address', 'uint256'], [account, amount])));
+
+// OpenZeppelin's MerkleProof.verify: fold the proof, hashing each pair in sorted order
+const contractVerify = (proof: string[], root: string, leaf: string) => proof.reduce(
+  (hash, sibling) => keccak256(BigInt(hash) < BigInt(sibling) ? hash + sibling.slice(2) : sibling + hash.slice(2)),
+  leaf
+) === root;
+
+const ENTRIES: MerkleEntry[] = [
+  { wallet: wallet(0xa1), amount: 1_000_000n },
+  { wallet: wallet(0xb2), amount: 250_000n },
+  { wallet: '0xc3C3000000000000000000000000000000000003', amount: 42n },
+  { wallet: wallet(0xd4), amount: 7_500_000n },
+  { wallet: wallet(0xe5), amount: 1n },
+];
+
+describe('Merkle claims', () => {
+  it('hashes leaves the way PrizePool.claim does', () => {
+    for (const entry of ENTRIES) {
+      assert.equal(hashLeaf(entry.wallet, entry.amount), claimLeaf(entry.wallet, entry.amount));
+      assert.equal(hashLeaf(entry.wallet.toLowerCase(), entry.amount), claimLeaf(entry.wallet, entry.amount));
+    }
+  });
+
+  it('gives every wallet of an odd-sized tree a proof the contract accepts', () => {
+    const tree = buildMerkleTree(ENTRIES);
+    for (const entry of ENTRIES) {
+      const leaf = getMerkleProof(tree, entry.wallet.toUpperCase().replace('0X', '0x'));
+      assert.ok(leaf);
+      assert.equal(leaf.entry.amount, entry.amount);
+      assert.ok(contractVerify(leaf.proof, tree.root, claimLeaf(entry.wallet, entry.amount)), entry.wallet);
+      assert.ok(verifyMerkleProof(tree.root, entry.wallet, entry.amount, leaf.proof));
+    }
+    assert.equal(getMerkleProof(tree, wallet(0xf6)), null);
+  });
+
+  it('rejects a proof for a different amount', () => {
+    const tree = buildMerkleTree(ENTRIES);
+    const { proof } = getMerkleProof(tree, ENTRIES[1].wallet)!;
+    assert.equal(contractVerify(proof, tree.root, claimLeaf(ENTRIES[1].wallet, ENTRIES[1].amount + 1n)), false);
+    assert.equal(verifyMerkleProof(tree.root, ENTRIES[1].wallet, ENTRIES[1].amount + 1n, proof), false);
+    assert.equal(verifyMerkleProof(tree.root, ENTRIES[0].wallet, ENTRIES[1].amount, proof), false);
+  });
+
+  it('refuses a wallet listed twice in any letter case', () => {
+    assert.throws(
+      () => buildMerkleTree([...ENTRIES, { wallet: ENTRIES[2].wallet.toLowerCase(), amount: 5n }]),
+      /Duplicate wallet/
+    );
+  });
+
+  it('builds the same root whatever the order of the entries', () => {
+    // Leaves in wallet order, pairs hashed level by level, the odd node promoted
+    const root = buildMerkleTree(ENTRIES).root;
+    assert.equal(root, '0xff1fa7c856615e9daa7219a105db2ac27b404e2b93917ad3d3b47a86e9d52a96');
+    assert.equal(buildMerkleTree([...ENTRIES].reverse()).root, root);
+  });
+
+  it('uses the leaf as the root of a single-entry tree and zero for an empty one', () => {
+    const tree = buildMerkleTree([ENTRIES[0]]);
+    assert.equal(tree.root, claimLeaf(ENTRIES[0].wallet, ENTRIES[0].amount));
+    assert.deepEqual(getMerkleProof(tree, ENTRIES[0].wallet)?.proof, []);
+    assert.equal(buildMerkleTree([]).root, `0x${'0'.repeat(64)}`);
+  });
+});
@@ -0,0 +1,177 @@
+import assert from 'node:assert/strict';
+import { after, afterEach, before, beforeEach, describe, it } from 'node:test';
+import { AbiCoder, zeroPadValue } from 'ethers';
+import { isTxHash, verifyUsdcPayment, type UsdcPaymentCheck } from '../src/payments.js';
+import type { Repository } from '../src/repository.js';
+import SessionStore from '../src/sessions.js';
+import { openTestRepository, wallet } from './helpers.js';
+import { hex, startRpcStub, type RpcStub } from './rpcStub.js';
+
+const CHAIN_ID = 84532;
+const USDC = wallet(0xc0ffee);
+const RECIPIENT = wallet(0xbeef);
+const PAYER = wallet(0xa11ce);
+const TX_HASH = `0x${'ab'.repeat(32)}`;
+const BLOCK_HASH = `0x${'cd'.repeat(32)}`;
+const TRANSFER_TOPIC = '0xddf252ad1be2c89b69c2b068fc378daa952ba7f163c4a11628f55a4df523b3ef';
+const ENTRY_FEE = 1000n;
+
+const transferLog = (from: string, to: string, value: bigint, index: number, token = USDC) => ({
+  address: token,
+  topics: [TRANSFER_TOPIC, zeroPadValue(from, 32), zeroPadValue(to, 32)],
+  data: AbiCoder.defaultAbiCoder().encode(['uint256'], [value]),
+  blockNumber: hex(100),
+  blockHash: BLOCK_HASH,
+  transactionHash: TX_HASH,
+  transactionIndex: '0x0',
+  logIndex: hex(index),
+  removed: false,
+});
+
+const receipt = (fields: { status?: number; logs?: unknown[] } = {}) => ({
+  transactionHash: TX_HASH,
+  transactionIndex: '0x0',
+  blockHash: BLOCK_HASH,
+  blockNumber: hex(100),
+  from: PAYER,
+  to: USDC,
+  contractAddress: null,
+  cumulativeGasUsed: hex(50_000),
+  gasUsed: hex(50_000),
+  effectiveGasPrice: hex(1),
+  logsBloom: `0x${'0'.repeat(512)}`,
+  type: '0x2',
+  status: hex(fields.status ?? 1),
+  logs: fields.logs ?? [transferLog(PAYER, RECIPIENT, ENTRY_FEE, 0)],
+});
+
+describe('verifyUsdcPayment', () => {
+  let rpc: RpcStub;
+  let chainId: number;
+  let head: number;
+  let txReceipt: ReturnType<typeof receipt> | null;
+
+  before(async () => {
+    rpc = await startRpcStub({
+      eth_chainId: () => hex(chainId),
+      eth_blockNumber: () => hex(head),
+      eth_getTransactionReceipt: ([hash]) => (txReceipt && hash === TX_HASH ? txReceipt : null),
+    });
+  });
+
+  after(() => rpc.close());
+
+  beforeEach(() => {
+    chainId = CHAIN_ID;
+    head = 105;
+    txReceipt = receipt();
+  });
+
+  const check = (fields: Partial<UsdcPaymentCheck> = {}) => verifyUsdcPayment({
+    rpcUrl: rpc.url,
+    txHash: TX_HASH,
+    usdcAddress: USDC,
+    recipient: RECIPIENT,
+    minAmount: ENTRY_FEE,
+    chainId: CHAIN_ID,
+    minConfirmations: 3,
+    ...fields,
+  });
+
+  it('accepts a confirmed USDC transfer to the recipient', async () => {
+    const result = await check();
+    assert.ok(result.ok);
+    assert.equal(result.payment.payer.toLowerCase(), PAYER);
+    assert.equal(result.payment.amount, ENTRY_FEE);
+    assert.equal(result.payment.txHash, TX_HASH);
+    assert.equal(result.payment.blockNumber, 100);
+  });
+
+  it('sums several transfers from the same payer', async () => {
+    txReceipt = receipt({ logs: [transferLog(PAYER, RECIPIENT, 400n, 0), transferLog(PAYER, RECIPIENT, 600n, 1)] });
+    const result = await check();
+    assert.ok(result.ok);
+    assert.equal(result.payment.amount, 1000n);
+  });
+
+  it('rejects an RPC on another chain', async () => {
+    chainId = 8453;
+    assert.deepEqual(await check(), { ok: false, reason: `RPC is on chain 8453, expected ${CHAIN_ID}` });
+  });
+
+  it('rejects an unknown transaction', async () => {
+    txReceipt = null;
+    assert.deepEqual(await check(), { ok: false, reason: 'Transaction not found or not yet mined' });
+  });
+
+  it('rejects a reverted transaction', async () => {
+    txReceipt = receipt({ status: 0 });
+    assert.deepEqual(await check(), { ok: false, reason: 'Transaction reverted' });
+  });
+
+  it('rejects a transaction with too few confirmations', async () => {
+    head = 101;
+    assert.deepEqual(await check(), { ok: false, reason: 'Transaction has 2 confirmations, need 3' });
+  });
+
+  it('rejects a transfer to another recipient', async () => {
+    txReceipt = receipt({ logs: [transferLog(PAYER, wallet(0xbad), ENTRY_FEE, 0)] });
+    assert.deepEqual(await check(), { ok: false, reason: 'No USDC transfer to the prize recipient in this transaction' });
+  });
+
+  it('ignores transfers of another token', async () => {
+    txReceipt = receipt({ logs: [transferLog(PAYER, RECIPIENT, ENTRY_FEE, 0, wallet(0xfa4e))] });
+    assert.deepEqual(await check(), { ok: false, reason: 'No USDC transfer to the prize recipient in this transaction' });
+  });
+
+  it('rejects transfers from multiple payers', async () => {
+    txReceipt = receipt({ logs: [transferLog(PAYER, RECIPIENT, 500n, 0), transferLog(wallet(0xb0b), RECIPIENT, 500n, 1)] });
+    assert.deepEqual(await check(), { ok: false, reason: 'Transaction contains transfers from multiple payers' });
+  });
+
+  it('rejects an amount below the entry fee', async () => {
+    txReceipt = receipt({ logs: [transferLog(PAYER, RECIPIENT, 999n, 0)] });
+    assert.deepEqual(await check(), { ok: false, reason: 'Transferred 999 base units, entry fee is 1000' });
+  });
+});
+
+describe('isTxHash', () => {
+  it('accepts only 32-byte hex hashes', () => {
+    assert.equal(isTxHash(TX_HASH), true);
+    assert.equal(isTxHash(TX_HASH.slice(0, -2)), false);
+    assert.equal(isTxHash(`tx_${Date.now()}`), false);
+    assert.equal(isTxHash(undefined), false);
+  });
+});
+
+describe('payment tx reuse', () => {
+  let db: Repository;
+  let sessions: SessionStore;
+
+  beforeEach(async () => {
+    db = await openTestRepository();
+    sessions = new SessionStore(db, { ttlMs: 60_000, abandonPolicy: 'none', entryFee: 0.001 });
+  });
+
+  afterEach(() => db.close());
+
+  it('refuses a manual claim of a tx that settled an x402 join', async () => {
+    // x402 join: the session holds the payment nonce; the settlement tx only reaches the ledger
+    const joined = await sessions.create('x402-session', { status: 'paid', wallet: PAYER, paymentRef: 'nonce-1', paidAt: Date.now() });
+    assert.equal(await db.isTxHashRedeemed(TX_HASH, 'manual-session'), false);
+    await db.recordEntryFee({ amount: 0.001, wallet: PAYER, sessionId: joined.id, txHash: TX_HASH, paymentRef: 'nonce-1', paymentPath: 'x402' });
+
+    assert.equal(await db.isTxHashRedeemed(TX_HASH, 'manual-session'), true);
+    assert.equal(await db.isTxHashRedeemed(TX_HASH.toUpperCase().replace('0X', '0x'), 'manual-session'), true);
+    // The settling session itself is not "another" session
+    assert.equal(await db.isTxHashRedeemed(TX_HASH, joined.id), false);
+  });
+
+  it('refuses a second manual claim of the same tx', async () => {
+    await sessions.create('first');
+    await sessions.markPaid('first', PAYER, TX_HASH);
+    assert.equal(await db.isTxHashRedeemed(TX_HASH, 'second'), true);
+    // Retrying verification for the session that redeemed it is allowed
+    assert.equal(await db.isTxHashRedeemed(TX_HASH, 'first'), false);
+  });
+});
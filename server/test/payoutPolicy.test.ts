@@ -0,0 +1,109 @@
+import assert from 'node:assert/strict';
+import { describe, it } from 'node:test';
+import { DEFAULT_PAYOUT_POLICY, computePayout, parsePayoutPolicy, type PayoutPolicy, type RankedEntry } from '../src/payoutPolicy.js';
+
+const entry = (wallet: string, score: number, gamesPlayed = 1): RankedEntry => ({ wallet, score, gamesPlayed });
+
+const policy = (overrides: Partial<PayoutPolicy>) => {
+  const parsed = parsePayoutPolicy(overrides);
+  assert.deepEqual(parsed.errors, []);
+  return parsed.policy!;
+};
+
+// Rewards rounded past float noise, keyed by wallet
+const split = (rewards: { wallet: string; rewardTotal: number; rewardHigh: number }[]) =>
+  Object.fromEntries(rewards.map(r => [r.wallet, [+r.rewardTotal.toFixed(9), +r.rewardHigh.toFixed(9)]]));
+
+describe('parsePayoutPolicy', () => {
+  it('fills what is left out from the default policy', () => {
+    assert.deepEqual(parsePayoutPolicy(undefined), { policy: DEFAULT_PAYOUT_POLICY, errors: [] });
+    const { policy } = parsePayoutPolicy({ pools: { total: 75, treasury: 0 } });
+    assert.deepEqual(policy?.pools, { total: 75, high: 25, treasury: 0 });
+    assert.equal(policy?.highScoreRanks, 3);
+  });
+
+  it('rejects pools that do not add up to 100', () => {
+    assert.deepEqual(parsePayoutPolicy({ pools: { total: 80, high: 25, treasury: 5 } }).errors, [
+      'pool percentages must add up to 100 (got 110)',
+    ]);
+    assert.deepEqual(parsePayoutPolicy({ pools: { total: 100, high: -5, treasury: 5 } }).errors, [
+      'pools.total, pools.high and pools.treasury must be non-negative numbers',
+    ]);
+  });
+
+  it('rejects a high-score table row of the wrong length or sum', () => {
+    assert.deepEqual(parsePayoutPolicy({ highScoreTable: [[100], [70, 20, 10], [60, 25, 15]] }).errors, [
+      'highScoreTable[1] must list 2 non-negative weights',
+    ]);
+    assert.deepEqual(parsePayoutPolicy({ highScoreTable: [[100], [70, 20], [60, 25, 15]] }).errors, [
+      'highScoreTable[1] must add up to 100',
+    ]);
+    assert.deepEqual(parsePayoutPolicy({ highScoreRanks: 4 }).errors, ['highScoreTable needs one row per paid rank count']);
+  });
+
+  it('rejects bad curves, ratios and thresholds', () => {
+    assert.deepEqual(parsePayoutPolicy([]).errors, ['policy must be an object']);
+    assert.deepEqual(parsePayoutPolicy({ highScoreCurve: 'steep' }).errors, ['highScoreCurve must be table, linear or geometric']);
+    assert.deepEqual(parsePayoutPolicy({ highScoreCurve: 'geometric', geometricRatio: 1.5 }).errors, ['geometricRatio must be in (0, 1]']);
+    assert.deepEqual(parsePayoutPolicy({ minGamesToQualify: 1.5, minReward: -1 }).errors, [
+      'minGamesToQualify must be a non-negative integer',
+      'minReward must be a non-negative number',
+    ]);
+  });
+});
+
+describe('computePayout', () => {
+  it('reproduces the 70/25/5 split with 60/25/15 to the top three high scores by default', () => {
+    const payout = computePayout(
+      DEFAULT_PAYOUT_POLICY,
+      10,
+      [entry('a', 60), entry('b', 30), entry('c', 10)],
+      [entry('b', 50), entry('a', 40), entry('c', 30), entry('d', 20)]
+    );
+    assert.deepEqual([payout.poolTotal, payout.poolHigh, payout.poolTreasury, payout.unallocated], [7, 2.5, 0.5, 0]);
+    assert.deepEqual(split(payout.rewards), { a: [4.2, 0.625], b: [2.1, 1.5], c: [0.7, 0.375] });
+    assert.equal(payout.rewards.find(r => r.wallet === 'a')?.highScore, 40);
+  });
+
+  it('pays 70/30 to two high scores and everything to one', () => {
+    const two = computePayout(DEFAULT_PAYOUT_POLICY, 10, [], [entry('a', 5), entry('b', 3)]);
+    assert.deepEqual(split(two.rewards), { a: [0, 1.75], b: [0, 0.75] });
+    const one = computePayout(DEFAULT_PAYOUT_POLICY, 10, [], [entry('a', 5)]);
+    assert.deepEqual(split(one.rewards), { a: [0, 2.5] });
+  });
+
+  it('weights high-score ranks n, n-1, ... 1 on the linear curve', () => {
+    const payout = computePayout(policy({ highScoreCurve: 'linear', highScoreRanks: 3 }), 12, [],
+      [entry('a', 9), entry('b', 8), entry('c', 7), entry('d', 6)]);
+    assert.deepEqual(split(payout.rewards), { a: [0, 1.5], b: [0, 1], c: [0, 0.5] });
+  });
+
+  it('gives each rank geometricRatio times the previous share on the geometric curve', () => {
+    const payout = computePayout(policy({ highScoreCurve: 'geometric', highScoreRanks: 3, geometricRatio: 0.5 }), 28, [],
+      [entry('a', 9), entry('b', 8), entry('c', 7)]);
+    assert.deepEqual(split(payout.rewards), { a: [0, 4], b: [0, 2], c: [0, 1] });
+  });
+
+  it('leaves players below minGamesToQualify out and their pools unallocated', () => {
+    const strict = policy({ minGamesToQualify: 2 });
+    const payout = computePayout(strict, 10, [entry('a', 30, 2), entry('b', 70, 1)], [entry('b', 50, 1), entry('a', 20, 2)]);
+    assert.deepEqual(split(payout.rewards), { a: [7, 2.5] });
+    assert.equal(payout.unallocated, 0);
+
+    const nobody = computePayout(strict, 10, [entry('b', 70, 1)], [entry('b', 50, 1)]);
+    assert.deepEqual(nobody.rewards, []);
+    assert.equal(nobody.unallocated, 9.5);
+  });
+
+  it('moves rewards under minReward into unallocated', () => {
+    const minReward = policy({ minReward: 1 });
+    // b's 0.7 + 0.75 clears the minimum; its 0.7 alone does not
+    const both = computePayout(minReward, 10, [entry('a', 90), entry('b', 10)], [entry('a', 90), entry('b', 10)]);
+    assert.deepEqual(split(both.rewards), { a: [6.3, 1.75], b: [0.7, 0.75] });
+    assert.equal(both.unallocated, 0);
+
+    const totalOnly = computePayout(minReward, 10, [entry('a', 90), entry('b', 10)], [entry('a', 90)]);
+    assert.deepEqual(split(totalOnly.rewards), { a: [6.3, 2.5] });
+    assert.ok(Math.abs(totalOnly.unallocated - 0.7) < 1e-9);
+  });
+});
@@ -0,0 +1,104 @@
+import assert from 'node:assert/strict';
+import { afterEach, beforeEach, describe, it, mock } from 'node:test';
+import { AsyncResource } from 'node:async_hooks';
+import { DEFAULT_PAYOUT_POLICY } from '../src/payoutPolicy.js';
+import PayoutService from '../src/payouts.js';
+import type { Repository } from '../src/repository.js';
+import { Schedule } from '../src/schedule.js';
+import { openTestRepository, recordGame, wallet } from './helpers.js';
+
+describe('PayoutService cycles', () => {
+  let db: Repository;
+  let payouts: PayoutService;
+
+  beforeEach(async () => {
+    db = await openTestRepository();
+    payouts = new PayoutService(db, { schedule: Schedule.parse('00:00'), policy: DEFAULT_PAYOUT_POLICY });
+    await db.recordEntryFee({ amount: 1, wallet: wallet(1), sessionId: 'fee', paymentPath: 'manual' });
+  });
+
+  afterEach(() => db.close());
+
+  it('pays exactly the scores it resets', async () => {
+    await recordGame(db, wallet(1), 10);
+    await recordGame(db, wallet(2), 5);
+
+    // Submit a score once the cycle has read the standings and is looking up
+    // balances, from outside the cycle's transaction like a concurrent request
+    const outside = AsyncResource.bind((work: () => Promise<unknown>) => work());
+    let late: Promise<unknown> | undefined;
+    const getWalletBalances = db.getWalletBalances.bind(db);
+    db.getWalletBalances = (wallets) => {
+      late ??= outside(() => recordGame(db, wallet(3), 7));
+      return getWalletBalances(wallets);
+    };
+
+    const result = await payouts.run(Date.now() + 1000);
+    await late;
+    assert.ok(result?.cycle);
+
+    const items = await db.getPayoutItems(result.cycle.id);
+    assert.deepEqual(items.map(item => [item.wallet, item.totalScore]), [[wallet(1), 10], [wallet(2), 5]]);
+    // The late score was neither paid nor reset; it counts towards the next cycle
+    const standings = await db.getDailyLeaderboard('total', 10);
+    assert.deepEqual(standings.map(entry => [entry.wallet, entry.score]), [[wallet(3), 7]]);
+  });
+
+  it('holds rewards under the minimum payout as a pending balance until they reach it', async () => {
+    let now = Date.now();
+    const clock = mock.method(Date, 'now', () => now);
+    try {
+      const minPayout = new PayoutService(db, { schedule: Schedule.parse('00:00'), policy: DEFAULT_PAYOUT_POLICY, minPayout: 1 });
+      await recordGame(db, wallet(1), 10);
+      const first = await minPayout.run(now + 1);
+      // The whole 0.95 player pool is short of 1 USDC
+      assert.deepEqual((await db.getPayoutItems(first!.cycle!.id)).map(i => [i.wallet, i.rewardUnits, i.carriedUnits]), [[wallet(1), '0', '0']]);
+      assert.equal((await db.getWalletBalance(wallet(1)))?.pendingUnits, '950000');
+
+      now += 10;
+      await db.recordEntryFee({ amount: 1, wallet: wallet(1), sessionId: 'fee-2', paymentPath: 'manual' });
+      await recordGame(db, wallet(1), 5);
+      const second = await minPayout.run(now + 1);
+      assert.deepEqual((await db.getPayoutItems(second!.cycle!.id)).map(i => [i.rewardUnits, i.carriedUnits]), [['1900000', '950000']]);
+      assert.equal((await db.getWalletBalance(wallet(1)))?.pendingUnits, '0');
+    } finally {
+      clock.mock.restore();
+    }
+  });
+
+  it('rolls player-pool dust into the next cycle', async () => {
+    let now = Date.now();
+    const clock = mock.method(Date, 'now', () => now);
+    try {
+      // 0.7 USDC shared three ways leaves one unit after rounding down
+      await Promise.all([1, 2, 3].map(n => recordGame(db, wallet(n), 1)));
+      const first = await payouts.run(now + 1);
+      assert.deepEqual([first?.cycle?.rolloverInUnits, first?.cycle?.rolloverOutUnits], ['0', '1']);
+
+      now += 10;
+      await db.recordEntryFee({ amount: 1, wallet: wallet(1), sessionId: 'fee-2', paymentPath: 'manual' });
+      await recordGame(db, wallet(1), 1);
+      const second = await payouts.run(now + 1);
+      assert.deepEqual([second?.cycle?.rolloverInUnits, second?.cycle?.totalPool], ['1', 1.000001]);
+    } finally {
+      clock.mock.restore();
+    }
+  });
+
+  it('collapses the closes missed during downtime into one catch-up cycle', async () => {
+    const day = 24 * 60 * 60 * 1000;
+    const firstClose = Date.UTC(2025, 0, 1);
+    assert.equal(await payouts.getDueWindowEnd(firstClose + 1000), firstClose);
+    await payouts.run(firstClose);
+    assert.equal(await payouts.getDueWindowEnd(firstClose + 1000), null);
+
+    // Down through the 2nd and 3rd, back up on the 4th at 10:00
+    const now = firstClose + 3 * day + 10 * 60 * 60 * 1000;
+    const due = await payouts.getDueWindowEnd(now);
+    assert.equal(due, firstClose + 3 * day);
+    const result = await payouts.run(due);
+    assert.deepEqual([result?.cycle?.windowStart, result?.cycle?.windowEnd], [firstClose, firstClose + 3 * day]);
+    assert.equal(await payouts.getDueWindowEnd(now), null);
+    assert.equal(await payouts.getDueWindowEnd(firstClose + 4 * day), firstClose + 4 * day);
+  });
+});
@@ -0,0 +1,163 @@
+import assert from 'node:assert/strict';
+import { after, afterEach, before, beforeEach, describe, it } from 'node:test';
+import { Interface } from 'ethers';
+import Reconciler, { type ReconcilerOptions } from '../src/reconciliation.js';
+import type { Repository } from '../src/repository.js';
+import { openTestRepository, wallet } from './helpers.js';
+import { hex, startRpcStub, type RpcStub } from './rpcStub.js';
+
+const PRIZE_POOL = wallet(0x9001);
+const PLAYER = wallet(0xa11ce);
+const EVENTS = new Interface([
+  'event Payout(address indexed to, uint256 amount)',
+  'event Deposit(address indexed from, uint256 amount)',
+]);
+
+interface StubLog {
+  blockNumber: number;
+  txHash: string;
+  event: 'Payout' | 'Deposit';
+  units: bigint;
+  removed?: boolean;
+}
+
+const txHash = (n: number) => `0x${n.toString(16).padStart(64, '0')}`;
+
+const encodeLog = (log: StubLog, index: number) => {
+  const { data, topics } = EVENTS.encodeEventLog(log.event, [PLAYER, log.units]);
+  return {
+    address: PRIZE_POOL,
+    topics,
+    data,
+    blockNumber: hex(log.blockNumber),
+    blockHash: `0x${log.blockNumber.toString(16).padStart(64, 'b')}`,
+    transactionHash: log.txHash,
+    transactionIndex: '0x0',
+    logIndex: hex(index),
+    removed: log.removed ?? false,
+  };
+};
+
+describe('Reconciler', () => {
+  let rpc: RpcStub;
+  let head: number;
+  let logs: StubLog[];
+  let db: Repository;
+
+  before(async () => {
+    rpc = await startRpcStub({
+      eth_chainId: () => hex(84532),
+      eth_blockNumber: () => hex(head),
+      eth_getLogs: ([filter]) => {
+        const from = Number(filter.fromBlock);
+        const to = Number(filter.toBlock);
+        return logs
+          .map(encodeLog)
+          .filter(log => Number(log.blockNumber) >= from && Number(log.blockNumber) <= to);
+      },
+      eth_getTransactionReceipt: () => null,
+    });
+  });
+
+  after(() => rpc.close());
+
+  beforeEach(async () => {
+    db = await openTestRepository();
+    rpc.calls.length = 0;
+    head = 100;
+    logs = [];
+  });
+
+  afterEach(() => db.close());
+
+  const reconciler = (options: Partial<ReconcilerOptions> = {}) => new Reconciler(db, {
+    rpcUrl: rpc.url,
+    prizePoolContract: PRIZE_POOL,
+    ...options,
+  });
+
+  const logRanges = () => rpc.calls
+    .filter(call => call.method === 'eth_getLogs')
+    .map(call => [Number(call.params[0].fromBlock), Number(call.params[0].toBlock)]);
+
+  it('fetches logs in ranges from the start block and advances the cursor', async () => {
+    logs = [
+      { blockNumber: 91, txHash: txHash(1), event: 'Deposit', units: 1000n },
+      { blockNumber: 97, txHash: txHash(2), event: 'Payout', units: 600n },
+    ];
+    assert.equal(await reconciler({ startBlock: 90, maxBlockRange: 4 }).sync(), 2);
+    assert.deepEqual(logRanges(), [[90, 93], [94, 97], [98, 100]]);
+    assert.equal(await db.getChainCursor('prize_pool'), 100);
+
+    const events = await db.getChainEvents();
+    assert.deepEqual(events.map(e => [e.event, e.account, e.amountUnits, e.txHash, e.blockNumber]), [
+      ['Deposit', PLAYER, '1000', txHash(1), 91],
+      ['Payout', PLAYER, '600', txHash(2), 97],
+    ]);
+  });
+
+  it('resumes after the cursor and does nothing while the head has not moved', async () => {
+    const sync = reconciler({ startBlock: 90 });
+    await sync.sync();
+    rpc.calls.length = 0;
+    assert.equal(await sync.sync(), 0);
+    assert.deepEqual(logRanges(), []);
+
+    head = 105;
+    logs = [{ blockNumber: 103, txHash: txHash(3), event: 'Deposit', units: 1000n }];
+    assert.equal(await sync.sync(), 1);
+    assert.deepEqual(logRanges(), [[101, 105]]);
+    assert.equal(await db.getChainCursor('prize_pool'), 105);
+  });
+
+  it('starts at the head on a fresh database without a start block', async () => {
+    await reconciler().sync();
+    assert.deepEqual(logRanges(), [[100, 100]]);
+    assert.equal(await db.getChainCursor('prize_pool'), 100);
+  });
+
+  it('stays confirmations blocks behind the head so reorged logs are never indexed', async () => {
+    const sync = reconciler({ startBlock: 95, confirmations: 3 });
+    logs = [{ blockNumber: 99, txHash: txHash(4), event: 'Payout', units: 500n }];
+    assert.equal(await sync.sync(), 0);
+    assert.equal(await db.getChainCursor('prize_pool'), 97);
+
+    // The unconfirmed block was reorged: the payout moved to a new transaction
+    logs = [{ blockNumber: 99, txHash: txHash(5), event: 'Payout', units: 500n }];
+    head = 102;
+    assert.equal(await sync.sync(), 1);
+    assert.deepEqual((await db.getChainEvents()).map(e => e.txHash), [txHash(5)]);
+  });
+
+  it('skips logs the node reports as removed', async () => {
+    logs = [
+      { blockNumber: 100, txHash: txHash(6), event: 'Deposit', units: 1000n, removed: true },
+      { blockNumber: 100, txHash: txHash(7), event: 'Deposit', units: 1000n },
+    ];
+    assert.equal(await reconciler({ startBlock: 100 }).sync(), 1);
+    assert.deepEqual((await db.getChainEvents()).map(e => e.txHash), [txHash(7)]);
+  });
+
+  it('backfills a range idempotently without moving the cursor', async () => {
+    await db.setChainCursor('prize_pool', 100);
+    logs = [{ blockNumber: 42, txHash: txHash(8), event: 'Payout', units: 700n }];
+    assert.equal(await reconciler().backfill(40, 50), 1);
+    assert.equal(await reconciler().backfill(40, 50), 0);
+    assert.equal((await db.getChainEvents()).length, 1);
+    assert.equal(await db.getChainCursor('prize_pool'), 100);
+  });
+
+  it('reports deposits without a matching entry fee', async () => {
+    await db.recordEntryFee({ amount: 0.001, wallet: PLAYER, sessionId: 'paid', txHash: txHash(9), paymentPath: 'manual' });
+    logs = [
+      { blockNumber: 100, txHash: txHash(9), event: 'Deposit', units: 1000n },
+      { blockNumber: 100, txHash: txHash(10), event: 'Deposit', units: 1000n },
+    ];
+    const sync = reconciler({ startBlock: 100 });
+    await sync.sync();
+    const report = await sync.reconcile();
+    assert.equal(report.indexedThrough, 100);
+    assert.equal(report.summary.depositEvents, 2);
+    assert.deepEqual(report.mismatches.map(m => [m.type, m.txHash]), [['unmatched_deposit', txHash(10)]]);
+  });
+});
@@ -0,0 +1,271 @@
+import assert from 'node:assert/strict';
+import { afterEach, beforeEach, describe, it } from 'node:test';
+import { loadMigrations, migrate } from '../src/migrations.js';
+import { isoDate, weekWindow } from '../src/periods.js';
+import type { NewPayoutCycle, Repository } from '../src/repository.js';
+import { TEST_DRIVERS, game, openTestRepository, paidSession, recordGame, skipDriver, wallet } from './helpers.js';
+
+// Behaviour both Repository implementations must share. Postgres is skipped
+// unless DATABASE_URL is set (see helpers.ts).
+
+const PLAYER = wallet(1);
+const OTHER = wallet(2);
+const TX_HASH = `0x${'ab'.repeat(32)}`;
+
+// A cycle paying every wallet on the total board its score in units
+const payEveryone = (windowEnd: number) => ({ total }: { total: { wallet: string; score: number }[] }): NewPayoutCycle => ({
+  cycle: {
+    windowStart: windowEnd - 1000,
+    windowEnd,
+    totalPool: 1,
+    poolTotal: 1,
+    poolHigh: 0,
+    poolTreasury: 0,
+    winnerCount: total.length,
+    mode: 'push',
+    rolloverInUnits: '0',
+    rolloverOutUnits: '0',
+  },
+  items: total.map((entry, i) => ({
+    wallet: entry.wallet,
+    totalScore: entry.score,
+    highScore: entry.score,
+    rewardTotal: entry.score,
+    rewardHigh: 0,
+    reward: entry.score,
+    rewardUnits: String(entry.score),
+    carriedUnits: '0',
+    batchIndex: i,
+  })),
+  balances: [],
+});
+
+for (const driver of TEST_DRIVERS) {
+  describe(`Repository contract (${driver})`, { skip: skipDriver(driver) }, () => {
+    let db: Repository;
+
+    beforeEach(async () => {
+      db = await openTestRepository(driver);
+    });
+
+    afterEach(() => db.close());
+
+    it('applies each migration once', async () => {
+      const applied = await db.getAppliedMigrations();
+      assert.ok(applied.length > 0);
+      const [first] = applied;
+      assert.equal(await db.applyMigration({ version: first.version, name: first.name, sql: 'SELECT 1' }), false);
+      assert.equal(await db.applyMigration({ version: 9000, name: 'extra', sql: 'CREATE TABLE contract_extra (id INTEGER)' }), true);
+      assert.deepEqual((await db.getAppliedMigrations()).map(m => m.version).slice(-1), [9000]);
+    });
+
+    it('merges wallet rows that differ only in case when migrating', async () => {
+      const mixed = '0xAbCdEf0000000000000000000000000000000002';
+      const lower = mixed.toLowerCase();
+      // Rows as a version 1 database could hold them, seeded with that migration
+      const [initial, ...later] = loadMigrations(driver);
+      await db.close();
+      db = await openTestRepository(driver, [{ ...initial, sql: `${initial.sql}
+        INSERT INTO player_stats (wallet, total_score, high_score, games_played, last_played)
+        VALUES ('${mixed}', 30, 20, 2, 100), ('${lower}', 12, 12, 1, 300);
+        INSERT INTO daily_player_stats (wallet, total_score_daily, high_score_daily, games_played_daily, last_played_daily)
+        VALUES ('${mixed}', 5, 5, 1, 100), ('${lower}', 7, 7, 1, 300);
+        INSERT INTO period_player_stats (period_key, wallet, total_score, high_score, games_played, last_played)
+        VALUES ('week:2024-01-01', '${mixed}', 5, 5, 1, 100), ('week:2024-01-01', '${lower}', 7, 7, 1, 300);
+        INSERT INTO entry_fees (amount, timestamp, wallet, session_id) VALUES (0.001, 100, '${mixed}', 's1'), (0.001, 300, '${lower}', 's2');
+        INSERT INTO games (session_id, wallet, score, duration_ms, food_eaten, max_length, moves, played_at, submitted_at)
+        VALUES ('s1', '${mixed}', 20, 1000, 20, 21, 10, 100, 100);
+        INSERT INTO payout_items (cycle_id, wallet, total_score, high_score, reward_total, reward_high, reward, reward_units, carried_units, batch_index)
+        VALUES (1, '${mixed}', 5, 5, 0.5, 0.25, 0.75, '750000', '0', 0), (1, '${lower}', 7, 7, 0.25, 0, 0.25, '250000', '10', 0);
+      ` }]);
+
+      assert.deepEqual((await migrate(db, [initial, ...later])).map(m => m.version), later.map(m => m.version));
+      const stats = await db.getPlayerStats(lower);
+      assert.deepEqual([stats?.wallet, stats?.totalScore, stats?.highScore, stats?.gamesPlayed, stats?.lastPlayed], [lower, 42, 20, 3, 300]);
+      assert.equal(await db.getPlayerStats(mixed), null);
+      assert.deepEqual((await db.getLeaderboard('total')).map(e => [e.wallet, e.score]), [[lower, 42]]);
+      const daily = await db.getDailyPlayerStats(lower);
+      assert.deepEqual([daily?.totalScoreDaily, daily?.highScoreDaily, daily?.gamesPlayedDaily], [12, 7, 2]);
+      assert.deepEqual((await db.getPeriodLeaderboard('week:2024-01-01', 'high')).map(e => [e.wallet, e.score]), [[lower, 7]]);
+
+      assert.deepEqual((await db.getEntryFees()).entries.map(e => e.wallet), [lower, lower]);
+      assert.deepEqual((await db.getPlayerGames(lower)).games.map(g => g.wallet), [lower]);
+      const items = await db.getPayoutItems(1);
+      assert.deepEqual(items.map(i => [i.wallet, i.totalScore, i.highScore, i.reward, i.rewardUnits, i.carriedUnits]), [
+        [lower, 12, 7, 1, '1000000', '10'],
+      ]);
+    });
+
+    it('moves game sessions only along allowed transitions', async () => {
+      await db.createGameSession({ id: 's1', status: 'created', seed: 'seed', feeRecorded: false, createdAt: 1, updatedAt: 1 });
+      assert.equal(await db.transitionGameSession('s1', 'playing'), null);
+
+      const paid = await db.transitionGameSession('s1', 'paid', { wallet: PLAYER, paymentRef: 'ref', paidAt: 2 });
+      assert.equal(paid?.status, 'paid');
+      assert.equal(paid?.wallet, PLAYER);
+      assert.equal(paid?.paidAt, 2);
+      assert.equal((await db.transitionGameSession('s1', 'playing', { startedAt: 3 }))?.startedAt, 3);
+      assert.equal((await db.transitionGameSession('s1', 'abandoned', { endedAt: 4 }))?.status, 'abandoned');
+      assert.equal(await db.transitionGameSession('s1', 'submitted'), null);
+
+      assert.deepEqual((await db.getGameSessionsByStatus(['abandoned'])).map(s => s.id), ['s1']);
+      assert.deepEqual(await db.getGameSessionsByStatus(['paid', 'playing']), []);
+      assert.equal(await db.getGameSession('missing'), null);
+    });
+
+    it('finds a tx hash redeemed by another session in either table', async () => {
+      await db.createGameSession({ id: 'manual', status: 'paid', seed: 's', wallet: PLAYER, paymentRef: TX_HASH, feeRecorded: false, createdAt: 1, paidAt: 1, updatedAt: 1 });
+      assert.equal(await db.isTxHashRedeemed(TX_HASH, 'manual'), false);
+      assert.equal(await db.isTxHashRedeemed(TX_HASH, 'other'), true);
+
+      const settled = `0x${'cd'.repeat(32)}`;
+      await db.recordEntryFee({ amount: 0.001, wallet: PLAYER, sessionId: 'x402', txHash: settled.toUpperCase().replace('0X', '0x'), paymentPath: 'x402' });
+      assert.equal(await db.isTxHashRedeemed(settled, 'x402'), false);
+      assert.equal(await db.isTxHashRedeemed(settled, 'other'), true);
+    });
+
+    it('records a score once per session and accumulates stats by lowercase wallet', async () => {
+      const mixedCase = '0xAbCdEf0000000000000000000000000000000001';
+      const session = await paidSession(db, mixedCase);
+      const first = await db.recordScore(game(session.id, mixedCase, 12));
+      assert.equal(first?.session.status, 'submitted');
+      assert.equal(first?.playerStats.wallet, mixedCase.toLowerCase());
+      assert.equal(await db.recordScore(game(session.id, mixedCase, 99)), null);
+
+      // Reads take the lowercase wallet
+      const key = mixedCase.toLowerCase();
+      await recordGame(db, key, 30);
+      const stats = await db.getPlayerStats(key);
+      assert.deepEqual([stats?.totalScore, stats?.highScore, stats?.gamesPlayed], [42, 30, 2]);
+      const daily = await db.getDailyPlayerStats(key);
+      assert.deepEqual([daily?.totalScoreDaily, daily?.highScoreDaily, daily?.gamesPlayedDaily], [42, 30, 2]);
+      const { games, total } = await db.getPlayerGames(mixedCase);
+      assert.equal(total, 2);
+      assert.deepEqual(games.map(g => g.score), [30, 12]);
+    });
+
+    it('keeps concurrent score updates for one wallet', async () => {
+      const sessions = await Promise.all([1, 2, 3, 4, 5, 6].map(() => paidSession(db, PLAYER)));
+      await Promise.all(sessions.map((session, i) => db.recordScore(game(session.id, PLAYER, i + 1))));
+      const stats = await db.getPlayerStats(PLAYER);
+      assert.deepEqual([stats?.totalScore, stats?.highScore, stats?.gamesPlayed], [21, 6, 6]);
+    });
+
+    it('ranks leaderboards and leaves out banned wallets', async () => {
+      await recordGame(db, PLAYER, 10);
+      await recordGame(db, PLAYER, 15);
+      await recordGame(db, OTHER, 20);
+      assert.deepEqual((await db.getLeaderboard('total')).map(e => [e.rank, e.wallet, e.score]), [[1, PLAYER, 25], [2, OTHER, 20]]);
+      assert.deepEqual((await db.getDailyLeaderboard('high')).map(e => [e.wallet, e.score]), [[OTHER, 20], [PLAYER, 15]]);
+      assert.deepEqual((await db.getPeriodLeaderboard(weekWindow(Date.now()).key, 'total')).map(e => e.wallet), [PLAYER, OTHER]);
+      assert.equal(await db.getDailyScoresSum('total'), 45);
+
+      const ban = await db.banWallet({ wallet: OTHER.toUpperCase().replace('0X', '0x'), reason: 'cheating', bannedBy: 'admin' });
+      assert.equal(ban?.wallet, OTHER);
+      assert.equal(await db.banWallet({ wallet: OTHER, reason: 'again', bannedBy: 'admin' }), null);
+      assert.deepEqual((await db.getLeaderboard('total')).map(e => e.wallet), [PLAYER]);
+      assert.equal(await db.getTotalPlayers(), 1);
+      assert.equal(await db.getDailyScoresSum('total'), 25);
+
+      assert.equal((await db.liftBan(OTHER, 'admin'))?.liftedBy, 'admin');
+      assert.equal(await db.getActiveBan(OTHER), null);
+      assert.equal(await db.liftBan(OTHER, 'admin'), null);
+      assert.equal((await db.getLeaderboard('total')).length, 2);
+    });
+
+    it('dedupes entry fees by session and payment', async () => {
+      assert.equal(await db.recordEntryFee({ amount: 0.001, wallet: PLAYER, sessionId: 's1', txHash: TX_HASH, paymentPath: 'manual' }), true);
+      assert.equal(await db.recordEntryFee({ amount: 0.001, wallet: PLAYER, sessionId: 's1', paymentPath: 'manual' }), false);
+      assert.equal(await db.recordEntryFee({ amount: 0.001, wallet: PLAYER, sessionId: 's2', txHash: TX_HASH, paymentPath: 'manual' }), false);
+      assert.equal(await db.recordEntryFee({ amount: 0.002, wallet: OTHER, sessionId: 's3', paymentPath: 'x402' }), true);
+
+      const all = await db.getEntryFees();
+      assert.equal(all.total, 2);
+      assert.ok(Math.abs(all.totalAmount - 0.003) < 1e-9);
+      assert.deepEqual((await db.getEntryFees({ paymentPath: 'x402' })).entries.map(e => e.sessionId), ['s3']);
+      assert.equal((await db.getEntryFees({ wallet: PLAYER.toUpperCase().replace('0X', '0x') })).total, 1);
+      assert.equal((await db.getEntryFees({ since: Date.now() + 60_000 })).total, 0);
+      assert.ok(Math.abs(await db.getTotalEntryFeesBetween(0, Date.now() + 1) - 0.003) < 1e-9);
+    });
+
+    it('redeems each credit once', async () => {
+      await db.insertSessionCompensation({ sessionId: 'abandoned', wallet: PLAYER, type: 'credit', status: 'available', amount: 0.001 });
+      assert.equal(await db.countAvailableCredits(PLAYER), 1);
+      const redeemed = await Promise.all([db.redeemCredit(PLAYER, 'next-1'), db.redeemCredit(PLAYER, 'next-2')]);
+      assert.deepEqual(redeemed.filter(Boolean), ['abandoned']);
+      assert.equal(await db.countAvailableCredits(PLAYER), 0);
+      assert.equal((await db.getSessionCompensation('abandoned'))?.status, 'redeemed');
+    });
+
+    it('closes a payout cycle from the standings it archives and resets', async () => {
+      await recordGame(db, PLAYER, 10);
+      await recordGame(db, OTHER, 4);
+      const windowEnd = Date.now();
+      const cycle = await db.createPayoutCycle(100, payEveryone(windowEnd));
+
+      assert.equal(cycle.status, 'pending');
+      assert.deepEqual((await db.getPayoutItems(cycle.id)).map(i => [i.wallet, i.rewardUnits]), [[PLAYER, '10'], [OTHER, '4']]);
+      assert.deepEqual((await db.getPayoutBatches({ cycleId: cycle.id })).map(b => [b.batchIndex, b.amountUnits]), [[0, '10'], [1, '4']]);
+      assert.deepEqual(await db.getDailyLeaderboard('total'), []);
+      const date = isoDate(windowEnd - 1);
+      assert.deepEqual(await db.getArchivedDailyCycleIds(date), [cycle.id]);
+      assert.deepEqual((await db.getArchivedDailyLeaderboard(date, 'total')).map(e => [e.wallet, e.score]), [[PLAYER, 10], [OTHER, 4]]);
+      assert.equal((await db.getLatestPayoutCycle())?.id, cycle.id);
+    });
+
+    it('leaves banned wallets off archived days until the ban is lifted', async () => {
+      await recordGame(db, PLAYER, 10);
+      await recordGame(db, OTHER, 40);
+      const windowEnd = Date.now();
+      await db.createPayoutCycle(100, payEveryone(windowEnd));
+      const date = isoDate(windowEnd - 1);
+
+      await db.banWallet({ wallet: OTHER, reason: 'cheating', bannedBy: 'admin' });
+      assert.deepEqual((await db.getArchivedDailyLeaderboard(date, 'high')).map(e => [e.rank, e.wallet]), [[1, PLAYER]]);
+      await db.liftBan(OTHER, 'admin');
+      assert.deepEqual((await db.getArchivedDailyLeaderboard(date, 'high')).map(e => e.wallet), [OTHER, PLAYER]);
+    });
+
+    it('rolls back a payout cycle whose build fails', async () => {
+      await recordGame(db, PLAYER, 10);
+      await assert.rejects(db.createPayoutCycle(100, () => { throw new Error('boom'); }), /boom/);
+      assert.equal(await db.getLatestPayoutCycle(), null);
+      assert.equal((await db.getDailyLeaderboard('total'))[0]?.score, 10);
+    });
+
+    it('hands a lease-based lock to one owner at a time', async () => {
+      assert.equal(await db.acquireLock('job', 'a', 60_000), true);
+      assert.equal(await db.acquireLock('job', 'b', 60_000), false);
+      assert.equal(await db.acquireLock('job', 'a', 60_000), true);
+      await db.releaseLock('job', 'b');
+      assert.equal(await db.acquireLock('job', 'b', 60_000), false);
+      await db.releaseLock('job', 'a');
+      assert.equal(await db.acquireLock('job', 'b', 1), true);
+      await new Promise(resolve => setTimeout(resolve, 5));
+      assert.equal(await db.acquireLock('job', 'a', 60_000), true);
+    });
+
+    it('indexes chain events idempotently behind a cursor', async () => {
+      const event = { event: 'Payout' as const, account: PLAYER, amountUnits: '5', txHash: TX_HASH, logIndex: 0, blockNumber: 7 };
+      assert.equal(await db.insertChainEvents([event, { ...event, logIndex: 1, amountUnits: '6' }]), 2);
+      assert.equal(await db.insertChainEvents([event]), 0);
+      assert.deepEqual((await db.getChainEvents({ txHash: TX_HASH.toUpperCase().replace('0X', '0x') })).map(e => e.amountUnits), ['5', '6']);
+      assert.equal(await db.getChainCursor('prize_pool'), null);
+      await db.setChainCursor('prize_pool', 7);
+      await db.setChainCursor('prize_pool', 9);
+      assert.equal(await db.getChainCursor('prize_pool'), 9);
+    });
+
+    it('queries the admin audit log newest first', async () => {
+      await db.recordAdminAction({ action: 'ban-wallet', actor: 'mod', params: { wallet: PLAYER }, status: 200, result: { ok: true }, createdAt: 1000 });
+      await db.recordAdminAction({ action: 'run-payout', actor: 'ops', params: {}, status: 500, result: { error: 'x' }, createdAt: 2000 });
+      const { entries, total } = await db.getAdminAudit();
+      assert.equal(total, 2);
+      assert.deepEqual(entries.map(e => e.action), ['run-payout', 'ban-wallet']);
+      assert.deepEqual(entries[1].params, { wallet: PLAYER });
+      assert.deepEqual(entries[1].result, { ok: true });
+      assert.deepEqual((await db.getAdminAudit({ actor: 'mod' })).entries.map(e => e.id), [entries[1].id]);
+      assert.equal((await db.getAdminAudit({ since: 1500 })).total, 1);
+    });
+  });
+}
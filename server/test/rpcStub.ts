@@ -0,0 +1,55 @@
+import { createServer, type Server } from 'node:http';
+import type { AddressInfo } from 'node:net';
+
+// Minimal JSON-RPC node for tests: each method maps to a handler returning
+// the result (or throwing, which becomes a JSON-RPC error). Batched requests
+// are answered in order.
+
+export type RpcHandlers = Record<string, (params: any[]) => unknown>;
+
+export interface RpcStub {
+  url: string;
+  calls: { method: string; params: any[] }[];
+  close(): Promise<void>;
+}
+
+export async function startRpcStub(handlers: RpcHandlers): Promise<RpcStub> {
+  const calls: RpcStub['calls'] = [];
+  const answer = (request: { id: number; method: string; params?: any[] }) => {
+    const params = request.params ?? [];
+    calls.push({ method: request.method, params });
+    const handler = handlers[request.method];
+    if (!handler) {
+      return { jsonrpc: '2.0', id: request.id, error: { code: -32601, message: `Method ${request.method} not stubbed` } };
+    }
+    try {
+      return { jsonrpc: '2.0', id: request.id, result: handler(params) ?? null };
+    } catch (err) {
+      return { jsonrpc: '2.0', id: request.id, error: { code: -32000, message: (err as Error).message } };
+    }
+  };
+
+  const server: Server = createServer((req, res) => {
+    let body = '';
+    req.on('data', chunk => { body += chunk; });
+    req.on('end', () => {
+      const request = JSON.parse(body);
+      const response = Array.isArray(request) ? request.map(answer) : answer(request);
+      res.setHeader('content-type', 'application/json');
+      res.end(JSON.stringify(response));
+    });
+  });
+  await new Promise<void>(resolve => server.listen(0, '127.0.0.1', resolve));
+  const { port } = server.address() as AddressInfo;
+
+  return {
+    url: `http://127.0.0.1:${port}`,
+    calls,
+    close: () => new Promise<void>((resolve, reject) => {
+      server.closeAllConnections();
+      server.close(err => (err ? reject(err) : resolve()));
+    }),
+  };
+}
+
+export const hex = (value: number | bigint) => `0x${value.toString(16)}`;
@@ -0,0 +1,56 @@
+import assert from 'node:assert/strict';
+import { describe, it } from 'node:test';
+import { Schedule } from '../src/schedule.js';
+
+const at = (iso: string) => Date.parse(`${iso}Z`);
+const iso = (ms: number) => new Date(ms).toISOString().slice(0, 16);
+
+describe('Schedule', () => {
+  it('runs a daily HH:MM time strictly after next and at or before previous', () => {
+    const schedule = Schedule.parse('07:30');
+    assert.equal(iso(schedule.next(at('2025-01-01T07:29'))), '2025-01-01T07:30');
+    assert.equal(iso(schedule.next(at('2025-01-01T07:30'))), '2025-01-02T07:30');
+    assert.equal(iso(schedule.previous(at('2025-01-01T07:30'))), '2025-01-01T07:30');
+    assert.equal(iso(schedule.previous(at('2025-01-01T07:29'))), '2024-12-31T07:30');
+  });
+
+  it('supports lists, ranges and steps', () => {
+    const schedule = Schedule.parse('*/15 9-17 * * 1-5');
+    // Friday 17:50 to Monday 09:00, and back from Saturday to Friday 17:45
+    assert.equal(iso(schedule.next(at('2025-01-03T17:50'))), '2025-01-06T09:00');
+    assert.equal(iso(schedule.previous(at('2025-01-04T12:00'))), '2025-01-03T17:45');
+    assert.equal(iso(Schedule.parse('0 6,18 * * *').next(at('2025-01-01T06:00'))), '2025-01-01T18:00');
+  });
+
+  it('finds 29 February in leap years only', () => {
+    const schedule = Schedule.parse('0 0 29 2 *');
+    assert.equal(iso(schedule.next(at('2025-01-01T00:00'))), '2028-02-29T00:00');
+    assert.equal(iso(schedule.previous(at('2025-06-01T00:00'))), '2024-02-29T00:00');
+  });
+
+  it('treats weekday 7 as Sunday', () => {
+    const sunday = at('2025-01-05T12:30');
+    assert.equal(Schedule.parse('30 12 * * 7').next(at('2025-01-01T00:00')), sunday);
+    assert.equal(Schedule.parse('30 12 * * 0').next(at('2025-01-01T00:00')), sunday);
+  });
+
+  it('fires on either day field when both are restricted', () => {
+    const schedule = Schedule.parse('0 0 13 * 5');
+    assert.equal(iso(schedule.next(at('2025-01-01T00:00'))), '2025-01-03T00:00'); // a Friday
+    assert.equal(iso(schedule.next(at('2025-01-10T00:00'))), '2025-01-13T00:00'); // a Monday the 13th
+  });
+
+  it('rejects malformed expressions', () => {
+    assert.throws(() => Schedule.parse('*/0 * * * *'), /Invalid step/);
+    assert.throws(() => Schedule.parse('60 * * * *'), /out of range 0-59/);
+    assert.throws(() => Schedule.parse('0 0 * * 8'), /out of range 0-7/);
+    assert.throws(() => Schedule.parse('5-1 * * * *'), /out of range/);
+    assert.throws(() => Schedule.parse('a * * * *'), /Invalid value/);
+    assert.throws(() => Schedule.parse('0 0 * *'), /5-field cron expression/);
+    assert.throws(() => Schedule.parse('25:00'), /out of range 0-23/);
+  });
+
+  it('gives up on an expression that never fires', () => {
+    assert.throws(() => Schedule.parse('0 0 31 2 *').next(at('2025-01-01T00:00')), /never fires/);
+  });
+});
@@ -0,0 +1,123 @@
+import assert from 'node:assert/strict';
+import { afterEach, beforeEach, describe, it } from 'node:test';
+import type { Repository } from '../src/repository.js';
+import SessionStore from '../src/sessions.js';
+import { game, openTestRepository, wallet } from './helpers.js';
+
+const TTL_MS = 60_000;
+const PLAYER = wallet(1);
+
+describe('SessionStore abandon compensation', () => {
+  let db: Repository;
+  let sessions: SessionStore;
+
+  beforeEach(async () => {
+    db = await openTestRepository();
+    sessions = new SessionStore(db, { ttlMs: TTL_MS, abandonPolicy: 'credit', entryFee: 0.001 });
+  });
+
+  afterEach(() => db.close());
+
+  const paidSession = (id: string) => sessions.create(id, { status: 'paid', wallet: PLAYER, paymentRef: `nonce-${id}`, paidAt: Date.now() });
+
+  it('credits a paid game abandoned before it started', async () => {
+    await paidSession('s1');
+    await sessions.abandon('s1');
+    assert.equal((await db.getSessionCompensation('s1'))?.type, 'credit');
+    assert.equal(await db.countAvailableCredits(PLAYER), 1);
+  });
+
+  it('does not compensate a game abandoned after it started', async () => {
+    await paidSession('s1');
+    await sessions.markPlaying('s1');
+    await sessions.abandon('s1');
+    assert.equal((await db.getSessionCompensation('s1'))?.type, 'none');
+    assert.equal(await db.countAvailableCredits(PLAYER), 0);
+  });
+
+  it('does not queue a refund for a game abandoned after it started', async () => {
+    sessions = new SessionStore(db, { ttlMs: TTL_MS, abandonPolicy: 'refund', entryFee: 0.001 });
+    await paidSession('s1');
+    await sessions.markPlaying('s1');
+    await sessions.abandon('s1');
+    assert.equal((await db.getSessionCompensation('s1'))?.type, 'none');
+    assert.deepEqual(await db.getCompensations('refund', 'queued'), []);
+  });
+
+  it('compensates a started game the sweeper timed out', async () => {
+    await paidSession('s1');
+    await sessions.markPlaying('s1');
+    const result = await sessions.sweep(Date.now() + TTL_MS + 1);
+    assert.equal(result.abandoned, 1);
+    assert.equal((await db.getSessionCompensation('s1'))?.type, 'credit');
+  });
+
+  it('never hands a credit back for a credit-funded game', async () => {
+    await paidSession('s1');
+    await sessions.abandon('s1');
+
+    const funded = await sessions.createFromCredit(PLAYER);
+    assert.ok(funded);
+    assert.equal(await db.countAvailableCredits(PLAYER), 0);
+
+    await sessions.abandon(funded.id);
+    assert.equal((await db.getSessionCompensation(funded.id))?.type, 'none');
+    assert.equal(await db.countAvailableCredits(PLAYER), 0);
+    assert.equal(await sessions.createFromCredit(PLAYER), null);
+  });
+
+  it('records every abandoned session so recovery does not revisit it', async () => {
+    await paidSession('s1');
+    await sessions.markPlaying('s1');
+    await sessions.abandon('s1');
+    assert.deepEqual(await db.getUncompensatedAbandonedSessions(), []);
+  });
+});
+
+describe('SessionStore score submission', () => {
+  let db: Repository;
+  let sessions: SessionStore;
+
+  beforeEach(async () => {
+    db = await openTestRepository();
+    sessions = new SessionStore(db, { ttlMs: TTL_MS, abandonPolicy: 'none', entryFee: 0.001 });
+  });
+
+  afterEach(() => db.close());
+
+  const paidSession = (id: string) => sessions.create(id, { status: 'paid', wallet: PLAYER, paymentRef: `nonce-${id}`, paidAt: Date.now() });
+
+  it('records exactly one of several concurrent submissions for a session', async () => {
+    await paidSession('s1');
+    const results = await Promise.all([10, 20, 30, 40].map(score => sessions.submit(game('s1', PLAYER, score))));
+    const recorded = results.filter(result => result !== null);
+    assert.equal(recorded.length, 1);
+    assert.equal(recorded[0]!.session.status, 'submitted');
+    assert.equal((await db.getPlayerGames(PLAYER)).total, 1);
+    assert.equal((await db.getPlayerStats(PLAYER))?.gamesPlayed, 1);
+    assert.equal((await sessions.get('s1'))?.status, 'submitted');
+  });
+
+  it('adds up concurrent submissions for one wallet', async () => {
+    const ids = ['s1', 's2', 's3', 's4', 's5'];
+    for (const id of ids) await paidSession(id);
+    const results = await Promise.all(ids.map((id, i) => sessions.submit(game(id, PLAYER, i + 1))));
+    assert.ok(results.every(result => result !== null));
+    const stats = await db.getPlayerStats(PLAYER);
+    assert.equal(stats?.gamesPlayed, 5);
+    assert.equal(stats?.totalScore, 15);
+    assert.equal(stats?.highScore, 5);
+    assert.equal((await db.getDailyPlayerStats(PLAYER))?.gamesPlayedDaily, 5);
+  });
+
+  it('keeps the session open when recording the game fails', async () => {
+    await paidSession('s1');
+    const broken = { ...game('s1', PLAYER, 10), moves: null as unknown as number };
+    await assert.rejects(sessions.submit(broken));
+    assert.equal((await sessions.get('s1'))?.status, 'paid');
+    assert.equal(await db.getPlayerStats(PLAYER), null);
+
+    const retried = await sessions.submit(game('s1', PLAYER, 10));
+    assert.equal(retried?.playerStats.totalScore, 10);
+  });
+});
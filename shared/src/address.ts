@@ -0,0 +1,20 @@
+import { isAddress } from 'viem';
+
+// Wallet addresses are stored and compared in lowercase. Mixed-case input must
+// carry a valid EIP-55 checksum, so a mistyped address is rejected rather than
+// recorded as a different player.
+
+export type WalletAddress = `0x${string}`;
+
+// Canonical (lowercase) form of a valid address, or null for anything else
+export function normalizeAddress(value: unknown): WalletAddress | null {
+  if (typeof value !== 'string') return null;
+  const address = value.trim();
+  if (!isAddress(address, { strict: true })) return null;
+  return address.toLowerCase() as WalletAddress;
+}
+
+export function isSameAddress(a: string, b: string): boolean {
+  const left = normalizeAddress(a);
+  return left !== null && left === normalizeAddress(b);
+}
@@ -0,0 +1,199 @@
+import { normalizeSeed, nextRandom } from './rng.js';
+
+// Headless Snake rules shared by the Phaser client, the server and bots.
+// One call to tick() moves the snake by exactly one cell; the renderer decides
+// when to call it using state.moveDelay.
+
+export interface Point {
+  x: number;
+  y: number;
+}
+
+export type Direction = 'up' | 'down' | 'left' | 'right';
+
+export type CollisionType = 'wall' | 'self';
+
+export const DIRECTION_VECTORS: Record<Direction, Point> = {
+  up: { x: 0, y: -1 },
+  down: { x: 0, y: 1 },
+  left: { x: -1, y: 0 },
+  right: { x: 1, y: 0 },
+};
+
+const OPPOSITE_DIRECTIONS: Record<Direction, Direction> = {
+  up: 'down',
+  down: 'up',
+  left: 'right',
+  right: 'left',
+};
+
+export interface EngineConfig {
+  gridWidth: number;
+  gridHeight: number;
+  initialMoveDelay: number; // milliseconds between moves
+  minMoveDelay: number;
+  speedStep: number; // delay reduction per speed level
+  applesPerSpeedLevel: number;
+  maxSpawnAttempts: number;
+}
+
+export const DEFAULT_ENGINE_CONFIG: EngineConfig = {
+  gridWidth: 15,
+  gridHeight: 15,
+  initialMoveDelay: 150,
+  minMoveDelay: 80,
+  speedStep: 5,
+  applesPerSpeedLevel: 5,
+  maxSpawnAttempts: 100,
+};
+
+export interface SnakeState {
+  seed: number;
+  rngState: number;
+  tick: number; // number of moves performed so far
+  snake: Point[]; // head first
+  apple: Point | null;
+  direction: Direction;
+  nextDirection: Direction;
+  score: number;
+  applesEaten: number;
+  maxLength: number;
+  moveDelay: number;
+  elapsedMs: number; // sum of move delays, i.e. simulated play time
+  gameOver: boolean;
+  collisionType: CollisionType | null;
+}
+
+export interface TickResult {
+  ateApple: boolean;
+  gameOver: boolean;
+}
+
+export class SnakeEngine {
+  readonly config: EngineConfig;
+  private _state: SnakeState;
+
+  constructor(seed: number | string, config: Partial<EngineConfig> = {}) {
+    this.config = { ...DEFAULT_ENGINE_CONFIG, ...config };
+    this._state = this.createInitialState(normalizeSeed(seed));
+  }
+
+  get state(): Readonly<SnakeState> {
+    return this._state;
+  }
+
+  // Queue a direction for the next tick. Reversing into the current direction
+  // is ignored. Returns true if the direction was accepted.
+  setDirection(direction: Direction): boolean {
+    if (this._state.gameOver) return false;
+    if (OPPOSITE_DIRECTIONS[direction] === this._state.direction) return false;
+    this._state.nextDirection = direction;
+    return true;
+  }
+
+  tick(): TickResult {
+    const state = this._state;
+    if (state.gameOver) {
+      return { ateApple: false, gameOver: true };
+    }
+
+    state.direction = state.nextDirection;
+    state.tick += 1;
+    state.elapsedMs += state.moveDelay;
+
+    const head = state.snake[0];
+    const vector = DIRECTION_VECTORS[state.direction];
+    const newHead: Point = { x: head.x + vector.x, y: head.y + vector.y };
+
+    // Check wall collision
+    if (newHead.x < 0 || newHead.x >= this.config.gridWidth ||
+        newHead.y < 0 || newHead.y >= this.config.gridHeight) {
+      return this.endGame('wall');
+    }
+
+    // Check self collision
+    if (state.snake.some(segment => segment.x === newHead.x && segment.y === newHead.y)) {
+      return this.endGame('self');
+    }
+
+    state.snake.unshift(newHead);
+
+    // Check apple collision
+    if (state.apple && newHead.x === state.apple.x && newHead.y === state.apple.y) {
+      this.eatApple();
+      return { ateApple: true, gameOver: false };
+    }
+
+    // Remove tail if no apple eaten
+    state.snake.pop();
+    return { ateApple: false, gameOver: false };
+  }
+
+  private createInitialState(seed: number): SnakeState {
+    const state: SnakeState = {
+      seed,
+      rngState: seed,
+      tick: 0,
+      snake: [
+        { x: Math.floor(this.config.gridWidth / 2), y: Math.floor(this.config.gridHeight / 2) }
+      ],
+      apple: null,
+      direction: 'right',
+      nextDirection: 'right',
+      score: 0,
+      applesEaten: 0,
+      maxLength: 1,
+      moveDelay: this.config.initialMoveDelay,
+      elapsedMs: 0,
+      gameOver: false,
+      collisionType: null,
+    };
+    this._state = state;
+    this.spawnApple();
+    return state;
+  }
+
+  private random(): number {
+    const [value, next] = nextRandom(this._state.rngState);
+    this._state.rngState = next;
+    return value;
+  }
+
+  private spawnApple() {
+    const state = this._state;
+    for (let attempts = 0; attempts < this.config.maxSpawnAttempts; attempts++) {
+      const x = Math.floor(this.random() * this.config.gridWidth);
+      const y = Math.floor(this.random() * this.config.gridHeight);
+
+      // Check if position is not occupied by snake
+      if (!state.snake.some(segment => segment.x === x && segment.y === y)) {
+        state.apple = { x, y };
+        return;
+      }
+    }
+  }
+
+  private eatApple() {
+    const state = this._state;
+    state.applesEaten += 1;
+
+    // Score is equal to the number of red apples eaten
+    state.score = state.applesEaten;
+    state.maxLength = Math.max(state.maxLength, state.snake.length);
+
+    this.spawnApple();
+
+    // Slightly increase speed (decrease delay) as score increases
+    const level = Math.floor(state.score / this.config.applesPerSpeedLevel);
+    state.moveDelay = Math.max(
+      this.config.minMoveDelay,
+      this.config.initialMoveDelay - level * this.config.speedStep
+    );
+  }
+
+  private endGame(collisionType: CollisionType): TickResult {
+    this._state.gameOver = true;
+    this._state.collisionType = collisionType;
+    return { ateApple: false, gameOver: true };
+  }
+}
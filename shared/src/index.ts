@@ -1,5 +1,16 @@
 // Export all types
 export * from './types.js';
 
+// Headless game engine
+export * from './rng.js';
+export * from './engine.js';
+export * from './replay.js';
+
+// Wallet-signed messages
+export * from './messages.js';
+
+// Wallet address normalization
+export * from './address.js';
+
 // Version info
 export const SHARED_VERSION = '1.0.0';
\ No newline at end of file
@@ -0,0 +1,12 @@
+// Messages signed by the player's wallet and verified by the server
+
+// Maximum age of a signed message before the server refuses it
+export const SIGNED_MESSAGE_MAX_AGE_MS = 5 * 60 * 1000;
+
+export function buildCreditRedemptionMessage(wallet: string, timestamp: number): string {
+  return [
+    'Snake402: redeem a free replay credit',
+    `Wallet: ${wallet}`,
+    `Timestamp: ${timestamp}`,
+  ].join('\n');
+}
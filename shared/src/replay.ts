@@ -0,0 +1,81 @@
+import { SnakeEngine, type CollisionType, type Direction, type EngineConfig } from './engine.js';
+
+// Input log recorded by the client: the direction pressed before the
+// given tick was simulated (tick = number of moves already performed).
+export interface InputEvent {
+  tick: number;
+  direction: Direction;
+}
+
+export interface ReplayResult {
+  score: number;
+  foodEaten: number;
+  maxLength: number;
+  finalLength: number;
+  ticks: number;
+  durationMs: number;
+  gameOver: boolean;
+  collisionType: CollisionType | null;
+}
+
+const VALID_DIRECTIONS: Direction[] = ['up', 'down', 'left', 'right'];
+
+// Validate an untrusted input log. Returns an error message or null.
+export function validateInputLog(inputs: unknown, maxTicks: number): string | null {
+  if (!Array.isArray(inputs)) {
+    return 'inputs must be an array';
+  }
+  if (inputs.length > maxTicks) {
+    return 'inputs exceed maximum replay length';
+  }
+  let previousTick = 0;
+  for (const input of inputs) {
+    if (!input || typeof input !== 'object') {
+      return 'inputs must be objects';
+    }
+    const { tick, direction } = input as Partial<InputEvent>;
+    if (typeof tick !== 'number' || !Number.isInteger(tick) || tick < 0 || tick >= maxTicks) {
+      return 'input tick must be a non-negative integer within the replay length';
+    }
+    if (tick < previousTick) {
+      return 'input ticks must be in ascending order';
+    }
+    if (!VALID_DIRECTIONS.includes(direction as Direction)) {
+      return `invalid input direction: ${String(direction)}`;
+    }
+    previousTick = tick;
+  }
+  return null;
+}
+
+// Re-simulate a game from its seed and input log. The simulation stops at the
+// first collision or after maxTicks moves, whichever comes first.
+export function replayGame(
+  seed: number | string,
+  inputs: InputEvent[],
+  maxTicks: number,
+  config: Partial<EngineConfig> = {}
+): ReplayResult {
+  const engine = new SnakeEngine(seed, config);
+  let cursor = 0;
+
+  while (!engine.state.gameOver && engine.state.tick < maxTicks) {
+    while (cursor < inputs.length && inputs[cursor].tick === engine.state.tick) {
+      engine.setDirection(inputs[cursor].direction);
+      cursor++;
+    }
+    engine.tick();
+  }
+
+  const state = engine.state;
+  return {
+    score: state.score,
+    foodEaten: state.applesEaten,
+    maxLength: state.maxLength,
+    finalLength: state.snake.length,
+    ticks: state.tick,
+    durationMs: state.elapsedMs,
+    gameOver: state.gameOver,
+    collisionType: state.collisionType,
+  };
+}
@@ -0,0 +1,26 @@
+// Seeded pseudo-random number generator (mulberry32)
+// State is a single 32-bit integer so it can be stored in plain game state
+// and replayed identically on the client and the server.
+
+export function normalizeSeed(seed: number | string): number {
+  if (typeof seed === 'number') {
+    return seed >>> 0;
+  }
+  // FNV-1a hash for string seeds (e.g. UUIDs issued with a session)
+  let hash = 0x811c9dc5;
+  for (let i = 0; i < seed.length; i++) {
+    hash ^= seed.charCodeAt(i);
+    hash = Math.imul(hash, 0x01000193);
+  }
+  return hash >>> 0;
+}
+
+// Advance the RNG state and return [value in [0, 1), nextState]
+export function nextRandom(state: number): [number, number] {
+  const next = (state + 0x6d2b79f5) >>> 0;
+  let t = next;
+  t = Math.imul(t ^ (t >>> 15), t | 1);
+  t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+  const value = ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  return [value, next];
+}
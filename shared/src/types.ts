@@ -1,3 +1,5 @@
+import type { InputEvent } from './replay.js';
+
 // Player and Game Types
 export interface Player {
   id: string;
@@ -20,6 +22,7 @@ export interface ScoreSubmission {
   wallet: string;
   score: number;
   gameData: GameData;
+  inputs: InputEvent[]; // replayed on the server against the session seed
   timestamp: Date;
 }
 
@@ -0,0 +1,128 @@
+import assert from 'node:assert/strict';
+import { describe, it } from 'node:test';
+import { SnakeEngine, type Point, type SnakeState } from '../src/engine.js';
+import { replayGame } from '../src/replay.js';
+
+// The engine's state is read-only to callers; tests arrange positions directly
+const arrange = (engine: SnakeEngine, fields: Partial<SnakeState>) => Object.assign(engine.state as SnakeState, fields);
+
+const onSnake = (snake: Point[], point: Point) => snake.some(segment => segment.x === point.x && segment.y === point.y);
+
+describe('SnakeEngine', () => {
+  it('starts with a one-segment snake in the centre heading right', () => {
+    const engine = new SnakeEngine('seed');
+    assert.deepEqual(engine.state.snake, [{ x: 7, y: 7 }]);
+    assert.equal(engine.state.direction, 'right');
+    assert.equal(engine.state.maxLength, 1);
+    assert.ok(engine.state.apple);
+    assert.ok(!onSnake(engine.state.snake, engine.state.apple!));
+  });
+
+  it('steps identically for the same seed and inputs', () => {
+    const play = () => {
+      const engine = new SnakeEngine('session-1234');
+      const states: string[] = [];
+      const turns: Record<number, 'up' | 'left' | 'down' | 'right'> = { 2: 'up', 5: 'left', 9: 'down', 14: 'right' };
+      while (!engine.state.gameOver && engine.state.tick < 200) {
+        const turn = turns[engine.state.tick];
+        if (turn) engine.setDirection(turn);
+        engine.tick();
+        states.push(JSON.stringify(engine.state));
+      }
+      return states;
+    };
+    assert.deepEqual(play(), play());
+  });
+
+  it('places food from the seed, never on the snake', () => {
+    assert.deepEqual(new SnakeEngine(42).state.apple, new SnakeEngine(42).state.apple);
+    assert.deepEqual(new SnakeEngine('abc').state.apple, new SnakeEngine('abc').state.apple);
+
+    // Cover every cell but (3, 11) once the apple at (1, 0) is eaten; the
+    // respawn has to land on the one free cell
+    const engine = new SnakeEngine(7, { maxSpawnAttempts: 100_000 });
+    const snake: Point[] = [{ x: 0, y: 0 }];
+    for (let y = 0; y < 15; y++) {
+      for (let x = 0; x < 15; x++) {
+        if (!(y === 0 && x <= 1) && !(x === 3 && y === 11)) snake.push({ x, y });
+      }
+    }
+    arrange(engine, { snake, apple: { x: 1, y: 0 }, direction: 'right', nextDirection: 'right' });
+    assert.deepEqual(engine.tick(), { ateApple: true, gameOver: false });
+    assert.deepEqual(engine.state.apple, { x: 3, y: 11 });
+  });
+
+  it('grows, scores and respawns food when the apple is eaten', () => {
+    const engine = new SnakeEngine(1);
+    arrange(engine, { apple: { x: 8, y: 7 } });
+    const result = engine.tick();
+    assert.deepEqual(result, { ateApple: true, gameOver: false });
+    assert.deepEqual(engine.state.snake, [{ x: 8, y: 7 }, { x: 7, y: 7 }]);
+    assert.equal(engine.state.score, 1);
+    assert.equal(engine.state.maxLength, 2);
+    assert.ok(engine.state.apple);
+    assert.ok(!onSnake(engine.state.snake, engine.state.apple!));
+  });
+
+  it('speeds up every applesPerSpeedLevel apples down to minMoveDelay', () => {
+    const engine = new SnakeEngine(1, { applesPerSpeedLevel: 1, speedStep: 40 });
+    for (let i = 0; i < 3; i++) {
+      const head = engine.state.snake[0];
+      arrange(engine, { apple: { x: head.x, y: head.y - 1 }, direction: 'up', nextDirection: 'up' });
+      engine.tick();
+    }
+    assert.equal(engine.state.score, 3);
+    assert.equal(engine.state.moveDelay, 80);
+  });
+
+  it('ends the game on a wall collision', () => {
+    const engine = new SnakeEngine(1);
+    arrange(engine, { apple: null });
+    let result = engine.tick();
+    while (!result.gameOver) result = engine.tick();
+    assert.equal(engine.state.collisionType, 'wall');
+    assert.deepEqual(engine.state.snake[0], { x: 14, y: 7 });
+    assert.equal(engine.state.tick, 8);
+    // A finished game no longer moves
+    assert.deepEqual(engine.tick(), { ateApple: false, gameOver: true });
+    assert.equal(engine.state.tick, 8);
+  });
+
+  it('ends the game on a self collision', () => {
+    const engine = new SnakeEngine(1);
+    arrange(engine, {
+      apple: null,
+      snake: [{ x: 5, y: 5 }, { x: 4, y: 5 }, { x: 4, y: 6 }, { x: 5, y: 6 }, { x: 6, y: 6 }],
+      direction: 'right',
+      nextDirection: 'down',
+    });
+    assert.deepEqual(engine.tick(), { ateApple: false, gameOver: true });
+    assert.equal(engine.state.collisionType, 'self');
+  });
+
+  it('ignores a direct reversal', () => {
+    const engine = new SnakeEngine(1);
+    assert.equal(engine.setDirection('left'), false);
+    assert.equal(engine.setDirection('up'), true);
+    assert.equal(engine.state.nextDirection, 'up');
+  });
+});
+
+describe('replayGame', () => {
+  it('matches a live game played with the same inputs', () => {
+    const engine = new SnakeEngine('replay-seed');
+    const inputs = [{ tick: 3, direction: 'down' as const }, { tick: 6, direction: 'left' as const }];
+    let cursor = 0;
+    while (!engine.state.gameOver) {
+      while (cursor < inputs.length && inputs[cursor].tick === engine.state.tick) {
+        engine.setDirection(inputs[cursor++].direction);
+      }
+      engine.tick();
+    }
+    const replay = replayGame('replay-seed', inputs, 10_000);
+    assert.equal(replay.score, engine.state.score);
+    assert.equal(replay.ticks, engine.state.tick);
+    assert.equal(replay.collisionType, engine.state.collisionType);
+    assert.equal(replay.durationMs, engine.state.elapsedMs);
+  });
+});